@@ -1,13 +1,51 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import type { Product, Poster, AspectRatio, ExpandDirection, ExpandSize, ImageFilters } from './types';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import type { Product, Poster, PosterOperation, AspectRatio, AspectCorrectionMode, BackgroundRemovalMode, ExpandRequest, ImageFilters, BatchJob, TextOverlay, Composition, Layer, ErrorReport, PromptTemplateTarget, ReferenceImage, ProductHints, FilterPreset } from './types';
 import Header from './components/Header';
 import ProductUploader from './components/ProductUploader';
 import ConceptInput from './components/ConceptInput';
+import ErrorNotice from './components/ErrorNotice';
 import PosterDisplay from './components/PosterDisplay';
+import ExportDialog from './components/ExportDialog';
+import TemplateLibrary from './components/TemplateLibrary';
+import type { TemplatePickerOptions } from './components/TemplatePicker';
+import BatchPanel from './components/BatchPanel';
+import BrandKitPanel from './components/BrandKitPanel';
+import TextOverlayPanel from './components/TextOverlayPanel';
+import LayerPanel from './components/LayerPanel';
 import PosterGallery from './components/PosterGallery';
 import CropTool from './components/CropTool';
+import MaskEditor from './components/MaskEditor';
 import { ThemeProvider } from './hooks/useTheme';
-import { removeBackground, generatePoster, refinePoster, getBase64AndMimeType, upscalePoster, expandPoster } from './services/geminiService';
+import { ImageProviderSettings } from './hooks/useImageProvider';
+import { usePosterHistory, getLineage, createPoster } from './hooks/usePosterHistory';
+import { useProjects } from './hooks/useProjects';
+import { useBatchQueue } from './hooks/useBatchQueue';
+import { useBrandKits } from './hooks/useBrandKits';
+import { usePromptTemplates } from './hooks/usePromptTemplates';
+import { useRefinementVariations } from './hooks/useRefinementVariations';
+import { useConceptAssistant } from './hooks/useConceptAssistant';
+import { useFilterPreview } from './hooks/useFilterPreview';
+import { useFilterPresets } from './hooks/useFilterPresets';
+import { usePresetThumbnails } from './hooks/usePresetThumbnails';
+import { filtersFromPreset } from './services/filterPresets';
+import AdjustmentStack from './components/AdjustmentStack';
+import FilterPresets from './components/FilterPresets';
+import { renderFilteredCanvas } from './services/adjustmentRenderer';
+import { upscaleImage } from './services/upscaleRenderer';
+import type { UpscaleFactor } from './services/upscale';
+import type { ProjectSnapshot } from './services/projectStore';
+import { removeBackground, generatePoster, generateBackground, getBase64AndMimeType } from './services/geminiService';
+import { srcToImageInput, loadImage } from './services/canvasUtils';
+import { outpaintImage, resolvePadding, isEmptyPadding, describeExpandRequest } from './services/outpainting';
+import { isCancelled } from './services/requestPolicy';
+import { toErrorReport } from './services/aiErrors';
+import { exportPoster, downloadBlob } from './services/exportService';
+import type { ExportOptions } from './services/exportService';
+import type { ExportMetadata } from './services/imageMetadata';
+import { aspectRatiosMap } from './constants';
+import { enforceAspectRatio } from './services/aspectRatioService';
+import { createTextOverlay } from './services/textOverlay';
+import { createComposition, createProductLayer, flattenComposition, getCompositionOverlays, withOverlays } from './services/composition';
 import { XMarkIcon, ZoomInIcon, ZoomOutIcon, ResetZoomIcon } from './components/icons';
 
 
@@ -98,7 +136,8 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ src, onClose }) =
 
 
 // --- Image Editor Component ---
-const TINT_COLORS = [
+// Used when no brand kit is active, or the active kit has no colors.
+const DEFAULT_TINT_COLORS = [
     { name: 'Sepia', color: '#704214' },
     { name: 'Cool', color: '#00a1d9' },
     { name: 'Warm', color: '#ff8c00' },
@@ -108,6 +147,12 @@ const TINT_COLORS = [
 
 interface ImageEditorProps {
   filters: ImageFilters;
+  tintColors: { name: string; color: string }[];
+  presets: FilterPreset[];
+  presetThumbnails: Record<string, string>;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+  onImportPresets: (presets: FilterPreset[]) => void;
   onFilterChange: (filters: ImageFilters) => void;
   onApply: () => void;
   onReset: () => void;
@@ -131,7 +176,9 @@ const Slider: React.FC<{label: string; value: number; min: string; max: string;
   </div>
 );
 
-const ImageEditor: React.FC<ImageEditorProps> = ({ filters, onFilterChange, onApply, onReset, disabled }) => {
+const ImageEditor: React.FC<ImageEditorProps> = ({
+  filters, tintColors, presets, presetThumbnails, onSavePreset, onDeletePreset, onImportPresets, onFilterChange, onApply, onReset, disabled,
+}) => {
   const handleSliderChange = (filterName: keyof Omit<ImageFilters, 'tint'>, value: string) => {
     onFilterChange({
       ...filters,
@@ -157,6 +204,14 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ filters, onFilterChange, onAp
     <div className="bg-surface-light dark:bg-surface-dark p-6 rounded-2xl shadow-sm border border-border-light dark:border-border-dark">
       <h2 className="text-lg font-bold mb-4">Adjustments</h2>
       <div className="space-y-4">
+        <FilterPresets
+          presets={presets}
+          thumbnails={presetThumbnails}
+          onSelect={(preset) => onFilterChange(filtersFromPreset(preset))}
+          onSave={onSavePreset}
+          onDelete={onDeletePreset}
+          onImport={onImportPresets}
+        />
         <Slider
           label="Brightness"
           value={filters.brightness}
@@ -184,9 +239,16 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ filters, onFilterChange, onAp
         <div>
             <label className="block text-sm font-medium mb-2">Color Tint</label>
             <div className="flex flex-wrap gap-2 mb-2">
-                {TINT_COLORS.map(c => (
+                {tintColors.map(c => (
                     <button key={c.name} onClick={() => handleTintColorChange(c.color)} className={`w-6 h-6 rounded-full transition-transform ring-offset-2 ring-offset-surface-light dark:ring-offset-surface-dark ${filters.tint?.color === c.color ? 'ring-2 ring-primary-light dark:ring-primary-dark' : ''} hover:scale-110`} style={{backgroundColor: c.color}} title={c.name} />
                 ))}
+                <label
+                    className={`relative w-6 h-6 rounded-full cursor-pointer overflow-hidden ring-offset-2 ring-offset-surface-light dark:ring-offset-surface-dark hover:scale-110 transition-transform ${filters.tint && !tintColors.some(c => c.color === filters.tint!.color) ? 'ring-2 ring-primary-light dark:ring-primary-dark' : ''}`}
+                    style={{ background: filters.tint && !tintColors.some(c => c.color === filters.tint!.color) ? filters.tint.color : 'conic-gradient(red, yellow, lime, cyan, blue, magenta, red)' }}
+                    title="Custom color"
+                >
+                    <input type="color" value={filters.tint?.color ?? '#ffffff'} onChange={(e) => handleTintColorChange(e.target.value)} className="absolute inset-0 opacity-0 cursor-pointer" />
+                </label>
                 <button onClick={clearTint} className="w-6 h-6 rounded-full bg-cover" title="No Tint">
                     <div className="w-full h-full rounded-full bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark flex items-center justify-center">
                         <XMarkIcon className="w-4 h-4 text-subtext-light dark:text-subtext-dark" />
@@ -204,6 +266,10 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ filters, onFilterChange, onAp
                 />
             )}
         </div>
+        <AdjustmentStack
+          adjustments={filters.adjustments}
+          onChange={(adjustments) => onFilterChange({ ...filters, adjustments })}
+        />
       </div>
       <div className="flex space-x-2 mt-6">
         <button
@@ -231,39 +297,146 @@ const DEFAULT_FILTERS: ImageFilters = {
     contrast: 100,
     saturate: 100,
     tint: null,
-};
-
-const aspectRatiosMap: Record<AspectRatio, number> = {
-    '9:16': 9 / 16,
-    '1:1': 1,
-    '16:9': 16 / 9,
-    '3:4': 3 / 4,
-    '4:3': 4 / 3,
+    adjustments: [],
 };
 
 function App() {
   const [products, setProducts] = useState<Product[]>([]);
-  const [posters, setPosters] = useState<Poster[]>([]);
-  const [activePosterId, setActivePosterId] = useState<string | null>(null);
+  const { posters, activePosterId, activePoster, loadHistory, addPoster, updatePoster, selectPoster, undo, redo, canUndo, canRedo } = usePosterHistory();
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('9:16');
+  const [aspectCorrection, setAspectCorrection] = useState<AspectCorrectionMode>('crop');
+  const [backgroundRemoval, setBackgroundRemoval] = useState<BackgroundRemovalMode>('auto');
+  const [concept, setConcept] = useState('');
+  const [posterText, setPosterText] = useState('');
+  const [textAsOverlay, setTextAsOverlay] = useState(false);
+  const [generateLayered, setGenerateLayered] = useState(false);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState({ generating: false, modifying: false });
+  // Aborts the running generation or modification when the user cancels it.
+  const generateController = useRef<AbortController | null>(null);
+  const modifyController = useRef<AbortController | null>(null);
+  // App-level problems (storage, export); failed AI jobs report their errors where they ran.
   const [error, setError] = useState<string | null>(null);
-  const [refinementVariations, setRefinementVariations] = useState<Poster[]>([]);
+  const [generateError, setGenerateError] = useState<ErrorReport | null>(null);
+  const [modifyError, setModifyError] = useState<ErrorReport | null>(null);
+  const [modifyProgress, setModifyProgress] = useState<number | null>(null);
+  // An ESRGAN-style model picked by the user; it is kept for the session only.
+  const [upscaleModel, setUpscaleModel] = useState<{ name: string; data: ArrayBuffer } | null>(null);
+  const { variations: refinementVariations, startRefinement, rerollVariation, clearVariations } = useRefinementVariations();
   
   // For live preview of adjustments
   const [pendingFilters, setPendingFilters] = useState<ImageFilters>(DEFAULT_FILTERS);
   
   const [previewModal, setPreviewModal] = useState<{isOpen: boolean, src: string | null}>({isOpen: false, src: null});
-  const [posterCropModal, setPosterCropModal] = useState({ isOpen: false, src: null as string | null });
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isTemplateLibraryOpen, setIsTemplateLibraryOpen] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [batchConcurrency, setBatchConcurrency] = useState(2);
+  const [posterCropModal, setPosterCropModal] = useState({ isOpen: false, src: null as string | null, parentId: null as string | null });
 
   // For product upload workflow
   const [uploadQueue, setUploadQueue] = useState<File[]>([]);
   const [productToCrop, setProductToCrop] = useState<{file: File, fileURL: string} | null>(null);
+  const [maskEditorProductId, setMaskEditorProductId] = useState<string | null>(null);
+  const maskEditorProduct = products.find(p => p.id === maskEditorProductId);
 
-  // Reset filters when active poster changes
+  const projectSnapshot = useMemo<ProjectSnapshot>(
+    () => ({ products, posters, activePosterId, aspectRatio, concept, posterText }),
+    [products, posters, activePosterId, aspectRatio, concept, posterText],
+  );
+
+  const { campaigns, jobs, queueCampaign, retryJob, removeCampaign, clearQueue } = useBatchQueue(products, batchConcurrency, aspectCorrection);
+
+  // Work still running for the project being left is stopped, so its results never land in the next one.
+  // Batch campaigns are built from the project's products, so they are dropped too.
+  const handleLeaveProject = useCallback(() => {
+    generateController.current?.abort();
+    generateController.current = null;
+    modifyController.current?.abort();
+    modifyController.current = null;
+    clearVariations();
+    clearQueue();
+    setIsLoading({ generating: false, modifying: false });
+    setModifyProgress(null);
+  }, [clearVariations, clearQueue]);
+
+  const handleRestoreProject = useCallback((snapshot: ProjectSnapshot) => {
+    setProducts(snapshot.products);
+    loadHistory(snapshot.posters, snapshot.activePosterId);
+    setAspectRatio(snapshot.aspectRatio);
+    setConcept(snapshot.concept);
+    setPosterText(snapshot.posterText);
+    clearVariations();
+    setError(null);
+    setGenerateError(null);
+    setModifyError(null);
+  }, [loadHistory, clearVariations]);
+
+  const {
+    projects, currentProjectId, switchProject, newProject, renameProject, deleteProject,
+  } = useProjects(projectSnapshot, handleLeaveProject, handleRestoreProject, setError, '9:16');
+
+  const conceptAssistant = useConceptAssistant(products);
+
+  const { brandKits, activeBrandKit, setActiveBrandKitId, createBrandKit, updateBrandKit, removeBrandKit } = useBrandKits(setError);
+  const {
+    templates, createTemplate, updateTemplate, removeTemplate, importTemplates,
+    variableValues, setVariableValues, systemPromptOverrides, setSystemPromptOverride,
+  } = usePromptTemplates(setError);
+
+  const templatePickerFor = (target: PromptTemplateTarget): TemplatePickerOptions => ({
+    templates: templates.filter(t => t.target === target),
+    values: variableValues,
+    onValuesChange: setVariableValues,
+    onSave: (name, text) => createTemplate(name, target, text),
+    onManage: () => setIsTemplateLibraryOpen(true),
+  });
+  const tintColors = activeBrandKit && activeBrandKit.colors.length > 0 ? activeBrandKit.colors : DEFAULT_TINT_COLORS;
+
+  // Filtered posters reopen with their filters, applied to the poster they came from;
+  // any other poster starts from neutral filters.
+  const filterSource = (activePoster?.filters && posters.find(p => p.id === activePoster.parentId)) || activePoster;
   useEffect(() => {
-    setPendingFilters(DEFAULT_FILTERS);
+    setPendingFilters(activePoster?.filters ?? DEFAULT_FILTERS);
   }, [activePosterId]);
+  const filteredPreview = useFilterPreview(filterSource?.src ?? null, pendingFilters);
+  const { presets: filterPresets, createPreset, removePreset, importPresets } = useFilterPresets(setError);
+  const presetThumbnails = usePresetThumbnails(filterSource?.src ?? null, filterPresets);
+  const filterPreviewSrc = filteredPreview ?? (filterSource && filterSource !== activePoster ? filterSource.src : null);
+
+  // Undo / redo shortcuts, left to the browser while typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      e.preventDefault();
+      if (e.shiftKey) redo(); else undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Keeps the flattened `src` of layered posters in step with their layers. Debounced per
+  // poster so dragging stays smooth, and not cancelled when another poster is selected.
+  const flattenTimers = useRef(new Map<string, number>());
+  const seenComposition = useRef<{ posterId: string, composition: Composition } | null>(null);
+  useEffect(() => {
+    if (!activePoster?.composition) return;
+    const { id, composition } = activePoster;
+    const seen = seenComposition.current;
+    seenComposition.current = { posterId: id, composition };
+    // Just selected or loaded: its `src` already matches.
+    if (!seen || seen.posterId !== id || seen.composition === composition) return;
+
+    window.clearTimeout(flattenTimers.current.get(id));
+    flattenTimers.current.set(id, window.setTimeout(() => {
+      flattenTimers.current.delete(id);
+      flattenComposition(composition)
+        .then(src => updatePoster(id, { src }))
+        .catch(err => console.error('Failed to flatten layers:', err));
+    }, 400));
+  }, [activePoster, updatePoster]);
 
   // Process upload queue
   useEffect(() => {
@@ -277,6 +450,18 @@ function App() {
     setUploadQueue(q => [...q, ...Array.from(files)]);
   }, []);
   
+  const processProduct = useCallback(async (product: Product, name: string) => {
+    try {
+        const { base64 } = await srcToImageInput(product.original);
+        const processedBase64 = await removeBackground(base64, product.originalMimeType, backgroundRemoval);
+        const processedSrc = `data:image/png;base64,${processedBase64}`;
+        setProducts(prev => prev.map(p => p.id === product.id ? { ...p, processed: processedSrc, isProcessing: false, error: undefined } : p));
+    } catch (err) {
+        console.error(`Failed to process image: ${name}`, err);
+        setProducts(prev => prev.map(p => p.id === product.id ? { ...p, isProcessing: false, error: toErrorReport(err) } : p));
+    }
+  }, [backgroundRemoval]);
+
   const handleApplyProductCrop = useCallback(async (croppedImageSrc: string) => {
     if (!productToCrop) return;
 
@@ -293,26 +478,25 @@ function App() {
     setProductToCrop(null); // Close modal
     setUploadQueue(q => q.slice(1)); // Dequeue
 
-    try {
-        const blob = await (await fetch(croppedImageSrc)).blob();
-        const base64 = await new Promise<string>((resolve, reject) => {
-            const reader = new FileReader();
-            reader.readAsDataURL(blob);
-            reader.onload = () => resolve((reader.result as string).split(',')[1]);
-            reader.onerror = error => reject(error);
-        });
-
-        const processedBase64 = await removeBackground(base64, newProduct.originalMimeType);
-        const processedSrc = `data:image/png;base64,${processedBase64}`;
-        setProducts(prev => prev.map(p => p.id === newProduct.id ? { ...p, processed: processedSrc, isProcessing: false } : p));
-    } catch (err) {
-        console.error(err);
-        setError(`Failed to process image: ${file.name}`);
-        setProducts(prev => prev.map(p => p.id === newProduct.id ? { ...p, isProcessing: false } : p));
-    }
+    await processProduct(newProduct, file.name);
+  }, [productToCrop, processProduct]);
 
-  }, [productToCrop]);
+  const handleProductRetry = useCallback((id: string) => {
+    const product = products.find(p => p.id === id);
+    if (!product) return;
+    setProducts(prev => prev.map(p => p.id === id ? { ...p, isProcessing: true, error: undefined } : p));
+    processProduct(product, `product ${products.indexOf(product) + 1}`);
+  }, [products, processProduct]);
   
+  const handleProductHintsChange = useCallback((id: string, hints: ProductHints) => {
+    setProducts(prev => prev.map(p => p.id === id ? { ...p, hints } : p));
+  }, []);
+
+  const handleSaveProductMask = (processedSrc: string) => {
+    setProducts(prev => prev.map(p => p.id === maskEditorProductId ? { ...p, processed: processedSrc } : p));
+    setMaskEditorProductId(null);
+  };
+
   const handleCancelProductCrop = () => {
     setProductToCrop(null);
     setUploadQueue(q => q.slice(1));
@@ -322,297 +506,494 @@ function App() {
     setProducts(prev => prev.filter(p => p.id !== id));
   }, []);
 
-  const handleGenerate = useCallback(async (concept: string, referenceImageFile: File | null, posterText: string) => {
+  const handleGenerate = useCallback(async (concept: string, referenceImages: ReferenceImage[], posterText: string) => {
     const processedProducts = products.filter(p => p.processed);
     if (processedProducts.length === 0) {
         setError("Please upload and process at least one product image.");
         return;
     }
     
+    const controller = new AbortController();
+    generateController.current = controller;
+    const { signal } = controller;
     setIsLoading({ generating: true, modifying: false });
-    setError(null);
+    setGenerateError(null);
 
     try {
-      let referenceImage: { base64: string; mimeType: string; } | null = null;
-      if (referenceImageFile) {
-        referenceImage = await getBase64AndMimeType(referenceImageFile);
+      const references = await Promise.all(referenceImages.map(async ({ file, role, strength }) => ({
+        ...await getBase64AndMimeType(file),
+        role,
+        strength,
+      })));
+
+      // In overlay mode the model renders no text; the copy becomes an editable overlay instead.
+      // Layered posters always take their text as an overlay, since the model only paints the background.
+      const overlayText = textAsOverlay || generateLayered ? posterText.trim() : '';
+      const overlays = overlayText ? [createTextOverlay(overlayText)] : [];
+
+      let newPoster: Poster;
+      if (generateLayered) {
+        const backgroundBase64 = await generateBackground(concept, aspectRatio, references, signal);
+        const { base64, specCheck } = await enforceAspectRatio(backgroundBase64, 'image/jpeg', aspectRatio, aspectCorrection, signal);
+        const composition = await createComposition(
+          `data:image/jpeg;base64,${base64}`,
+          processedProducts.map(p => ({ id: p.id, src: p.processed!, hints: p.hints })),
+          overlays,
+        );
+        newPoster = { ...createPoster(await flattenComposition(composition), concept, 'generate', null), specCheck, composition };
+      } else {
+        const productData = await Promise.all(processedProducts.map(async p => ({ ...await srcToImageInput(p.processed!), hints: p.hints })));
+        const posterBase64 = await generatePoster(productData, concept, aspectRatio, references, overlayText ? '' : posterText, signal);
+        const { base64, specCheck } = await enforceAspectRatio(posterBase64, 'image/jpeg', aspectRatio, aspectCorrection, signal);
+        newPoster = {
+          ...createPoster(`data:image/jpeg;base64,${base64}`, concept, 'generate', null),
+          specCheck,
+          overlays: overlays.length > 0 ? overlays : undefined,
+        };
       }
-
-      const productData = processedProducts.map(p => {
-          const base64 = p.processed!.split(',')[1];
-          return { base64, mimeType: 'image/png' };
-      });
-      
-      const posterBase64 = await generatePoster(productData, concept, aspectRatio, referenceImage, posterText);
-      const newPoster: Poster = {
-        id: `poster-${Date.now()}`,
-        src: `data:image/jpeg;base64,${posterBase64}`,
-        prompt: concept,
-      };
-      setPosters(prev => [newPoster, ...prev.slice(0, 1)]); // Keep history to 2
-      setActivePosterId(newPoster.id);
+      signal.throwIfAborted();
+      addPoster(newPoster);
       
       if (previewModal.isOpen) {
           setPreviewModal({ isOpen: true, src: newPoster.src });
       }
 
     } catch (err: any) {
+        if (isCancelled(err)) return;
         console.error(err);
-        setError(err.message || "Failed to generate poster. Please try again.");
+        setGenerateError(toErrorReport(err));
     } finally {
-        setIsLoading({ generating: false, modifying: false });
+        if (generateController.current === controller) {
+            generateController.current = null;
+            setIsLoading({ generating: false, modifying: false });
+        }
     }
-  }, [products, aspectRatio, previewModal.isOpen]);
+  }, [products, aspectRatio, aspectCorrection, textAsOverlay, generateLayered, previewModal.isOpen, addPoster]);
 
-  const handleRefine = useCallback(async (refinementPrompt: string) => {
-    const activePoster = posters.find(p => p.id === activePosterId);
+  const handleOpenBatchResult = (job: BatchJob) => {
+    if (!job.result) return;
+    addPoster({ ...createPoster(job.result, job.concept, 'generate', null), specCheck: job.specCheck ?? undefined });
+    setIsBatchOpen(false);
+  };
+
+  // With a selection only the selected area is sent for editing, and every variation
+  // is composited back so the rest of the poster stays untouched.
+  const handleRefine = (refinementPrompt: string, selection: HTMLCanvasElement | null, count: number) => {
     if (!activePoster) return;
+    startRefinement(activePoster, refinementPrompt, selection, count);
+  };
 
+  // `modificationFn` resolves to the src of the new poster version.
+  const handleImageModification = useCallback(async (modificationFn: (signal: AbortSignal) => Promise<string>, prompt: string, operation: PosterOperation, parentId: string) => {
+    const controller = new AbortController();
+    modifyController.current = controller;
     setIsLoading(prev => ({ ...prev, modifying: true }));
-    setError(null);
-    setRefinementVariations([]);
-
+    setModifyError(null);
     try {
-        const currentPosterBase64 = activePoster.src.split(',')[1];
-        const refinedPosterBase64s = await refinePoster({ base64: currentPosterBase64, mimeType: 'image/jpeg' }, refinementPrompt);
-        
-        const newPosters: Poster[] = refinedPosterBase64s.map((base64, index) => ({
-            id: `poster-variation-${Date.now()}-${index}`,
-            src: `data:image/jpeg;base64,${base64}`,
-            prompt: refinementPrompt,
-        }));
-        setRefinementVariations(newPosters);
+        const newSrc = await modificationFn(controller.signal);
+        controller.signal.throwIfAborted();
+        addPoster(createPoster(newSrc, prompt, operation, parentId));
     } catch (err: any) {
+        if (isCancelled(err)) return;
         console.error(err);
-        setError(err.message || "Failed to refine poster. Please try again.");
+        setModifyError(toErrorReport(err));
     } finally {
-        setIsLoading(prev => ({ ...prev, modifying: false }));
-    }
-  }, [activePosterId, posters]);
-  
-  const handleImageModification = useCallback(async (modificationFn: () => Promise<string>, prompt: string) => {
-    setIsLoading(prev => ({ ...prev, modifying: true }));
-    setError(null);
-    try {
-        const newBase64 = await modificationFn();
-        const newPoster: Poster = {
-            id: `poster-${Date.now()}`,
-            src: `data:image/jpeg;base64,${newBase64}`,
-            prompt: prompt,
-        };
-        setPosters(prev => [newPoster, ...prev.slice(0, 1)]);
-        setActivePosterId(newPoster.id);
-    } catch (err: any) {
-        console.error(err);
-        setError(err.message || "An error occurred during image modification.");
-    } finally {
-        setIsLoading(prev => ({ ...prev, modifying: false }));
+        if (modifyController.current === controller) {
+            modifyController.current = null;
+            setIsLoading(prev => ({ ...prev, modifying: false }));
+            setModifyProgress(null);
+        }
     }
-}, []);
+}, [addPoster]);
 
-const handleApplyFilters = () => {
-    const activePoster = posters.find(p => p.id === activePosterId);
-    if (!activePoster) return;
-    
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
-    img.src = activePoster.src;
-    img.onload = () => {
-        const canvas = document.createElement('canvas');
-        canvas.width = img.naturalWidth;
-        canvas.height = img.naturalHeight;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-        
-        const { brightness, contrast, saturate, tint } = pendingFilters;
-        ctx.filter = `brightness(${brightness}%) contrast(${contrast}%) saturate(${saturate}%)`;
-        ctx.drawImage(img, 0, 0);
-
-        if (tint && tint.amount > 0) {
-            ctx.globalCompositeOperation = 'color';
-            ctx.fillStyle = tint.color;
-            ctx.globalAlpha = tint.amount;
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
-        }
+  // The cancelled call settles on its own; the UI is released right away.
+  const handleCancelGenerate = () => {
+    generateController.current?.abort();
+    generateController.current = null;
+    setIsLoading(prev => ({ ...prev, generating: false }));
+  };
+
+  const handleCancelModify = () => {
+    modifyController.current?.abort();
+    modifyController.current = null;
+    setIsLoading(prev => ({ ...prev, modifying: false }));
+    setModifyProgress(null);
+  };
+
+// The result is a new version of the source poster that remembers its filters, so they stay editable.
+// It is rendered by the same engine as the preview, at full size.
+const handleApplyFilters = async () => {
+    if (!filterSource) return;
 
+    try {
+        const canvas = await renderFilteredCanvas(filterSource.src, pendingFilters);
         const newSrc = canvas.toDataURL('image/jpeg');
-        const newPoster: Poster = {
-            id: `poster-${Date.now()}`,
-            src: newSrc,
-            prompt: 'Applied image adjustments',
-        };
-        setPosters(prev => [newPoster, ...prev.slice(0, 1)]);
-        setActivePosterId(newPoster.id);
-        setPendingFilters(DEFAULT_FILTERS); // Reset after applying
-    };
+        addPoster({ ...createPoster(newSrc, 'Applied image adjustments', 'filter', filterSource.id), filters: pendingFilters });
+    } catch (err) {
+        console.error(err);
+        setError('The adjustments could not be applied.');
+    }
 };
 
 
-const handleUpscale = useCallback((scale: 2 | 4) => {
-    const activePoster = posters.find(p => p.id === activePosterId);
+// Upscaling runs locally, so the result is always exactly `scale` times the size.
+const handleUpscale = useCallback((scale: UpscaleFactor) => {
     if (!activePoster) return;
-    const base64 = activePoster.src.split(',')[1];
-    handleImageModification(() => upscalePoster({ base64, mimeType: 'image/jpeg' }, scale), `Upscaled ${scale}x`);
-}, [activePosterId, posters, handleImageModification]);
+    const { src } = activePoster;
+    setModifyProgress(0);
+    handleImageModification(async signal => {
+        const canvas = await upscaleImage(src, scale, { onProgress: setModifyProgress, signal, model: upscaleModel?.data });
+        return canvas.toDataURL('image/jpeg', 0.95);
+    }, upscaleModel ? `Upscaled ${scale}x with ${upscaleModel.name}` : `Upscaled ${scale}x`, 'upscale', activePoster.id);
+}, [activePoster, handleImageModification, upscaleModel]);
+
+const handleLoadUpscaleModel = async (file: File) => {
+    try {
+        setUpscaleModel({ name: file.name.replace(/\.onnx$/i, ''), data: await file.arrayBuffer() });
+    } catch (err) {
+        console.error(err);
+        setError('The model file could not be read.');
+    }
+};
 
-const handleExpand = useCallback((direction: ExpandDirection, size: ExpandSize) => {
-    const activePoster = posters.find(p => p.id === activePosterId);
+// The result is a PNG so the original area stays bit-identical.
+const handleExpand = useCallback((request: ExpandRequest) => {
     if (!activePoster) return;
-    const base64 = activePoster.src.split(',')[1];
-    handleImageModification(() => expandPoster({ base64, mimeType: 'image/jpeg' }, direction, size), `Expanded image (${direction} ${size}%)`);
-}, [activePosterId, posters, handleImageModification]);
+    const { src } = activePoster;
+    handleImageModification(async signal => {
+        const img = await loadImage(src);
+        const padding = resolvePadding(img.naturalWidth, img.naturalHeight, request);
+        if (isEmptyPadding(padding)) throw new Error('The poster already has that size.');
+        const canvas = await outpaintImage(src, padding, signal);
+        return canvas.toDataURL('image/png');
+    }, describeExpandRequest(request), 'expand', activePoster.id);
+}, [activePoster, handleImageModification]);
 
 
   const handleConfirmRefinement = (poster: Poster) => {
-    setPosters(prev => [poster, ...prev.slice(0, 1)]);
-    setActivePosterId(poster.id);
-    setRefinementVariations([]);
+    addPoster(poster);
+    clearVariations();
+  };
+
+  // Layered posters keep their text as text layers; flat posters keep a plain overlay list.
+  const activeOverlays = activePoster?.composition ? getCompositionOverlays(activePoster.composition) : activePoster?.overlays ?? [];
+
+  const handleOverlaysChange = (overlays: TextOverlay[]) => {
+    if (!activePoster) return;
+    if (activePoster.composition) {
+      updatePoster(activePoster.id, { composition: withOverlays(activePoster.composition, overlays) });
+    } else {
+      updatePoster(activePoster.id, { overlays });
+    }
+  };
+
+  const handleOverlayChange = (overlay: TextOverlay) => {
+    handleOverlaysChange(activeOverlays.map(o => (o.id === overlay.id ? overlay : o)));
+  };
+
+  const handleAddText = () => {
+    const overlay = createTextOverlay('Your text', { y: 0.5 });
+    handleOverlaysChange([...activeOverlays, overlay]);
+    setSelectedLayerId(overlay.id);
+  };
+
+  const handleDeleteOverlay = (id: string) => {
+    handleOverlaysChange(activeOverlays.filter(o => o.id !== id));
+    setSelectedLayerId(null);
+  };
+
+  const handleCompositionChange = (composition: Composition) => {
+    if (activePoster) updatePoster(activePoster.id, { composition });
+  };
+
+  const handleLayerChange = (layer: Layer) => {
+    if (!activePoster?.composition) return;
+    const { composition } = activePoster;
+    handleCompositionChange({ ...composition, layers: composition.layers.map(l => (l.id === layer.id ? layer : l)) });
+  };
+
+  const handleConvertToLayers = async () => {
+    if (!activePoster) return;
+    try {
+      const composition = await createComposition(activePoster.src, [], activePoster.overlays);
+      updatePoster(activePoster.id, { composition, overlays: undefined });
+    } catch (err: any) {
+      console.error(err);
+      setError("Failed to convert the poster to layers.");
+    }
   };
 
-  const handleCancelRefinement = () => {
-    setRefinementVariations([]);
+  const handleAddProductLayer = async (product: Product) => {
+    if (!activePoster?.composition || !product.processed) return;
+    const { id, composition } = activePoster;
+    try {
+      const index = products.indexOf(product);
+      const layer = await createProductLayer(composition, { id: product.id, src: product.processed }, `Product ${index + 1}`);
+      // Insert below the text layers so new products never cover the copy.
+      const firstText = composition.layers.findIndex(l => l.type === 'text');
+      const layers = [...composition.layers];
+      layers.splice(firstText === -1 ? layers.length : firstText, 0, layer);
+      updatePoster(id, { composition: { ...composition, layers } });
+      setSelectedLayerId(layer.id);
+    } catch (err: any) {
+      console.error(err);
+      setError("Failed to add the product layer.");
+    }
   };
 
-  const handleDownload = (quality: 'standard' | 'large' | 'hq') => {
-    const activePoster = posters.find(p => p.id === activePosterId);
+  const handleExport = async (options: ExportOptions) => {
     if (!activePoster) return;
 
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
-    img.src = activePoster.src;
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-      
-      let scale = 1;
-      if (quality === 'large') scale = 2;
-      if (quality === 'hq') scale = 4;
-      
-      canvas.width = img.width * scale;
-      canvas.height = img.height * scale;
-      
-      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-      
-      const link = document.createElement('a');
-      link.href = canvas.toDataURL('image/jpeg', 1.0);
-      link.download = `poster-${activePoster.id}-${quality}.jpeg`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+    const lineage = getLineage(posters, activePoster.id);
+    const projectName = projects.find(p => p.id === currentProjectId)?.name;
+    const metadata: ExportMetadata = {
+      title: projectName || 'AI Edit poster',
+      concept: lineage[0]?.prompt || activePoster.prompt,
+      lineage: lineage.map(({ operation, prompt, createdAt }) => ({ operation, prompt, createdAt })),
     };
-  }
+
+    try {
+      const result = await exportPoster(activePoster, `poster-${activePoster.id}`, options, metadata);
+      downloadBlob(result.blob, result.filename);
+      const notes: string[] = [];
+      if (result.fallbackFrom) {
+        notes.push(`This browser cannot encode ${result.fallbackFrom.toUpperCase()}, so the poster was exported as ${result.filename.split('.').pop()?.toUpperCase()} instead.`);
+      }
+      if (result.cappedFrom) {
+        notes.push(`${result.cappedFrom.width}×${result.cappedFrom.height} is larger than browsers can draw, so the poster was exported at the largest size that fits.`);
+      }
+      if (notes.length) setError(notes.join(' '));
+      setIsExportOpen(false);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to export the poster.");
+    }
+  };
   
   const handlePreview = () => {
-      const activePoster = posters.find(p => p.id === activePosterId);
       if (activePoster) {
           setPreviewModal({ isOpen: true, src: activePoster.src });
       }
   }
 
   const handleOpenPosterCropModal = () => {
-    const activePoster = posters.find(p => p.id === activePosterId);
     if (activePoster) {
-        setPosterCropModal({ isOpen: true, src: activePoster.src });
+        setPosterCropModal({ isOpen: true, src: activePoster.src, parentId: activePoster.id });
     }
   };
 
   const handleClosePosterCropModal = () => {
-      setPosterCropModal({ isOpen: false, src: null });
+      setPosterCropModal({ isOpen: false, src: null, parentId: null });
   };
 
   const handleApplyPosterCrop = (croppedImageSrc: string) => {
-      const newPoster: Poster = {
-          id: `poster-${Date.now()}`,
-          src: croppedImageSrc,
-          prompt: "Cropped image",
-      };
-      setPosters(prev => [newPoster, ...prev.slice(0, 1)]);
-      setActivePosterId(newPoster.id);
+      addPoster(createPoster(croppedImageSrc, "Cropped image", 'crop', posterCropModal.parentId));
       handleClosePosterCropModal();
   };
 
-  const activePoster = posters.find(p => p.id === activePosterId) || posters[0] || null;
-
   return (
     <ThemeProvider>
-      <div className="min-h-screen">
-        <Header />
-        <main className="pt-20 container mx-auto px-4 sm:px-6 lg:px-8 pb-8">
-            {error && (
-                <div className="bg-surface-light dark:bg-surface-dark border border-error-light dark:border-error-dark text-error-light dark:text-error-dark px-4 py-3 rounded-lg relative mb-4" role="alert">
-                    <strong className="font-bold">Error: </strong>
-                    <span className="block sm:inline">{error}</span>
-                    <button onClick={() => setError(null)} className="absolute top-0 bottom-0 right-0 px-4 py-3" aria-label="Close error">
-                        <XMarkIcon className="h-6 w-6 text-error-light dark:text-error-dark"/>
-                    </button>
-                </div>
-            )}
-            <div className="grid grid-cols-1 lg:grid-cols-5 gap-6 h-full items-start">
-                <div className="lg:col-span-1 col-span-1 space-y-6">
-                    <ProductUploader 
-                      products={products} 
-                      onFilesSelect={handleFileSelect}
-                      onProductRemove={handleProductRemove}
-                      aspectRatio={aspectRatio}
-                      onAspectRatioChange={setAspectRatio}
-                    />
-                    <ConceptInput 
-                      onGenerate={handleGenerate} 
-                      isLoading={isLoading.generating}
-                      disabled={products.every(p => !p.processed)}
-                    />
-                </div>
-                
-                <div className="lg:col-span-3 col-span-1 lg:sticky top-20 lg:h-[calc(100vh-7rem)]">
-                    <PosterDisplay
-                      activePoster={activePoster}
-                      onRefine={handleRefine}
-                      onPreview={handlePreview}
-                      isLoading={isLoading.generating && !activePoster}
-                      isModifying={isLoading.modifying}
-                      refinementVariations={refinementVariations}
-                      onConfirmRefinement={handleConfirmRefinement}
-                      onCancelRefinement={handleCancelRefinement}
-                      filters={pendingFilters}
-                    />
-                </div>
-
-                <div className="lg:col-span-1 col-span-1 space-y-6">
-                    <ImageEditor 
-                        filters={pendingFilters}
-                        onFilterChange={setPendingFilters}
-                        onReset={() => setPendingFilters(DEFAULT_FILTERS)}
-                        onApply={handleApplyFilters}
-                        disabled={!activePoster}
-                    />
-                    <PosterGallery 
-                      posters={posters.slice(0, 2)}
-                      activePosterId={activePoster?.id || null}
-                      onSelect={setActivePosterId}
-                    />
-                </div>
-            </div>
-        </main>
-        {previewModal.isOpen && previewModal.src && (
-            <ImagePreviewModal src={previewModal.src} onClose={() => setPreviewModal({isOpen: false, src: null})} />
-        )}
-        {posterCropModal.isOpen && posterCropModal.src && (
-            <CropTool 
-                src={posterCropModal.src}
-                onClose={handleClosePosterCropModal}
-                onCrop={handleApplyPosterCrop}
-            />
-        )}
-        {productToCrop && (
-            <CropTool
-                src={productToCrop.fileURL}
-                onClose={handleCancelProductCrop}
-                onCrop={handleApplyProductCrop}
-                aspectRatio={aspectRatiosMap[aspectRatio]}
-            />
-        )}
-      </div>
+      <ImageProviderSettings>
+        <div className="min-h-screen">
+          <Header
+            projects={projects}
+            currentProjectId={currentProjectId}
+            onSwitch={switchProject}
+            onNew={newProject}
+            onRename={renameProject}
+            onDelete={deleteProject}
+          />
+          <main className="pt-20 container mx-auto px-4 sm:px-6 lg:px-8 pb-8">
+              {error && (
+                  <div className="bg-surface-light dark:bg-surface-dark border border-error-light dark:border-error-dark text-error-light dark:text-error-dark px-4 py-3 rounded-lg relative mb-4" role="alert">
+                      <strong className="font-bold">Error: </strong>
+                      <span className="block sm:inline">{error}</span>
+                      <button onClick={() => setError(null)} className="absolute top-0 bottom-0 right-0 px-4 py-3" aria-label="Close error">
+                          <XMarkIcon className="h-6 w-6 text-error-light dark:text-error-dark"/>
+                      </button>
+                  </div>
+              )}
+              <div className="grid grid-cols-1 lg:grid-cols-5 gap-6 h-full items-start">
+                  <div className="lg:col-span-1 col-span-1 space-y-6">
+                      <ProductUploader 
+                        products={products} 
+                        onFilesSelect={handleFileSelect}
+                        onProductRemove={handleProductRemove}
+                        aspectRatio={aspectRatio}
+                        onAspectRatioChange={setAspectRatio}
+                        aspectCorrection={aspectCorrection}
+                        onAspectCorrectionChange={setAspectCorrection}
+                        backgroundRemoval={backgroundRemoval}
+                        onBackgroundRemovalChange={setBackgroundRemoval}
+                        onProductRetry={handleProductRetry}
+                        onProductEditMask={setMaskEditorProductId}
+                        onProductHintsChange={handleProductHintsChange}
+                      />
+                      <ConceptInput 
+                        concept={concept}
+                        onConceptChange={setConcept}
+                        posterText={posterText}
+                        onPosterTextChange={setPosterText}
+                        textAsOverlay={textAsOverlay}
+                        onTextAsOverlayChange={setTextAsOverlay}
+                        generateLayered={generateLayered}
+                        onGenerateLayeredChange={setGenerateLayered}
+                        onGenerate={handleGenerate} 
+                        onOpenBatch={() => setIsBatchOpen(true)}
+                        onCancel={handleCancelGenerate}
+                        templatePicker={templatePickerFor('concept')}
+                        assistant={conceptAssistant}
+                        isLoading={isLoading.generating}
+                        disabled={products.every(p => !p.processed)}
+                      />
+                      {generateError && <ErrorNotice error={generateError} onDismiss={() => setGenerateError(null)} />}
+                      <BrandKitPanel
+                        brandKits={brandKits}
+                        activeBrandKit={activeBrandKit}
+                        onSelect={setActiveBrandKitId}
+                        onCreate={createBrandKit}
+                        onChange={updateBrandKit}
+                        onDelete={removeBrandKit}
+                      />
+                  </div>
+                  
+                  <div className="lg:col-span-3 col-span-1 lg:sticky top-20 lg:h-[calc(100vh-7rem)]">
+                      <PosterDisplay
+                        activePoster={activePoster}
+                        onRefine={handleRefine}
+                        onPreview={handlePreview}
+                        isLoading={isLoading.generating && !activePoster}
+                        isModifying={isLoading.modifying}
+                        onCancelGenerate={handleCancelGenerate}
+                        onCancelModify={handleCancelModify}
+                        modifyError={modifyError}
+                        modifyProgress={modifyProgress}
+                        onDismissModifyError={() => setModifyError(null)}
+                        refinementVariations={refinementVariations}
+                        onConfirmRefinement={handleConfirmRefinement}
+                        onCancelRefinement={clearVariations}
+                        onRerollVariation={rerollVariation}
+                        templatePicker={templatePickerFor('refine')}
+                        filterPreviewSrc={filterPreviewSrc}
+                        onUpscale={handleUpscale}
+                        upscaleModelName={upscaleModel?.name ?? null}
+                        onLoadUpscaleModel={handleLoadUpscaleModel}
+                        onClearUpscaleModel={() => setUpscaleModel(null)}
+                        onExpand={handleExpand}
+                        onCrop={handleOpenPosterCropModal}
+                        onExport={() => setIsExportOpen(true)}
+                        selectedLayerId={selectedLayerId}
+                        onSelectLayer={setSelectedLayerId}
+                        onOverlayChange={handleOverlayChange}
+                        onLayerChange={handleLayerChange}
+                        onAddText={handleAddText}
+                      />
+                  </div>
+
+                  <div className="lg:col-span-1 col-span-1 space-y-6">
+                      {activePoster && (
+                        <TextOverlayPanel
+                          overlays={activeOverlays}
+                          selectedId={selectedLayerId}
+                          onSelect={setSelectedLayerId}
+                          onChange={handleOverlayChange}
+                          onDelete={handleDeleteOverlay}
+                          extraFonts={activeBrandKit?.fonts ?? []}
+                        />
+                      )}
+                      {activePoster && (
+                        <LayerPanel
+                          composition={activePoster.composition}
+                          products={products}
+                          selectedId={selectedLayerId}
+                          onSelect={setSelectedLayerId}
+                          onChange={handleCompositionChange}
+                          onConvert={handleConvertToLayers}
+                          onAddProduct={handleAddProductLayer}
+                          disabled={isLoading.modifying}
+                        />
+                      )}
+                      <ImageEditor 
+                          filters={pendingFilters}
+                          tintColors={tintColors}
+                          presets={filterPresets}
+                          presetThumbnails={presetThumbnails}
+                          onSavePreset={(name) => createPreset(name, pendingFilters)}
+                          onDeletePreset={removePreset}
+                          onImportPresets={importPresets}
+                          onFilterChange={setPendingFilters}
+                          onReset={() => setPendingFilters(DEFAULT_FILTERS)}
+                          onApply={handleApplyFilters}
+                          disabled={!filterSource}
+                      />
+                      <PosterGallery 
+                        posters={posters}
+                        activePosterId={activePosterId}
+                        onSelect={selectPoster}
+                        onUndo={undo}
+                        onRedo={redo}
+                        canUndo={canUndo}
+                        canRedo={canRedo}
+                      />
+                  </div>
+              </div>
+          </main>
+          {previewModal.isOpen && previewModal.src && (
+              <ImagePreviewModal src={previewModal.src} onClose={() => setPreviewModal({isOpen: false, src: null})} />
+          )}
+          {isBatchOpen && (
+              <BatchPanel
+                  products={products}
+                  campaigns={campaigns}
+                  jobs={jobs}
+                  concurrency={batchConcurrency}
+                  onConcurrencyChange={setBatchConcurrency}
+                  onQueue={queueCampaign}
+                  onRetry={retryJob}
+                  onRemoveCampaign={removeCampaign}
+                  onOpenResult={handleOpenBatchResult}
+                  onClose={() => setIsBatchOpen(false)}
+              />
+          )}
+          {isExportOpen && activePoster && (
+              <ExportDialog onExport={handleExport} onClose={() => setIsExportOpen(false)} />
+          )}
+          {isTemplateLibraryOpen && (
+              <TemplateLibrary
+                  templates={templates}
+                  onCreate={createTemplate}
+                  onChange={updateTemplate}
+                  onDelete={removeTemplate}
+                  onImport={importTemplates}
+                  systemPromptOverrides={systemPromptOverrides}
+                  onSystemPromptChange={setSystemPromptOverride}
+                  onClose={() => setIsTemplateLibraryOpen(false)}
+              />
+          )}
+          {posterCropModal.isOpen && posterCropModal.src && (
+              <CropTool 
+                  src={posterCropModal.src}
+                  onClose={handleClosePosterCropModal}
+                  onCrop={handleApplyPosterCrop}
+              />
+          )}
+          {maskEditorProduct && (
+              <MaskEditor
+                  product={maskEditorProduct}
+                  onSave={handleSaveProductMask}
+                  onClose={() => setMaskEditorProductId(null)}
+              />
+          )}
+          {productToCrop && (
+              <CropTool
+                  src={productToCrop.fileURL}
+                  onClose={handleCancelProductCrop}
+                  onCrop={handleApplyProductCrop}
+                  aspectRatio={aspectRatiosMap[aspectRatio]}
+              />
+          )}
+        </div>
+      </ImageProviderSettings>
     </ThemeProvider>
   );
 }
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import type { Adjustment, AdjustmentType } from '../types';
+import { ADJUSTMENT_LABELS, ADJUSTMENT_PARAMS, createAdjustment, parseCubeLut } from '../services/adjustments';
+import CurveEditor from './CurveEditor';
+import { ChevronUpIcon, ChevronDownIcon, EyeIcon, EyeSlashIcon, TrashIcon, UploadIcon } from './icons';
+
+interface AdjustmentStackProps {
+  adjustments: Adjustment[];
+  onChange: (adjustments: Adjustment[]) => void;
+}
+
+const addableTypes = (Object.keys(ADJUSTMENT_LABELS) as AdjustmentType[]).filter((t): t is Exclude<AdjustmentType, 'lut'> => t !== 'lut');
+
+const iconButtonClass = "p-1 rounded-md hover:bg-border-light dark:hover:bg-border-dark transition-colors disabled:opacity-30";
+
+// An ordered list of adjustments, applied top to bottom. Each one can be hidden, reordered or removed.
+const AdjustmentStack: React.FC<AdjustmentStackProps> = ({ adjustments, onChange }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [lutError, setLutError] = useState<string | null>(null);
+
+  const update = (updated: Adjustment) => onChange(adjustments.map(a => a.id === updated.id ? updated : a));
+
+  const add = (adjustment: Adjustment) => {
+    onChange([...adjustments, adjustment]);
+    setExpandedId(adjustment.id);
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...adjustments];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const handleLutImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file: File | undefined = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      add(parseCubeLut(await file.text(), file.name.replace(/\.cube$/i, '')));
+      setLutError(null);
+    } catch (err: any) {
+      setLutError(err.message);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium">Adjustment stack</label>
+        <div className="flex items-center space-x-1">
+          <select
+            value=""
+            onChange={(e) => e.target.value && add(createAdjustment(e.target.value as Exclude<AdjustmentType, 'lut'>))}
+            aria-label="Add adjustment"
+            className="bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-md px-2 py-1 text-xs focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none"
+          >
+            <option value="">Add…</option>
+            {addableTypes.map(type => <option key={type} value={type}>{ADJUSTMENT_LABELS[type]}</option>)}
+          </select>
+          <label className={`${iconButtonClass} cursor-pointer`} title="Import a .cube LUT">
+            <UploadIcon className="w-4 h-4" />
+            <input type="file" accept=".cube" className="hidden" onChange={handleLutImport} />
+          </label>
+        </div>
+      </div>
+      {lutError && <p className="text-xs text-error-light dark:text-error-dark">{lutError}</p>}
+      {adjustments.length === 0 && (
+        <p className="text-xs text-subtext-light dark:text-subtext-dark">No adjustments yet. They stay editable after applying.</p>
+      )}
+      <ul className="space-y-1">
+        {adjustments.map((adjustment, index) => {
+          const isExpanded = expandedId === adjustment.id;
+          return (
+            <li key={adjustment.id} className="rounded-lg border border-border-light dark:border-border-dark">
+              <div className="flex items-center px-2 py-1">
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : adjustment.id)}
+                  className={`flex-grow text-left text-sm truncate ${adjustment.enabled ? '' : 'text-subtext-light dark:text-subtext-dark line-through'}`}
+                >
+                  {adjustment.type === 'lut' ? `LUT: ${adjustment.name}` : ADJUSTMENT_LABELS[adjustment.type]}
+                </button>
+                <button onClick={() => update({ ...adjustment, enabled: !adjustment.enabled })} className={iconButtonClass} title={adjustment.enabled ? 'Hide' : 'Show'}>
+                  {adjustment.enabled ? <EyeIcon className="w-4 h-4" /> : <EyeSlashIcon className="w-4 h-4" />}
+                </button>
+                <button onClick={() => move(index, -1)} disabled={index === 0} className={iconButtonClass} title="Move up">
+                  <ChevronUpIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => move(index, 1)} disabled={index === adjustments.length - 1} className={iconButtonClass} title="Move down">
+                  <ChevronDownIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => onChange(adjustments.filter(a => a.id !== adjustment.id))} className={iconButtonClass} title="Remove">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+              {isExpanded && (
+                <div className="px-2 pb-2 space-y-2">
+                  {adjustment.type === 'curves' ? (
+                    <CurveEditor adjustment={adjustment} onChange={update} />
+                  ) : (
+                    (ADJUSTMENT_PARAMS[adjustment.type] || []).map(param => {
+                      const value = (adjustment as unknown as Record<string, number>)[param.key];
+                      return (
+                        <label key={param.key} className="block">
+                          <div className="flex justify-between text-xs mb-0.5">
+                            <span>{param.label}</span>
+                            <span className="text-subtext-light dark:text-subtext-dark">{value}</span>
+                          </div>
+                          <input
+                            type="range"
+                            min={param.min}
+                            max={param.max}
+                            step={param.step ?? 1}
+                            value={value}
+                            onChange={(e) => update({ ...adjustment, [param.key]: Number(e.target.value) } as Adjustment)}
+                            className="w-full h-2 bg-border-light dark:bg-border-dark rounded-lg appearance-none cursor-pointer accent-primary-light dark:accent-primary-dark"
+                          />
+                        </label>
+                      );
+                    })
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default AdjustmentStack;
@@ -0,0 +1,213 @@
+import React, { useState, useEffect } from 'react';
+import type { AspectRatio, BatchJob, Campaign, Product } from '../types';
+import type { CampaignRequest } from '../hooks/useBatchQueue';
+import { aspectRatios } from '../constants';
+import { XMarkIcon, TrashIcon, ExclamationTriangleIcon } from './icons';
+import { describeSpecCheck } from '../services/aspectRatioService';
+import Spinner from './Spinner';
+import ErrorNotice from './ErrorNotice';
+
+interface BatchPanelProps {
+  products: Product[];
+  campaigns: Campaign[];
+  jobs: BatchJob[];
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onQueue: (request: CampaignRequest) => void;
+  onRetry: (jobId: string) => void;
+  onRemoveCampaign: (campaignId: string) => void;
+  onOpenResult: (job: BatchJob) => void;
+  onClose: () => void;
+}
+
+const concurrencyOptions = [1, 2, 3, 4];
+
+const inputClass = "w-full p-2 bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-lg text-sm focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none transition";
+
+const chipClass = (selected: boolean) =>
+  `px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${selected ? 'bg-rose-candy dark:bg-primary-dark text-on-primary-light dark:text-on-primary-dark' : 'bg-bkg-light dark:bg-bkg-dark hover:bg-border-light dark:hover:bg-border-dark'}`;
+
+const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+// Ticks once a second while a job runs, so its elapsed time stays current.
+const Elapsed: React.FC<{ since: number }> = ({ since }) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+  return <>{Math.max(0, Math.round((now - since) / 1000))}s</>;
+};
+
+const JobCard: React.FC<{ job: BatchJob; onRetry: () => void; onOpen: () => void }> = ({ job, onRetry, onOpen }) => {
+  const specWarning = job.specCheck ? describeSpecCheck(job.specCheck) : null;
+  return (
+    <div className="rounded-lg border border-border-light dark:border-border-dark overflow-hidden bg-bkg-light dark:bg-bkg-dark">
+      <div className="aspect-square flex items-center justify-center relative">
+        {job.status === 'done' && job.result && (
+          <button onClick={onOpen} className="w-full h-full" title="Open in editor">
+            <img src={job.result} alt={job.concept} className="w-full h-full object-contain" />
+          </button>
+        )}
+        {specWarning && (
+          <span className="absolute top-1 left-1 bg-black/60 text-warning-dark p-1 rounded-full" title={specWarning}>
+            <ExclamationTriangleIcon className="w-4 h-4" />
+          </span>
+        )}
+        {job.status === 'running' && (
+          <div className="flex flex-col items-center text-xs text-subtext-light dark:text-subtext-dark">
+            <Spinner size="md" />
+            <span className="mt-2">Generating… {job.startedAt && <Elapsed since={job.startedAt} />}</span>
+          </div>
+        )}
+        {job.status === 'queued' && (
+          <span className="text-xs text-subtext-light dark:text-subtext-dark">Queued</span>
+        )}
+        {job.status === 'failed' && job.error && (
+          <div className="p-2">
+            <ErrorNotice error={job.error} onRetry={onRetry} compact />
+          </div>
+        )}
+      </div>
+      <div className="p-2 text-xs">
+        <p className="font-semibold truncate" title={job.concept}>{job.concept}</p>
+        <p className="text-subtext-light dark:text-subtext-dark">
+          {job.aspectRatio} · {job.productIds.length} product{job.productIds.length === 1 ? '' : 's'}
+          {job.attempts > 1 && ` · attempt ${job.attempts}`}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({
+  products, campaigns, jobs, concurrency, onConcurrencyChange, onQueue, onRetry, onRemoveCampaign, onOpenResult, onClose,
+}) => {
+  const processedProducts = products.filter(p => p.processed);
+  const [name, setName] = useState('');
+  const [conceptsText, setConceptsText] = useState('');
+  const [posterText, setPosterText] = useState('');
+  const [selectedRatios, setSelectedRatios] = useState<AspectRatio[]>(['9:16', '1:1', '16:9']);
+  const [selectedProductIds, setSelectedProductIds] = useState<string[]>(processedProducts.map(p => p.id));
+  const [perProduct, setPerProduct] = useState(false);
+
+  const concepts = conceptsText.split('\n').map(c => c.trim()).filter(Boolean);
+  const productSubsets = perProduct ? selectedProductIds.map(id => [id]) : (selectedProductIds.length > 0 ? [selectedProductIds] : []);
+  const jobCount = concepts.length * selectedRatios.length * productSubsets.length;
+
+  const handleQueue = () => {
+    if (jobCount === 0) return;
+    onQueue({
+      name: name.trim() || `Campaign ${campaigns.length + 1}`,
+      concepts,
+      aspectRatios: selectedRatios,
+      productSubsets,
+      posterText,
+    });
+    setName('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4">
+      <div className="relative bg-surface-light dark:bg-surface-dark rounded-2xl shadow-lg w-full h-full flex flex-col md:flex-row overflow-hidden">
+        <div className="w-full md:w-80 flex-shrink-0 p-6 space-y-4 overflow-y-auto border-b md:border-b-0 md:border-r border-border-light dark:border-border-dark">
+          <h3 className="text-xl font-bold">Batch Generate</h3>
+
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Campaign name" className={inputClass} />
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Concepts <span className="text-xs text-subtext-light dark:text-subtext-dark">(one per line)</span></label>
+            <textarea value={conceptsText} onChange={(e) => setConceptsText(e.target.value)} rows={5} className={inputClass} placeholder={"Summer beach party\nMinimal studio shot"} />
+          </div>
+
+          <input value={posterText} onChange={(e) => setPosterText(e.target.value)} placeholder="Text to add (optional)" className={inputClass} />
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Aspect Ratios</label>
+            <div className="flex flex-wrap gap-2">
+              {aspectRatios.map(ratio => (
+                <button key={ratio} onClick={() => setSelectedRatios(prev => toggle(prev, ratio))} className={chipClass(selectedRatios.includes(ratio))}>{ratio}</button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Products</label>
+            {processedProducts.length === 0 ? (
+              <p className="text-xs text-subtext-light dark:text-subtext-dark">Upload and process products first.</p>
+            ) : (
+              <div className="grid grid-cols-4 gap-2">
+                {processedProducts.map(product => (
+                  <button
+                    key={product.id}
+                    onClick={() => setSelectedProductIds(prev => toggle(prev, product.id))}
+                    className={`aspect-square rounded-lg overflow-hidden border-2 transition-colors ${selectedProductIds.includes(product.id) ? 'border-primary-light dark:border-primary-dark' : 'border-transparent opacity-50'}`}
+                  >
+                    <img src={product.processed!} alt="Product" className="w-full h-full object-contain" />
+                  </button>
+                ))}
+              </div>
+            )}
+            <label className="flex items-center space-x-2 text-sm mt-2 cursor-pointer">
+              <input type="checkbox" checked={perProduct} onChange={(e) => setPerProduct(e.target.checked)} className="accent-primary-light dark:accent-primary-dark" />
+              <span>One poster per product</span>
+            </label>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Parallel jobs</label>
+            <div className="flex gap-2">
+              {concurrencyOptions.map(n => (
+                <button key={n} onClick={() => onConcurrencyChange(n)} className={`flex-1 ${chipClass(concurrency === n)}`}>{n}</button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={handleQueue}
+            disabled={jobCount === 0}
+            className="w-full bg-rose-candy dark:bg-primary-dark text-on-primary-light dark:text-on-primary-dark font-bold py-3 px-4 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90 transition-opacity"
+          >
+            Queue {jobCount} poster{jobCount === 1 ? '' : 's'}
+          </button>
+        </div>
+
+        <div className="flex-grow p-6 overflow-y-auto space-y-8">
+          {campaigns.length === 0 && (
+            <p className="text-sm text-subtext-light dark:text-subtext-dark text-center py-16">Queued campaigns will appear here.</p>
+          )}
+          {campaigns.map(campaign => {
+            const campaignJobs = jobs.filter(j => j.campaignId === campaign.id);
+            const finished = campaignJobs.filter(j => j.status === 'done' || j.status === 'failed').length;
+            return (
+              <section key={campaign.id}>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="font-bold">{campaign.name}</h4>
+                  <div className="flex items-center space-x-3">
+                    <span className="text-xs text-subtext-light dark:text-subtext-dark">{finished} / {campaignJobs.length} finished</span>
+                    <button onClick={() => onRemoveCampaign(campaign.id)} title="Remove campaign" className="p-1 rounded-md hover:bg-border-light dark:hover:bg-border-dark transition-colors">
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <div className="h-1.5 w-full bg-border-light dark:bg-border-dark rounded-full overflow-hidden mb-4">
+                  <div className="h-full bg-rose-candy dark:bg-primary-dark transition-all" style={{ width: `${campaignJobs.length ? (finished / campaignJobs.length) * 100 : 0}%` }} />
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+                  {campaignJobs.map(job => (
+                    <JobCard key={job.id} job={job} onRetry={() => onRetry(job.id)} onOpen={() => onOpenResult(job)} />
+                  ))}
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      </div>
+      <button onClick={onClose} className="absolute top-2 right-2 p-2 rounded-full bg-black/50 hover:bg-black/70 transition-colors" aria-label="Close">
+        <XMarkIcon className="w-6 h-6 text-white" />
+      </button>
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import type { BrandKit } from '../types';
+import { createLogo } from '../services/brandKitStore';
+import { PlusIcon, TrashIcon, XMarkIcon, ChevronDownIcon } from './icons';
+
+interface BrandKitPanelProps {
+  brandKits: BrandKit[];
+  activeBrandKit: BrandKit | null;
+  onSelect: (id: string | null) => void;
+  onCreate: () => void;
+  onChange: (kit: BrandKit) => void;
+  onDelete: (id: string) => void;
+}
+
+const inputClass = "w-full p-2 bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-lg text-sm focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none transition";
+
+const iconButtonClass = "p-1.5 rounded-md hover:bg-border-light dark:hover:bg-border-dark transition-colors";
+
+const BrandKitPanel: React.FC<BrandKitPanelProps> = ({ brandKits, activeBrandKit, onSelect, onCreate, onChange, onDelete }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [newColor, setNewColor] = useState('#EC4899');
+
+  const update = (changes: Partial<BrandKit>) => {
+    if (activeBrandKit) onChange({ ...activeBrandKit, ...changes });
+  };
+
+  const handleAddColor = () => {
+    if (!activeBrandKit) return;
+    update({ colors: [...activeBrandKit.colors, { name: `Color ${activeBrandKit.colors.length + 1}`, color: newColor }] });
+  };
+
+  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!activeBrandKit || !e.target.files) return;
+    const logos = Array.from(e.target.files).map(createLogo);
+    update({ logos: [...activeBrandKit.logos, ...logos] });
+    e.target.value = '';
+  };
+
+  const handleDelete = () => {
+    if (activeBrandKit && window.confirm(`Delete the brand kit "${activeBrandKit.name}"?`)) {
+      onDelete(activeBrandKit.id);
+    }
+  };
+
+  return (
+    <div className="bg-surface-light dark:bg-surface-dark p-6 rounded-2xl shadow-sm border border-border-light dark:border-border-dark">
+      <button onClick={() => setIsExpanded(e => !e)} className="w-full flex justify-between items-center">
+        <h2 className="text-lg font-bold">Brand Kit</h2>
+        <span className="flex items-center space-x-2 text-sm text-subtext-light dark:text-subtext-dark">
+          <span>{activeBrandKit ? activeBrandKit.name : 'None'}</span>
+          <ChevronDownIcon className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="space-y-4 mt-4">
+          <div className="flex items-center space-x-1">
+            <select
+              value={activeBrandKit?.id || ''}
+              onChange={(e) => onSelect(e.target.value || null)}
+              aria-label="Active brand kit"
+              className={inputClass}
+            >
+              <option value="">No brand kit</option>
+              {brandKits.map(kit => (
+                <option key={kit.id} value={kit.id}>{kit.name}</option>
+              ))}
+            </select>
+            <button onClick={onCreate} title="New brand kit" className={iconButtonClass}>
+              <PlusIcon className="w-4 h-4" />
+            </button>
+            <button onClick={handleDelete} disabled={!activeBrandKit} title="Delete brand kit" className={`${iconButtonClass} disabled:opacity-40`}>
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+
+          {activeBrandKit && (
+            <>
+              <input value={activeBrandKit.name} onChange={(e) => update({ name: e.target.value })} placeholder="Brand name" className={inputClass} />
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Palette</label>
+                <div className="space-y-2">
+                  {activeBrandKit.colors.map((color, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <input
+                        type="color"
+                        value={color.color}
+                        onChange={(e) => update({ colors: activeBrandKit.colors.map((c, i) => i === index ? { ...c, color: e.target.value } : c) })}
+                        className="w-8 h-8 rounded cursor-pointer bg-transparent"
+                      />
+                      <input
+                        value={color.name}
+                        onChange={(e) => update({ colors: activeBrandKit.colors.map((c, i) => i === index ? { ...c, name: e.target.value } : c) })}
+                        className={inputClass}
+                      />
+                      <button onClick={() => update({ colors: activeBrandKit.colors.filter((_, i) => i !== index) })} title="Remove color" className={iconButtonClass}>
+                        <XMarkIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <div className="flex items-center space-x-2">
+                    <input type="color" value={newColor} onChange={(e) => setNewColor(e.target.value)} className="w-8 h-8 rounded cursor-pointer bg-transparent" />
+                    <button onClick={handleAddColor} className="text-sm font-semibold text-primary-light dark:text-primary-dark hover:underline">Add color</button>
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Logos</label>
+                <div className="flex flex-wrap gap-2">
+                  {activeBrandKit.logos.map(logo => (
+                    <div key={logo.id} className="group relative w-14 h-14 rounded-lg border border-border-light dark:border-border-dark overflow-hidden">
+                      <img src={logo.src} alt={logo.name} className="w-full h-full object-contain" />
+                      <button
+                        onClick={() => update({ logos: activeBrandKit.logos.filter(l => l.id !== logo.id) })}
+                        className="absolute top-0.5 right-0.5 bg-black/50 text-white p-0.5 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                        aria-label="Remove logo"
+                      >
+                        <XMarkIcon className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                  <label htmlFor="brand-logo-upload" className="cursor-pointer w-14 h-14 border-2 border-dashed border-border-light dark:border-border-dark rounded-lg flex items-center justify-center hover:bg-bkg-light dark:hover:bg-bkg-dark transition-colors" title="Add logo">
+                    <PlusIcon className="w-5 h-5 text-subtext-light dark:text-subtext-dark" />
+                  </label>
+                  <input id="brand-logo-upload" type="file" accept="image/*" multiple className="hidden" onChange={handleLogoUpload} />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">Typography</label>
+                <input
+                  value={activeBrandKit.fonts.join(', ')}
+                  onChange={(e) => update({ fonts: e.target.value.split(',').map(f => f.trimStart()) })}
+                  onBlur={() => update({ fonts: activeBrandKit.fonts.map(f => f.trim()).filter(Boolean) })}
+                  placeholder="e.g., Montserrat, Playfair Display"
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">Tone of voice</label>
+                <textarea
+                  value={activeBrandKit.tone}
+                  onChange={(e) => update({ tone: e.target.value })}
+                  placeholder="e.g., Playful, bold and optimistic. Never corporate."
+                  rows={3}
+                  className={inputClass}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrandKitPanel;
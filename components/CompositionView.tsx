@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Composition, Layer } from '../types';
+import { drawComposition } from '../services/composition';
+import { createCanvas } from '../services/canvasUtils';
+import { measureTextOverlay } from '../services/textOverlay';
+
+interface CompositionViewProps {
+  composition: Composition;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (layer: Layer) => void;
+  disabled: boolean;
+}
+
+// Live preview of a layered poster. The layers are drawn with the same canvas code
+// as the export, and transparent handles on top let products and text be moved.
+const CompositionView: React.FC<CompositionViewProps> = ({ composition, selectedId, onSelect, onChange, disabled }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setSize({ width: container.offsetWidth, height: container.offsetHeight }));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0) return;
+    let cancelled = false;
+    const ratio = window.devicePixelRatio || 1;
+    // Draw into a buffer first, so slow image decoding never shows a half-drawn frame.
+    const buffer = createCanvas(size.width * ratio, size.height * ratio);
+    drawComposition(buffer.ctx, composition, buffer.canvas.width, buffer.canvas.height).then(() => {
+      if (cancelled) return;
+      canvas.width = buffer.canvas.width;
+      canvas.height = buffer.canvas.height;
+      canvas.getContext('2d')?.drawImage(buffer.canvas, 0, 0);
+    }).catch(err => console.error('Failed to draw composition:', err));
+    return () => { cancelled = true; };
+  }, [composition, size]);
+
+  const startInteraction = (e: React.MouseEvent, onMove: (dx: number, dy: number) => void) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (disabled) return;
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const moveHandler = (moveEvent: MouseEvent) => onMove(moveEvent.clientX - startX, moveEvent.clientY - startY);
+    const upHandler = () => {
+      document.removeEventListener('mousemove', moveHandler);
+      document.removeEventListener('mouseup', upHandler);
+    };
+    document.addEventListener('mousemove', moveHandler);
+    document.addEventListener('mouseup', upHandler);
+  };
+
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+  const handleDragStart = (e: React.MouseEvent, layer: Layer) => {
+    onSelect(layer.id);
+    startInteraction(e, (dx, dy) => {
+      if (layer.type === 'image') {
+        onChange({ ...layer, x: clamp(layer.x + dx / size.width), y: clamp(layer.y + dy / size.height) });
+      } else {
+        const { overlay } = layer;
+        onChange({ ...layer, overlay: { ...overlay, x: clamp(overlay.x + dx / size.width), y: clamp(overlay.y + dy / size.height) } });
+      }
+    });
+  };
+
+  // Resizing keeps the layer centered, so the corner moves twice as fast as its half-width.
+  const handleResizeStart = (e: React.MouseEvent, layer: Layer) => {
+    if (layer.type !== 'image') return;
+    startInteraction(e, (dx) => {
+      onChange({ ...layer, width: Math.min(2, Math.max(0.02, layer.width + (2 * dx) / size.width)) });
+    });
+  };
+
+  const handleBox = (layer: Layer) => {
+    if (layer.type === 'image') {
+      return { x: layer.x, y: layer.y, width: layer.width * size.width, height: layer.width * size.width * layer.aspect, rotation: 0 };
+    }
+    const { width, height } = measureTextOverlay(layer.overlay, size.width);
+    return { x: layer.overlay.x, y: layer.overlay.y, width, height, rotation: layer.overlay.rotation };
+  };
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 overflow-hidden rounded-lg" onMouseDown={() => onSelect(null)}>
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      {composition.layers.map(layer => {
+        if (!layer.visible || (layer.type === 'image' && layer.role === 'background')) return null;
+        const box = handleBox(layer);
+        const isSelected = layer.id === selectedId && !disabled;
+        return (
+          <div
+            key={layer.id}
+            onMouseDown={(e) => handleDragStart(e, layer)}
+            className={`absolute ${disabled ? '' : 'cursor-move'} ${isSelected ? 'outline-dashed outline-2 outline-white/80' : ''}`}
+            style={{
+              left: `${box.x * 100}%`,
+              top: `${box.y * 100}%`,
+              width: box.width,
+              height: box.height,
+              transform: `translate(-50%, -50%) rotate(${box.rotation}deg)`,
+            }}
+          >
+            {isSelected && layer.type === 'image' && (
+              <span
+                onMouseDown={(e) => handleResizeStart(e, layer)}
+                className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-white rounded-sm border-2 border-primary-dark cursor-nwse-resize"
+                title="Resize"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CompositionView;
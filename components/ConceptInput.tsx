@@ -1,33 +1,86 @@
 import React, { useState } from 'react';
-import { UploadIcon } from './icons';
+import type { CreativeBrief, ReferenceImage, ReferenceRole } from '../types';
+import { UploadIcon, WandIcon, XMarkIcon } from './icons';
+import TemplatePicker from './TemplatePicker';
+import type { TemplatePickerOptions } from './TemplatePicker';
+import ErrorNotice from './ErrorNotice';
+import Spinner from './Spinner';
+import type { ConceptAssistant } from '../hooks/useConceptAssistant';
 
 interface ConceptInputProps {
-  onGenerate: (concept: string, referenceImageFile: File | null, posterText: string) => void;
+  concept: string;
+  onConceptChange: (concept: string) => void;
+  posterText: string;
+  onPosterTextChange: (posterText: string) => void;
+  textAsOverlay: boolean;
+  onTextAsOverlayChange: (textAsOverlay: boolean) => void;
+  generateLayered: boolean;
+  onGenerateLayeredChange: (generateLayered: boolean) => void;
+  onGenerate: (concept: string, references: ReferenceImage[], posterText: string) => void;
+  onOpenBatch: () => void;
+  onCancel: () => void;
+  templatePicker: TemplatePickerOptions;
+  assistant: ConceptAssistant;
   isLoading: boolean;
   disabled: boolean;
 }
 
-const ConceptInput: React.FC<ConceptInputProps> = ({ onGenerate, isLoading, disabled }) => {
-  const [concept, setConcept] = useState('');
-  const [posterText, setPosterText] = useState('');
-  const [referenceImage, setReferenceImage] = useState<File | null>(null);
-  const [preview, setPreview] = useState<string | null>(null);
+const MAX_REFERENCES = 4;
+
+const referenceRoleLabels: Record<ReferenceRole, string> = {
+  style: 'Style',
+  composition: 'Composition',
+  color: 'Color palette',
+  lighting: 'Lighting',
+  typography: 'Typography',
+};
+
+const assistantButtonClass = "text-sm font-semibold px-3 py-1.5 rounded-md border border-border-light dark:border-border-dark hover:bg-border-light dark:hover:bg-border-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const ConceptInput: React.FC<ConceptInputProps> = ({ concept, onConceptChange, posterText, onPosterTextChange, textAsOverlay, onTextAsOverlayChange, generateLayered, onGenerateLayeredChange, onGenerate, onOpenBatch, onCancel, templatePicker, assistant, isLoading, disabled }) => {
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
 
   const handleReferenceImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setReferenceImage(file);
-      setPreview(URL.createObjectURL(file));
-      e.target.value = ''; // Allow re-uploading the same file
-    }
+    const files = Array.from<File>(e.target.files || []).slice(0, MAX_REFERENCES - references.length);
+    e.target.value = ''; // Allow re-uploading the same file
+    // Each new reference starts with the first role not yet taken.
+    const taken = new Set(references.map(r => r.role));
+    const added = files.map((file): ReferenceImage => {
+      const role = (Object.keys(referenceRoleLabels) as ReferenceRole[]).find(r => !taken.has(r)) || 'style';
+      taken.add(role);
+      return { id: `reference-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, file, preview: URL.createObjectURL(file), role, strength: 70 };
+    });
+    setReferences(prev => [...prev, ...added]);
+  };
+
+  const updateReference = (id: string, changes: Partial<ReferenceImage>) => {
+    setReferences(prev => prev.map(r => r.id === id ? { ...r, ...changes } : r));
+  };
+
+  const removeReference = (reference: ReferenceImage) => {
+    URL.revokeObjectURL(reference.preview);
+    setReferences(prev => prev.filter(r => r.id !== reference.id));
   };
 
   const handleGenerateClick = () => {
     if (concept.trim() && !isLoading && !disabled) {
-      onGenerate(concept, referenceImage, posterText);
+      onGenerate(concept, references, posterText);
     }
   };
 
+  const handleEnhance = async () => {
+    const enhanced = await assistant.enhance(concept);
+    if (enhanced) onConceptChange(enhanced);
+  };
+
+  const handleUseBrief = (brief: CreativeBrief) => {
+    const palette = brief.palette.length > 0 ? ` Color palette: ${brief.palette.join(', ')}.` : '';
+    onConceptChange(`${brief.scene.replace(/\.$/, '')}. Mood: ${brief.mood}.${palette}`);
+    onPosterTextChange(brief.headline);
+  };
+
+  const assistantBusy = assistant.status !== 'idle';
+
   return (
     <div className="bg-surface-light dark:bg-surface-dark p-6 rounded-2xl shadow-sm border border-border-light dark:border-border-dark">
       <h2 className="text-lg font-bold mb-4 flex items-center">
@@ -36,42 +89,170 @@ const ConceptInput: React.FC<ConceptInputProps> = ({ onGenerate, isLoading, disa
       </h2>
       
       <div className="space-y-4">
+        <TemplatePicker {...templatePicker} currentText={concept} onApply={onConceptChange} />
         <textarea
           value={concept}
-          onChange={(e) => setConcept(e.target.value)}
+          onChange={(e) => onConceptChange(e.target.value)}
           placeholder="e.g., A vibrant, futuristic ad for a new sneaker, set in Tokyo at night..."
           className="w-full h-24 p-3 bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-lg focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none transition"
           rows={3}
         />
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={assistant.suggest}
+            disabled={disabled || assistantBusy}
+            title={disabled ? 'Add a product first' : 'Suggest concepts from your products'}
+            className={assistantButtonClass}
+          >
+            Suggest concepts
+          </button>
+          <button
+            onClick={handleEnhance}
+            disabled={!concept.trim() || assistantBusy}
+            title="Rewrite the concept in more detail"
+            className={`${assistantButtonClass} inline-flex items-center space-x-1`}
+          >
+            <WandIcon className="w-4 h-4" />
+            <span>Enhance</span>
+          </button>
+          {assistantBusy && (
+            <>
+              <Spinner size="sm" />
+              <span className="text-xs text-subtext-light dark:text-subtext-dark">{assistant.status === 'suggesting' ? 'Thinking of ideas...' : 'Enhancing...'}</span>
+              <button onClick={assistant.cancel} className="text-xs font-semibold hover:underline">Cancel</button>
+            </>
+          )}
+        </div>
+        {assistant.error && <ErrorNotice error={assistant.error} onDismiss={assistant.dismissError} compact />}
+        {assistant.briefs.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-semibold">Suggested concepts</span>
+              <button onClick={assistant.clearBriefs} className="p-1 rounded-full hover:bg-border-light dark:hover:bg-border-dark transition-colors" aria-label="Dismiss suggestions">
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </div>
+            {assistant.briefs.map((brief, index) => (
+              <div key={index} className="p-3 rounded-lg border border-border-light dark:border-border-dark space-y-1">
+                {brief.headline && <p className="font-bold text-sm">“{brief.headline}”</p>}
+                <p className="text-sm">{brief.scene}</p>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    {brief.mood && <span className="text-xs text-subtext-light dark:text-subtext-dark">{brief.mood}</span>}
+                    <div className="flex">
+                      {brief.palette.map(color => (
+                        <span key={color} title={color} className="w-4 h-4 rounded-full border border-border-light dark:border-border-dark -ml-1 first:ml-0" style={{ backgroundColor: color }} />
+                      ))}
+                    </div>
+                  </div>
+                  <button onClick={() => handleUseBrief(brief)} className="text-xs font-semibold px-2 py-1 rounded-md bg-rose-candy dark:bg-primary-dark text-on-primary-light dark:text-on-primary-dark hover:opacity-90 transition-opacity">
+                    Use
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
         
         <input
           type="text"
           value={posterText}
-          onChange={(e) => setPosterText(e.target.value)}
+          onChange={(e) => onPosterTextChange(e.target.value)}
           placeholder="Text to add (optional)"
           className="w-full p-3 bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-lg focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none transition"
         />
+        <label className="flex items-center space-x-2 text-sm text-subtext-light dark:text-subtext-dark cursor-pointer">
+          <input
+            type="checkbox"
+            checked={textAsOverlay}
+            onChange={(e) => onTextAsOverlayChange(e.target.checked)}
+            className="accent-primary-light dark:accent-primary-dark"
+          />
+          <span>Generate without text and add it as an editable overlay</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-subtext-light dark:text-subtext-dark cursor-pointer">
+          <input
+            type="checkbox"
+            checked={generateLayered}
+            onChange={(e) => onGenerateLayeredChange(e.target.checked)}
+            className="accent-primary-light dark:accent-primary-dark"
+          />
+          <span>Generate a background and keep products as movable layers</span>
+        </label>
 
-        <div className="flex items-center space-x-4">
-          <label htmlFor="ref-upload" className="cursor-pointer w-24 h-24 border-2 border-dashed border-border-light dark:border-border-dark rounded-lg flex flex-col items-center justify-center text-center hover:bg-bkg-light dark:hover:bg-bkg-dark transition-colors">
-            {preview ? (
-              <img src={preview} alt="Reference preview" className="w-full h-full object-cover rounded-md" />
-            ) : (
-              <>
-                <UploadIcon className="w-6 h-6 text-subtext-light dark:text-subtext-dark" />
-                <span className="text-xs mt-1 text-subtext-light dark:text-subtext-dark">Add Style Ref (Optional)</span>
-              </>
-            )}
-          </label>
-          <input id="ref-upload" type="file" accept="image/*" className="hidden" onChange={handleReferenceImageChange} />
+        <div className="space-y-2">
+          {references.map((reference, index) => (
+            <div key={reference.id} className="flex items-center space-x-3 p-2 rounded-lg border border-border-light dark:border-border-dark">
+              <div className="relative w-16 h-16 flex-shrink-0">
+                <img src={reference.preview} alt={`Reference ${index + 1}`} className="w-full h-full object-cover rounded-md" />
+                <button
+                  onClick={() => removeReference(reference)}
+                  className="absolute -top-2 -right-2 bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark rounded-full p-0.5 hover:bg-border-light dark:hover:bg-border-dark transition-colors"
+                  aria-label={`Remove reference ${index + 1}`}
+                >
+                  <XMarkIcon className="w-3 h-3" />
+                </button>
+              </div>
+              <div className="flex-grow min-w-0 space-y-1">
+                <select
+                  value={reference.role}
+                  onChange={(e) => updateReference(reference.id, { role: e.target.value as ReferenceRole })}
+                  aria-label={`Reference ${index + 1} role`}
+                  className="w-full bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none"
+                >
+                  {(Object.keys(referenceRoleLabels) as ReferenceRole[]).map(role => (
+                    <option key={role} value={role}>{referenceRoleLabels[role]}</option>
+                  ))}
+                </select>
+                <label className="flex items-center space-x-2 text-xs text-subtext-light dark:text-subtext-dark">
+                  <span>Influence</span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={reference.strength}
+                    onChange={(e) => updateReference(reference.id, { strength: Number(e.target.value) })}
+                    className="flex-grow accent-primary-light dark:accent-primary-dark"
+                  />
+                  <span className="w-8 text-right">{reference.strength}%</span>
+                </label>
+              </div>
+            </div>
+          ))}
+          {references.length < MAX_REFERENCES && (
+            <label htmlFor="ref-upload" className="cursor-pointer w-full py-3 border-2 border-dashed border-border-light dark:border-border-dark rounded-lg flex items-center justify-center space-x-2 hover:bg-bkg-light dark:hover:bg-bkg-dark transition-colors">
+              <UploadIcon className="w-5 h-5 text-subtext-light dark:text-subtext-dark" />
+              <span className="text-xs text-subtext-light dark:text-subtext-dark">
+                Add Reference Image (Optional, {references.length}/{MAX_REFERENCES})
+              </span>
+            </label>
+          )}
+          <input id="ref-upload" type="file" accept="image/*" multiple className="hidden" onChange={handleReferenceImageChange} />
         </div>
 
+        <div className="flex space-x-2">
+          <button
+            onClick={handleGenerateClick}
+            disabled={!concept.trim() || isLoading || disabled}
+            className="flex-grow bg-rose-candy dark:bg-primary-dark text-on-primary-light dark:text-on-primary-dark font-bold py-3 px-4 rounded-lg flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90 transition-opacity"
+          >
+            {isLoading ? 'Generating...' : 'Generate Poster'}
+          </button>
+          {isLoading && (
+            <button
+              onClick={onCancel}
+              className="bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark font-semibold py-3 px-4 rounded-lg hover:bg-border-light dark:hover:bg-border-dark transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
         <button
-          onClick={handleGenerateClick}
-          disabled={!concept.trim() || isLoading || disabled}
-          className="w-full bg-rose-candy dark:bg-primary-dark text-on-primary-light dark:text-on-primary-dark font-bold py-3 px-4 rounded-lg flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90 transition-opacity"
+          onClick={onOpenBatch}
+          disabled={disabled}
+          className="w-full bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark text-sm font-semibold py-2 px-4 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-border-light dark:hover:bg-border-dark transition-colors"
         >
-          {isLoading ? 'Generating...' : 'Generate Poster'}
+          Batch Generate...
         </button>
       </div>
     </div>
@@ -0,0 +1,113 @@
+import React, { useRef, useState } from 'react';
+import type { CurvePoint, CurvesAdjustment } from '../types';
+
+type Channel = 'rgb' | 'red' | 'green' | 'blue';
+
+interface CurveEditorProps {
+  adjustment: CurvesAdjustment;
+  onChange: (adjustment: CurvesAdjustment) => void;
+}
+
+const channels: { value: Channel; label: string; color: string }[] = [
+  { value: 'rgb', label: 'RGB', color: 'currentColor' },
+  { value: 'red', label: 'R', color: '#ef4444' },
+  { value: 'green', label: 'G', color: '#22c55e' },
+  { value: 'blue', label: 'B', color: '#3b82f6' },
+];
+
+const SIZE = 160;
+const HIT_RADIUS = 0.05;
+
+// Click to add a point, drag to move it, double-click to remove it. The end points only move vertically.
+const CurveEditor: React.FC<CurveEditorProps> = ({ adjustment, onChange }) => {
+  const [channel, setChannel] = useState<Channel>('rgb');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const points = adjustment[channel];
+  const color = channels.find(c => c.value === channel)!.color;
+
+  const setPoints = (next: CurvePoint[]) => onChange({ ...adjustment, [channel]: next });
+
+  const pointFor = (e: React.PointerEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(1, Math.max(0, v));
+    return [clamp((e.clientX - rect.left) / rect.width), clamp(1 - (e.clientY - rect.top) / rect.height)];
+  };
+
+  const nearest = ([x, y]: CurvePoint) =>
+    points.findIndex(([px, py]) => Math.hypot(px - x, py - y) < HIT_RADIUS);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointFor(e);
+    const index = nearest(point);
+    if (index >= 0) {
+      setDragIndex(index);
+      return;
+    }
+    const next = [...points, point].sort((a, b) => a[0] - b[0]);
+    setPoints(next);
+    setDragIndex(next.indexOf(point));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragIndex === null) return;
+    const [x, y] = pointFor(e);
+    const isEnd = dragIndex === 0 || dragIndex === points.length - 1;
+    // Points keep their order, so a point cannot be dragged past its neighbours.
+    const minX = dragIndex > 0 ? points[dragIndex - 1][0] + 0.01 : 0;
+    const maxX = dragIndex < points.length - 1 ? points[dragIndex + 1][0] - 0.01 : 1;
+    const next = [...points];
+    next[dragIndex] = [isEnd ? points[dragIndex][0] : Math.min(maxX, Math.max(minX, x)), y];
+    setPoints(next);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const index = nearest([(e.clientX - rect.left) / rect.width, 1 - (e.clientY - rect.top) / rect.height]);
+    if (index > 0 && index < points.length - 1) setPoints(points.filter((_, i) => i !== index));
+  };
+
+  const path = points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x * SIZE},${(1 - y) * SIZE}`).join(' ');
+
+  return (
+    <div className="space-y-2">
+      <div className="flex space-x-1">
+        {channels.map(c => (
+          <button
+            key={c.value}
+            onClick={() => setChannel(c.value)}
+            className={`px-2 py-0.5 rounded text-xs font-semibold transition-colors ${channel === c.value ? 'bg-border-light dark:bg-border-dark' : 'hover:bg-border-light dark:hover:bg-border-dark'}`}
+            style={{ color: c.value === 'rgb' ? undefined : c.color }}
+          >
+            {c.label}
+          </button>
+        ))}
+        <button onClick={() => setPoints([[0, 0], [1, 1]])} className="ml-auto text-xs font-semibold hover:underline">Reset</button>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="w-full aspect-square bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-md touch-none cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragIndex(null)}
+        onDoubleClick={handleDoubleClick}
+      >
+        {[0.25, 0.5, 0.75].map(v => (
+          <g key={v} className="stroke-border-light dark:stroke-border-dark" strokeWidth={0.5}>
+            <line x1={v * SIZE} y1={0} x2={v * SIZE} y2={SIZE} />
+            <line x1={0} y1={v * SIZE} x2={SIZE} y2={v * SIZE} />
+          </g>
+        ))}
+        <line x1={0} y1={SIZE} x2={SIZE} y2={0} className="stroke-border-light dark:stroke-border-dark" strokeDasharray="2 2" strokeWidth={0.5} />
+        <path d={path} fill="none" stroke={color} strokeWidth={1.5} />
+        {points.map(([x, y], i) => (
+          <circle key={i} cx={x * SIZE} cy={(1 - y) * SIZE} r={3} fill={color} />
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export default CurveEditor;
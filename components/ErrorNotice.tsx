@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import type { ErrorReport } from '../types';
+import { ExclamationTriangleIcon, XMarkIcon } from './icons';
+
+interface ErrorNoticeProps {
+  error: ErrorReport;
+  onDismiss?: () => void;
+  onRetry?: () => void;
+  compact?: boolean; // for small cards, where the explanation is only shown on hover
+}
+
+// Explains a failed job, suggests what to do next and offers diagnostics for bug reports.
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onDismiss, onRetry, compact = false }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(error.diagnostics);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy diagnostics:', err);
+    }
+  };
+
+  const linkClass = "text-xs font-semibold hover:underline";
+
+  return (
+    <div
+      role="alert"
+      title={compact ? `${error.explanation} ${error.action}` : undefined}
+      className={`relative text-left rounded-lg border border-error-light dark:border-error-dark bg-surface-light dark:bg-surface-dark ${compact ? 'p-2' : 'px-4 py-3'}`}
+    >
+      <div className="flex items-start space-x-2 pr-6">
+        <ExclamationTriangleIcon className={`flex-shrink-0 text-error-light dark:text-error-dark ${compact ? 'w-4 h-4' : 'w-5 h-5'}`} />
+        <div className="min-w-0">
+          <p className={`font-semibold text-error-light dark:text-error-dark ${compact ? 'text-xs' : 'text-sm'}`}>{error.title}</p>
+          {!compact && (
+            <>
+              <p className="text-sm text-text-light dark:text-text-dark mt-1">{error.explanation}</p>
+              <p className="text-sm text-subtext-light dark:text-subtext-dark mt-1">{error.action}</p>
+            </>
+          )}
+          <div className="flex items-center space-x-3 mt-2">
+            {onRetry && <button onClick={onRetry} className={linkClass}>Try again</button>}
+            <button onClick={handleCopy} className={`${linkClass} text-subtext-light dark:text-subtext-dark`}>
+              {copied ? 'Copied' : 'Copy diagnostics'}
+            </button>
+          </div>
+        </div>
+      </div>
+      {onDismiss && (
+        <button onClick={onDismiss} className="absolute top-2 right-2" aria-label="Dismiss error">
+          <XMarkIcon className="w-4 h-4 text-error-light dark:text-error-dark" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
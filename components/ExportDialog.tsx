@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import type { ExportFormat, ExportOptions, ExportSize } from '../services/exportService';
+import { XMarkIcon, DownloadIcon } from './icons';
+import Spinner from './Spinner';
+
+interface ExportDialogProps {
+  onExport: (options: ExportOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const formats: { value: ExportFormat, label: string, description: string }[] = [
+  { value: 'png', label: 'PNG', description: 'Lossless, keeps transparency' },
+  { value: 'jpeg', label: 'JPEG', description: 'Small, widely supported' },
+  { value: 'webp', label: 'WebP', description: 'Small, keeps transparency' },
+  { value: 'avif', label: 'AVIF', description: 'Smallest, falls back to WebP' },
+  { value: 'pdf', label: 'PDF', description: 'Single page for print' },
+];
+
+const sizes: { value: ExportSize, label: string }[] = [
+  { value: 'standard', label: 'Original' },
+  { value: 'large', label: '2x' },
+  { value: 'hq', label: '4x' },
+];
+
+const dpiOptions = [150, 300, 600];
+
+const optionClass = (selected: boolean) =>
+  `px-3 py-2 rounded-lg text-sm font-semibold text-left transition-colors ${selected ? 'bg-rose-candy dark:bg-primary-dark text-on-primary-light dark:text-on-primary-dark' : 'bg-bkg-light dark:bg-bkg-dark hover:bg-border-light dark:hover:bg-border-dark'}`;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ onExport, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>({
+    format: 'png',
+    size: 'standard',
+    quality: 0.92,
+    dpi: 300,
+    includeMetadata: true,
+  });
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const update = (changes: Partial<ExportOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const isLossy = options.format !== 'png';
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(options);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="relative bg-surface-light dark:bg-surface-dark p-6 rounded-2xl shadow-lg w-full max-w-md space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-bold">Export Poster</h3>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-border-light dark:hover:bg-border-dark transition-colors" aria-label="Close">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2">Format</label>
+          <div className="grid grid-cols-2 gap-2">
+            {formats.map(f => (
+              <button key={f.value} onClick={() => update({ format: f.value })} className={optionClass(options.format === f.value)}>
+                <span className="block">{f.label}</span>
+                <span className="block text-xs font-normal opacity-80">{f.description}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2">Size</label>
+          <div className="flex gap-2">
+            {sizes.map(s => (
+              <button key={s.value} onClick={() => update({ size: s.value })} className={`flex-1 ${optionClass(options.size === s.value)}`}>
+                {s.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {isLossy && (
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label className="text-sm font-medium">Quality</label>
+              <span className="text-xs text-subtext-light dark:text-subtext-dark">{Math.round(options.quality * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min="10"
+              max="100"
+              value={Math.round(options.quality * 100)}
+              onChange={(e) => update({ quality: Number(e.target.value) / 100 })}
+              className="w-full h-2 bg-border-light dark:bg-border-dark rounded-lg appearance-none cursor-pointer accent-primary-light dark:accent-primary-dark"
+            />
+          </div>
+        )}
+
+        {options.format === 'pdf' && (
+          <div>
+            <label className="block text-sm font-medium mb-2">Print resolution</label>
+            <div className="flex gap-2">
+              {dpiOptions.map(dpi => (
+                <button key={dpi} onClick={() => update({ dpi })} className={`flex-1 ${optionClass(options.dpi === dpi)}`}>
+                  {dpi} DPI
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <label className="flex items-start space-x-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={options.includeMetadata}
+            onChange={(e) => update({ includeMetadata: e.target.checked })}
+            className="mt-0.5 accent-primary-light dark:accent-primary-dark"
+          />
+          <span>
+            Embed concept and edit history
+            {options.format === 'avif' && (
+              <span className="block text-xs text-subtext-light dark:text-subtext-dark">Not supported for AVIF files.</span>
+            )}
+          </span>
+        </label>
+
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="w-full bg-rose-candy dark:bg-primary-dark text-on-primary-light dark:text-on-primary-dark font-bold py-3 px-4 rounded-lg flex items-center justify-center space-x-2 disabled:opacity-50 hover:opacity-90 transition-opacity"
+        >
+          {isExporting ? <Spinner size="sm" /> : <DownloadIcon className="w-5 h-5" />}
+          <span>{isExporting ? 'Exporting...' : 'Download'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import type { FilterPreset } from '../types';
+import { exportPresetPack, parsePresetPack } from '../services/filterPresets';
+import { downloadBlob } from '../services/exportService';
+import { TrashIcon, PlusIcon, UploadIcon, DownloadIcon } from './icons';
+
+interface FilterPresetsProps {
+  presets: FilterPreset[];
+  thumbnails: Record<string, string>;
+  onSelect: (preset: FilterPreset) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (presets: FilterPreset[]) => void;
+}
+
+const iconButtonClass = "p-1 rounded-md hover:bg-border-light dark:hover:bg-border-dark transition-colors disabled:opacity-30";
+
+// The looks gallery: built-in looks and saved presets, each previewed on the current image.
+const FilterPresets: React.FC<FilterPresetsProps> = ({ presets, thumbnails, onSelect, onSave, onDelete, onImport }) => {
+  const [message, setMessage] = useState<string | null>(null);
+  const saved = presets.filter(p => !p.builtIn);
+
+  const handleSave = () => {
+    const name = window.prompt('Preset name')?.trim();
+    if (name) onSave(name);
+  };
+
+  const handleDelete = (preset: FilterPreset) => {
+    if (window.confirm(`Delete the preset "${preset.name}"?`)) onDelete(preset.id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresetPack(await file.text());
+      onImport(imported);
+      setMessage(`Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}.`);
+    } catch (err: any) {
+      setMessage(err.message);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium">Looks</label>
+        <div className="flex items-center space-x-1">
+          <button onClick={handleSave} className={iconButtonClass} title="Save current settings as a preset">
+            <PlusIcon className="w-4 h-4" />
+          </button>
+          <label className={`${iconButtonClass} cursor-pointer`} title="Import presets">
+            <UploadIcon className="w-4 h-4" />
+            <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </label>
+          <button
+            onClick={() => downloadBlob(new Blob([exportPresetPack(saved)], { type: 'application/json' }), 'filter-presets.json')}
+            disabled={saved.length === 0}
+            className={iconButtonClass}
+            title="Export saved presets"
+          >
+            <DownloadIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      {message && <p className="text-xs text-subtext-light dark:text-subtext-dark">{message}</p>}
+      <div className="grid grid-cols-3 gap-2">
+        {presets.map(preset => (
+          <div key={preset.id} className="relative group">
+            <button onClick={() => onSelect(preset)} className="w-full text-left" title={preset.name}>
+              <div className="aspect-square rounded-md overflow-hidden bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark group-hover:ring-2 ring-primary-light dark:ring-primary-dark">
+                {thumbnails[preset.id] && <img src={thumbnails[preset.id]} alt="" className="w-full h-full object-cover" />}
+              </div>
+              <span className="block text-xs mt-0.5 truncate">{preset.name}</span>
+            </button>
+            {!preset.builtIn && (
+              <button
+                onClick={() => handleDelete(preset)}
+                className="absolute top-1 right-1 p-0.5 rounded bg-black/50 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Delete preset"
+              >
+                <TrashIcon className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FilterPresets;
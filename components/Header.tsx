@@ -1,9 +1,12 @@
-
 import React from 'react';
 import ThemeToggle from './ThemeToggle';
+import ProviderSwitch from './ProviderSwitch';
+import RequestSettings from './RequestSettings';
+import ProjectPicker from './ProjectPicker';
+import type { ProjectPickerProps } from './ProjectPicker';
 import { WandIcon } from './icons';
 
-const Header: React.FC = () => {
+const Header: React.FC<ProjectPickerProps> = (projectPickerProps) => {
   return (
     <header className="fixed top-0 left-0 right-0 bg-surface-light/80 dark:bg-surface-dark/80 backdrop-blur-sm border-b border-border-light dark:border-border-dark z-10">
       <div className="container mx-auto px-4 sm:px-6 lg:px-8">
@@ -14,7 +17,12 @@ const Header: React.FC = () => {
               AI Edit
             </h1>
           </div>
-          <ThemeToggle />
+          <div className="flex items-center space-x-4">
+            <ProjectPicker {...projectPickerProps} />
+            <ProviderSwitch />
+            <RequestSettings />
+            <ThemeToggle />
+          </div>
         </div>
       </div>
     </header>
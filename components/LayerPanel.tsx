@@ -0,0 +1,145 @@
+import React from 'react';
+import type { BlendMode, Composition, Layer, Product } from '../types';
+import { BLEND_MODES } from '../services/composition';
+import { ChevronUpIcon, ChevronDownIcon, EyeIcon, EyeSlashIcon, TrashIcon } from './icons';
+
+interface LayerPanelProps {
+  composition: Composition | undefined;
+  products: Product[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (composition: Composition) => void;
+  onConvert: () => void;
+  onAddProduct: (product: Product) => void;
+  disabled: boolean;
+}
+
+const iconButtonClass = "p-1 rounded-md hover:bg-border-light dark:hover:bg-border-dark disabled:opacity-30 disabled:cursor-not-allowed transition-colors";
+
+const layerLabel = (layer: Layer) => (layer.type === 'text' ? layer.overlay.text.split('\n')[0] || 'Text' : layer.name);
+
+const LayerPanel: React.FC<LayerPanelProps> = ({ composition, products, selectedId, onSelect, onChange, onConvert, onAddProduct, disabled }) => {
+  if (!composition) {
+    return (
+      <div className="bg-surface-light dark:bg-surface-dark p-6 rounded-2xl shadow-sm border border-border-light dark:border-border-dark">
+        <h2 className="text-lg font-bold mb-2">Layers</h2>
+        <p className="text-sm text-subtext-light dark:text-subtext-dark mb-4">Split this poster into a background and movable product and text layers.</p>
+        <button
+          onClick={onConvert}
+          disabled={disabled}
+          className="w-full bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark text-sm font-semibold py-2 px-4 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-border-light dark:hover:bg-border-dark transition-colors"
+        >
+          Convert to Layers
+        </button>
+      </div>
+    );
+  }
+
+  const { layers } = composition;
+  const selected = layers.find(layer => layer.id === selectedId);
+  const processedProducts = products.filter(p => p.processed);
+
+  const updateLayer = (id: string, changes: Partial<Pick<Layer, 'visible' | 'opacity' | 'blendMode'>>) => {
+    onChange({ ...composition, layers: layers.map(layer => (layer.id === id ? { ...layer, ...changes } : layer)) });
+  };
+
+  const moveLayer = (index: number, offset: 1 | -1) => {
+    const reordered = [...layers];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    onChange({ ...composition, layers: reordered });
+  };
+
+  const removeLayer = (id: string) => {
+    onChange({ ...composition, layers: layers.filter(layer => layer.id !== id) });
+    if (id === selectedId) onSelect(null);
+  };
+
+  const handleAddProduct = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const product = processedProducts.find(p => p.id === e.target.value);
+    if (product) onAddProduct(product);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="bg-surface-light dark:bg-surface-dark p-6 rounded-2xl shadow-sm border border-border-light dark:border-border-dark">
+      <h2 className="text-lg font-bold mb-4">Layers</h2>
+
+      {/* Listed top to bottom, the reverse of the drawing order. */}
+      <ul className="space-y-1 mb-4">
+        {layers.map((layer, index) => ({ layer, index })).reverse().map(({ layer, index }) => (
+          <li
+            key={layer.id}
+            onClick={() => onSelect(layer.id)}
+            className={`flex items-center space-x-1 px-2 py-1 rounded-lg cursor-pointer text-sm ${layer.id === selectedId ? 'bg-bkg-light dark:bg-bkg-dark ring-1 ring-primary-light dark:ring-primary-dark' : 'hover:bg-bkg-light dark:hover:bg-bkg-dark'}`}
+          >
+            <button
+              onClick={(e) => { e.stopPropagation(); updateLayer(layer.id, { visible: !layer.visible }); }}
+              disabled={disabled}
+              className={iconButtonClass}
+              title={layer.visible ? 'Hide layer' : 'Show layer'}
+            >
+              {layer.visible ? <EyeIcon className="w-4 h-4" /> : <EyeSlashIcon className="w-4 h-4 text-subtext-light dark:text-subtext-dark" />}
+            </button>
+            <span className={`flex-grow truncate ${layer.visible ? '' : 'text-subtext-light dark:text-subtext-dark'}`}>{layerLabel(layer)}</span>
+            <button onClick={(e) => { e.stopPropagation(); moveLayer(index, 1); }} disabled={disabled || index === layers.length - 1} className={iconButtonClass} title="Move up">
+              <ChevronUpIcon className="w-4 h-4" />
+            </button>
+            <button onClick={(e) => { e.stopPropagation(); moveLayer(index, -1); }} disabled={disabled || index === 0} className={iconButtonClass} title="Move down">
+              <ChevronDownIcon className="w-4 h-4" />
+            </button>
+            <button onClick={(e) => { e.stopPropagation(); removeLayer(layer.id); }} disabled={disabled} className={iconButtonClass} title="Delete layer">
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="space-y-3 mb-4">
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label className="text-sm font-medium">Opacity</label>
+              <span className="text-xs text-subtext-light dark:text-subtext-dark">{Math.round(selected.opacity * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={Math.round(selected.opacity * 100)}
+              onChange={(e) => updateLayer(selected.id, { opacity: Number(e.target.value) / 100 })}
+              disabled={disabled}
+              className="w-full h-2 bg-border-light dark:bg-border-dark rounded-lg appearance-none cursor-pointer accent-primary-light dark:accent-primary-dark"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Blend mode</label>
+            <select
+              value={selected.blendMode}
+              onChange={(e) => updateLayer(selected.id, { blendMode: e.target.value as BlendMode })}
+              disabled={disabled}
+              className="w-full p-2 bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-lg text-sm focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none transition"
+            >
+              {BLEND_MODES.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      <select
+        value=""
+        onChange={handleAddProduct}
+        disabled={disabled || processedProducts.length === 0}
+        className="w-full p-2 bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-lg text-sm focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none transition disabled:opacity-50"
+      >
+        <option value="" disabled>Add product layer...</option>
+        {processedProducts.map((product, index) => (
+          <option key={product.id} value={product.id}>Product {index + 1}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default LayerPanel;
@@ -0,0 +1,235 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import type { Product } from '../types';
+import { createMask, paintStroke, drawCutout, renderCutout } from '../services/cutoutMask';
+import type { BrushMode, Point } from '../services/cutoutMask';
+import Spinner from './Spinner';
+import { UndoIcon, XMarkIcon } from './icons';
+
+interface MaskEditorProps {
+  product: Product;
+  onSave: (processedSrc: string) => void;
+  onClose: () => void;
+}
+
+const MAX_UNDO = 10;
+
+const brushModes: { value: BrushMode, label: string }[] = [
+  { value: 'add', label: 'Restore' },
+  { value: 'erase', label: 'Erase' },
+];
+
+const sliderClass = "w-full h-2 bg-border-dark rounded-lg appearance-none cursor-pointer accent-primary-dark";
+
+const checkerboardStyle: React.CSSProperties = {
+  background: 'repeating-conic-gradient(#4b5563 0% 25%, #6b7280 0% 50%) 50% / 16px 16px',
+};
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ product, onSave, onClose }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sourceRef = useRef<{ original: HTMLImageElement, mask: HTMLCanvasElement } | null>(null);
+  const undoStack = useRef<ImageData[]>([]);
+  const lastPoint = useRef<Point | null>(null);
+
+  const [isReady, setIsReady] = useState(false);
+  const [isAligned, setIsAligned] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [displaySize, setDisplaySize] = useState({ width: 0, height: 0 });
+  const [mode, setMode] = useState<BrushMode>('erase');
+  const [brushSize, setBrushSize] = useState(40);
+  const [hardness, setHardness] = useState(0.7);
+  const [feather, setFeather] = useState(0);
+  const [refineEdges, setRefineEdges] = useState(false);
+  const [canUndo, setCanUndo] = useState(false);
+  const [cursor, setCursor] = useState<Point | null>(null);
+
+  useEffect(() => {
+    createMask(product.original, product.processed)
+      .then(({ original, mask, aligned }) => {
+        sourceRef.current = { original, mask };
+        setIsAligned(aligned);
+        setIsReady(true);
+      })
+      .catch(err => {
+        console.error(err);
+        setLoadError('Failed to load the product images.');
+      });
+  }, [product.original, product.processed]);
+
+  // Fit the original into the available space.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !isReady || !sourceRef.current) return;
+    const { original } = sourceRef.current;
+    const measure = () => {
+      const scale = Math.min(container.clientWidth / original.naturalWidth, container.clientHeight / original.naturalHeight);
+      setDisplaySize({ width: Math.floor(original.naturalWidth * scale), height: Math.floor(original.naturalHeight * scale) });
+    };
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [isReady]);
+
+  // The original shows faintly as a reference under the cutout.
+  const render = useCallback(() => {
+    const canvas = canvasRef.current;
+    const source = sourceRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !source || !ctx || displaySize.width === 0) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.globalAlpha = 0.3;
+    ctx.drawImage(source.original, 0, 0, canvas.width, canvas.height);
+    ctx.globalAlpha = 1;
+    drawCutout(ctx, source.original, source.mask, canvas.width, canvas.height, { feather, refineEdges });
+  }, [displaySize, feather, refineEdges]);
+
+  useEffect(() => {
+    render();
+  }, [render]);
+
+  const toMaskPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = sourceRef.current!.original.naturalWidth / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale };
+  };
+
+  const brushRadius = () => (brushSize / 2) * (sourceRef.current!.original.naturalWidth / displaySize.width);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const source = sourceRef.current;
+    if (!source) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const ctx = source.mask.getContext('2d');
+    if (ctx) {
+      undoStack.current = [...undoStack.current.slice(1 - MAX_UNDO), ctx.getImageData(0, 0, source.mask.width, source.mask.height)];
+      setCanUndo(true);
+    }
+    const point = toMaskPoint(e);
+    paintStroke(source.mask, point, point, brushRadius(), hardness, mode);
+    lastPoint.current = point;
+    render();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setCursor({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+    const source = sourceRef.current;
+    if (!source || !lastPoint.current) return;
+    const point = toMaskPoint(e);
+    paintStroke(source.mask, lastPoint.current, point, brushRadius(), hardness, mode);
+    lastPoint.current = point;
+    render();
+  };
+
+  const handlePointerUp = () => {
+    lastPoint.current = null;
+  };
+
+  const handleUndo = () => {
+    const source = sourceRef.current;
+    const snapshot = undoStack.current.pop();
+    if (!source || !snapshot) return;
+    source.mask.getContext('2d')?.putImageData(snapshot, 0, 0);
+    setCanUndo(undoStack.current.length > 0);
+    render();
+  };
+
+  const handleSave = () => {
+    const source = sourceRef.current;
+    if (!source) return;
+    onSave(renderCutout(source.original, source.mask, { feather, refineEdges }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4">
+      <div className="bg-surface-dark p-6 rounded-2xl shadow-lg w-full h-full flex flex-col md:flex-row gap-6">
+        <div className="flex-grow flex items-center justify-center min-h-0 min-w-0" ref={containerRef}>
+          {!isReady && !loadError && <Spinner size="lg" />}
+          {loadError && <p className="text-error-dark">{loadError}</p>}
+          {isReady && displaySize.width > 0 && (
+            <div className="relative" style={{ ...checkerboardStyle, width: displaySize.width, height: displaySize.height }}>
+              <canvas
+                ref={canvasRef}
+                width={displaySize.width}
+                height={displaySize.height}
+                className="block cursor-none touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={() => setCursor(null)}
+              />
+              {cursor && (
+                <div
+                  className="absolute rounded-full border-2 border-white pointer-events-none mix-blend-difference"
+                  style={{ left: cursor.x - brushSize / 2, top: cursor.y - brushSize / 2, width: brushSize, height: brushSize }}
+                />
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="w-full md:w-64 flex-shrink-0 flex flex-col justify-between text-text-dark">
+          <div className="space-y-4">
+            <h3 className="text-xl font-bold">Edit Cutout</h3>
+            {!isAligned && (
+              <p className="text-xs text-warning-dark">The current cutout does not line up with the original, so editing starts from the full image.</p>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              {brushModes.map(m => (
+                <button
+                  key={m.value}
+                  onClick={() => setMode(m.value)}
+                  className={`p-2 rounded-md font-semibold text-sm transition-colors ${mode === m.value ? 'bg-primary-dark text-on-primary-dark' : 'bg-border-dark text-text-dark hover:bg-bkg-dark'}`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <label className="text-sm font-medium">Brush size</label>
+                <span className="text-xs text-subtext-dark">{brushSize}px</span>
+              </div>
+              <input type="range" min="4" max="200" value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className={sliderClass} />
+            </div>
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <label className="text-sm font-medium">Hardness</label>
+                <span className="text-xs text-subtext-dark">{Math.round(hardness * 100)}%</span>
+              </div>
+              <input type="range" min="0" max="100" value={Math.round(hardness * 100)} onChange={(e) => setHardness(Number(e.target.value) / 100)} className={sliderClass} />
+            </div>
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <label className="text-sm font-medium">Feather</label>
+                <span className="text-xs text-subtext-dark">{feather}px</span>
+              </div>
+              <input type="range" min="0" max="20" value={feather} onChange={(e) => setFeather(Number(e.target.value))} className={sliderClass} />
+            </div>
+            <label className="flex items-center space-x-2 text-sm cursor-pointer">
+              <input type="checkbox" checked={refineEdges} onChange={(e) => setRefineEdges(e.target.checked)} className="accent-primary-dark" />
+              <span>Refine edges</span>
+            </label>
+            <button
+              onClick={handleUndo}
+              disabled={!canUndo}
+              className="w-full p-2 rounded-md bg-border-dark text-text-dark hover:bg-bkg-dark flex items-center justify-center space-x-2 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <UndoIcon className="w-4 h-4" />
+              <span>Undo stroke</span>
+            </button>
+          </div>
+          <div className="flex space-x-2 mt-4">
+            <button onClick={onClose} className="w-full py-2 px-4 rounded-lg bg-border-dark text-text-dark hover:bg-bkg-dark font-semibold transition-colors">Cancel</button>
+            <button onClick={handleSave} disabled={!isReady} className="w-full py-2 px-4 rounded-lg bg-primary-dark text-on-primary-dark font-semibold hover:opacity-90 transition-opacity disabled:opacity-50">Save Cutout</button>
+          </div>
+        </div>
+      </div>
+      <button onClick={onClose} className="absolute top-2 right-2 p-2 rounded-full bg-black/50 hover:bg-black/70 transition-colors">
+        <XMarkIcon className="w-6 h-6 text-white"/>
+      </button>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,166 @@
+import React, { useRef, useState } from 'react';
+import type { AspectRatio, PlacementBox, Product, ProductHints, ProductProminence, ProductSize } from '../types';
+import { aspectRatiosMap } from '../constants';
+import { getProductHints, gridCellBox, boxFromPoints, PLACEMENT_GRID_SIZE } from '../services/productHints';
+import { XMarkIcon } from './icons';
+
+interface PlacementEditorProps {
+  products: Product[];
+  aspectRatio: AspectRatio;
+  onHintsChange: (id: string, hints: ProductHints) => void;
+}
+
+// Drags shorter than this (as a fraction of the canvas) count as a click on a grid cell.
+const MIN_DRAG = 0.04;
+
+const selectClass = "bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-md px-1 py-0.5 text-xs focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none";
+
+// Lays out where each product should appear: click a grid cell or drag a box on the canvas.
+const PlacementEditor: React.FC<PlacementEditorProps> = ({ products, aspectRatio, onHintsChange }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(products[0]?.id ?? null);
+  const [draft, setDraft] = useState<PlacementBox | null>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const selected = products.find(p => p.id === selectedId) || products[0] || null;
+
+  const update = (product: Product, changes: Partial<ProductHints>) => {
+    onHintsChange(product.id, { ...getProductHints(product), ...changes });
+  };
+
+  const pointFor = (e: React.PointerEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!selected) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = pointFor(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart.current) return;
+    const point = pointFor(e);
+    setDraft(boxFromPoints(dragStart.current.x, dragStart.current.y, point.x, point.y));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const start = dragStart.current;
+    dragStart.current = null;
+    setDraft(null);
+    if (!start || !selected) return;
+    const point = pointFor(e);
+    const box = boxFromPoints(start.x, start.y, point.x, point.y);
+    if (box.width < MIN_DRAG && box.height < MIN_DRAG) {
+      const cell = (v: number) => Math.min(PLACEMENT_GRID_SIZE - 1, Math.max(0, Math.floor(v * PLACEMENT_GRID_SIZE)));
+      update(selected, { placement: gridCellBox(cell(point.x), cell(point.y)) });
+    } else {
+      update(selected, { placement: box });
+    }
+  };
+
+  const boxStyle = (box: PlacementBox) => ({
+    left: `${box.x * 100}%`,
+    top: `${box.y * 100}%`,
+    width: `${box.width * 100}%`,
+    height: `${box.height * 100}%`,
+  });
+
+  const ratio = aspectRatiosMap[aspectRatio];
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-subtext-light dark:text-subtext-dark">
+        Select a product, then click a cell or drag a box to place it. Products without a box are placed by the model.
+      </p>
+      <div className="flex justify-center">
+        <div
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          className={`relative bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-md select-none touch-none ${selected ? 'cursor-crosshair' : ''}`}
+          style={{ aspectRatio: `${ratio}`, width: ratio >= 1 ? '100%' : `${ratio * 14}rem`, maxWidth: '100%' }}
+        >
+          {Array.from({ length: PLACEMENT_GRID_SIZE - 1 }, (_, i) => (
+            <React.Fragment key={i}>
+              <div className="absolute inset-y-0 border-l border-dashed border-border-light dark:border-border-dark" style={{ left: `${((i + 1) / PLACEMENT_GRID_SIZE) * 100}%` }} />
+              <div className="absolute inset-x-0 border-t border-dashed border-border-light dark:border-border-dark" style={{ top: `${((i + 1) / PLACEMENT_GRID_SIZE) * 100}%` }} />
+            </React.Fragment>
+          ))}
+          {products.map((product, index) => {
+            const { placement, prominence } = getProductHints(product);
+            if (!placement || (draft && product.id === selected?.id)) return null;
+            return (
+              <div
+                key={product.id}
+                className={`absolute border-2 rounded-sm flex items-center justify-center text-xs font-bold pointer-events-none ${product.id === selected?.id ? 'border-primary-light dark:border-primary-dark bg-primary-light/20 dark:bg-primary-dark/20' : 'border-subtext-light dark:border-subtext-dark'}`}
+                style={boxStyle(placement)}
+              >
+                {index + 1}{prominence === 'hero' ? '★' : ''}
+              </div>
+            );
+          })}
+          {draft && (
+            <div className="absolute border-2 border-dashed border-primary-light dark:border-primary-dark pointer-events-none" style={boxStyle(draft)} />
+          )}
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {products.map((product, index) => {
+          const hints = getProductHints(product);
+          return (
+            <li
+              key={product.id}
+              onClick={() => setSelectedId(product.id)}
+              className={`p-2 rounded-lg border cursor-pointer transition-colors ${product.id === selected?.id ? 'border-primary-light dark:border-primary-dark' : 'border-border-light dark:border-border-dark'}`}
+            >
+              <div className="flex items-center space-x-2">
+                <span className="text-xs font-bold w-4">{index + 1}</span>
+                <img src={product.processed || product.original} alt={`Product ${index + 1}`} className="w-8 h-8 object-contain" />
+                <select
+                  value={hints.prominence}
+                  onChange={(e) => update(product, { prominence: e.target.value as ProductProminence })}
+                  aria-label={`Product ${index + 1} role`}
+                  className={selectClass}
+                >
+                  <option value="hero">Hero</option>
+                  <option value="secondary">Secondary</option>
+                </select>
+                <select
+                  value={hints.size}
+                  onChange={(e) => update(product, { size: e.target.value as ProductSize })}
+                  aria-label={`Product ${index + 1} size`}
+                  className={selectClass}
+                >
+                  <option value="small">Small</option>
+                  <option value="medium">Medium</option>
+                  <option value="large">Large</option>
+                </select>
+                {hints.placement && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); update(product, { placement: null }); }}
+                    className="p-1 rounded-full hover:bg-border-light dark:hover:bg-border-dark transition-colors"
+                    aria-label={`Clear placement of product ${index + 1}`}
+                    title="Clear placement"
+                  >
+                    <XMarkIcon className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+              <input
+                value={hints.caption}
+                onChange={(e) => update(product, { caption: e.target.value })}
+                placeholder="Caption (optional)"
+                className="mt-2 w-full bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-md px-2 py-1 text-xs focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none"
+              />
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default PlacementEditor;
@@ -1,85 +1,271 @@
 
 
-import React, { useState, useEffect } from 'react';
-import type { Poster, ImageFilters } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import type { Poster, AspectRatio, ExpandDirection, ExpandSize, ExpandPadding, ExpandRequest, TextOverlay, Layer, RefinementVariation, ErrorReport } from '../types';
 import Spinner from './Spinner';
-import { WandIcon, ZoomInIcon, ZoomOutIcon, ResetZoomIcon, ArrowsPointingOutIcon } from './icons';
+import TextOverlayLayer from './TextOverlayLayer';
+import CompositionView from './CompositionView';
+import SelectionLayer from './SelectionLayer';
+import VariationCompare from './VariationCompare';
+import ErrorNotice from './ErrorNotice';
+import { WandIcon, ZoomInIcon, ZoomOutIcon, ResetZoomIcon, ArrowsPointingOutIcon, CropIcon, DownloadIcon, ChevronDownIcon, ExclamationTriangleIcon, TextIcon, PencilIcon, ArrowPathIcon, XMarkIcon } from './icons';
+import { describeSpecCheck } from '../services/aspectRatioService';
+import type { BrushMode } from '../services/cutoutMask';
+import type { UpscaleFactor } from '../services/upscale';
+import { MAX_EXPAND_PIXELS, isEmptyPadding } from '../services/outpainting';
+import { aspectRatios } from '../constants';
+import { MAX_VARIATIONS } from '../hooks/useRefinementVariations';
+import TemplatePicker from './TemplatePicker';
+import type { TemplatePickerOptions } from './TemplatePicker';
 
 interface PosterDisplayProps {
   activePoster: Poster | null;
-  onRefine: (refinementPrompt: string) => void;
+  onRefine: (refinementPrompt: string, selection: HTMLCanvasElement | null, count: number) => void;
   onPreview: () => void;
   isLoading: boolean;
   isModifying: boolean;
-  refinementVariations: Poster[];
+  onCancelGenerate: () => void;
+  onCancelModify: () => void;
+  modifyError: ErrorReport | null; // the last failed upscale or expand
+  onDismissModifyError: () => void;
+  modifyProgress: number | null; // 0 to 1 for local work that reports progress, such as upscaling
+  refinementVariations: RefinementVariation[];
   onConfirmRefinement: (poster: Poster) => void;
   onCancelRefinement: () => void;
-  filters: ImageFilters;
+  onRerollVariation: (id: string) => void;
+  templatePicker: TemplatePickerOptions; // refinement templates
+  filterPreviewSrc: string | null; // the filtered rendering, shown instead of the poster while filters are pending
+  onUpscale: (scale: UpscaleFactor) => void;
+  upscaleModelName: string | null; // the ONNX model used instead of Lanczos, if one is loaded
+  onLoadUpscaleModel: (file: File) => void;
+  onClearUpscaleModel: () => void;
+  onExpand: (request: ExpandRequest) => void;
+  onCrop: () => void;
+  onExport: () => void;
+  selectedLayerId: string | null; // a text overlay or a layer of a layered poster
+  onSelectLayer: (id: string | null) => void;
+  onOverlayChange: (overlay: TextOverlay) => void;
+  onLayerChange: (layer: Layer) => void;
+  onAddText: () => void;
 }
 
+const expandDirections: { value: ExpandDirection, label: string }[] = [
+  { value: 'all', label: 'All sides' },
+  { value: 'top', label: 'Top' },
+  { value: 'bottom', label: 'Bottom' },
+  { value: 'left', label: 'Left' },
+  { value: 'right', label: 'Right' },
+];
+
+const expandSizes: ExpandSize[] = [25, 50, 100];
+
+const expandModes: { value: ExpandRequest['mode'], label: string }[] = [
+  { value: 'direction', label: 'Percent' },
+  { value: 'pixels', label: 'Pixels' },
+  { value: 'aspectRatio', label: 'Aspect ratio' },
+];
+
+const paddingSides: (keyof ExpandPadding)[] = ['top', 'right', 'bottom', 'left'];
+
+const chipClass = (selected: boolean) =>
+  `px-2 py-1 rounded-md text-xs font-semibold transition-colors ${selected ? 'bg-rose-candy dark:bg-primary-dark text-on-primary-light dark:text-on-primary-dark' : 'bg-bkg-light dark:bg-bkg-dark hover:bg-border-light dark:hover:bg-border-dark'}`;
+
+type ToolbarMenu = 'upscale' | 'expand' | null;
+
+const toolbarButtonClass = "flex items-center space-x-1 px-3 py-1.5 rounded-lg text-sm font-semibold bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark hover:bg-border-light dark:hover:bg-border-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const menuClass = "absolute bottom-full mb-2 z-20 bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark rounded-lg shadow-lg p-2";
+const menuItemClass = "w-full text-left px-3 py-1.5 rounded-md text-sm hover:bg-border-light dark:hover:bg-border-dark transition-colors";
+
 const PosterDisplay: React.FC<PosterDisplayProps> = ({ 
     activePoster, onRefine, onPreview,
-    isLoading, isModifying, refinementVariations, onConfirmRefinement, 
-    onCancelRefinement, filters 
+    isLoading, isModifying, onCancelGenerate, onCancelModify, modifyError, onDismissModifyError, modifyProgress, refinementVariations, onConfirmRefinement, 
+    onCancelRefinement, onRerollVariation, templatePicker, filterPreviewSrc, onUpscale, upscaleModelName, onLoadUpscaleModel, onClearUpscaleModel, onExpand, onCrop, onExport,
+    selectedLayerId, onSelectLayer, onOverlayChange, onLayerChange, onAddText
 }) => {
   const [refinementPrompt, setRefinementPrompt] = useState('');
+  const [openMenu, setOpenMenu] = useState<ToolbarMenu>(null);
+  const [expandDirection, setExpandDirection] = useState<ExpandDirection>('all');
+  const [expandSize, setExpandSize] = useState<ExpandSize>(25);
+  const [expandMode, setExpandMode] = useState<ExpandRequest['mode']>('direction');
+  const [expandPadding, setExpandPadding] = useState<ExpandPadding>({ top: 0, right: 0, bottom: 0, left: 0 });
+  const [expandAspectRatio, setExpandAspectRatio] = useState<AspectRatio>('1:1');
+  // Rendered box of the poster image, used to lay the overlay layer exactly over it.
+  const imageRef = useRef<HTMLImageElement>(null);
+  const [imageBox, setImageBox] = useState({ left: 0, top: 0, width: 0, height: 0 });
+  const [naturalSize, setNaturalSize] = useState({ width: 0, height: 0 });
+  // Area selection for region refinements.
+  const selectionRef = useRef<HTMLCanvasElement>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [hasSelection, setHasSelection] = useState(false);
+  const [selectionMode, setSelectionMode] = useState<BrushMode>('add');
+  const [selectionBrush, setSelectionBrush] = useState(40);
+
+  useEffect(() => {
+    const img = imageRef.current;
+    if (!img) return;
+    const measure = () => {
+      setImageBox({ left: img.offsetLeft, top: img.offsetTop, width: img.offsetWidth, height: img.offsetHeight });
+      setNaturalSize({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    const observer = new ResizeObserver(measure);
+    observer.observe(img);
+    img.addEventListener('load', measure);
+    measure();
+    return () => {
+      observer.disconnect();
+      img.removeEventListener('load', measure);
+    };
+  }, [activePoster?.id, refinementVariations.length]);
   const [scale, setScale] = useState(1);
   const [selectedVariationId, setSelectedVariationId] = useState<string | null>(null);
+  const [variationCount, setVariationCount] = useState(2);
+  const [isComparing, setIsComparing] = useState(false);
 
+  // Variations arrive one by one, so select the first one that finishes.
+  const selectedVariation = refinementVariations.find(v => v.id === selectedVariationId && v.poster);
   useEffect(() => {
-    if (refinementVariations.length > 0 && !selectedVariationId) {
-        setSelectedVariationId(refinementVariations[0].id);
+    if (!selectedVariation) {
+        const firstDone = refinementVariations.find(v => v.poster);
+        setSelectedVariationId(firstDone ? firstDone.id : null);
     }
-  }, [refinementVariations, selectedVariationId]);
+  }, [refinementVariations, selectedVariation]);
   
   useEffect(() => {
     setScale(1);
   }, [activePoster?.id]);
 
+  // The selection belongs to one poster, and the view showing it is replaced by the variation picker.
+  const isPickingVariation = refinementVariations.length > 0;
+  useEffect(() => {
+    setIsSelecting(false);
+    setHasSelection(false);
+  }, [activePoster?.id, isPickingVariation]);
+
+  useEffect(() => {
+    if (isModifying) setOpenMenu(null);
+  }, [isModifying]);
+
+  const toggleMenu = (menu: ToolbarMenu) => setOpenMenu(current => current === menu ? null : menu);
+
+  const handleUpscaleClick = (upscale: UpscaleFactor) => {
+    setOpenMenu(null);
+    onUpscale(upscale);
+  };
+
+  const handleModelFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onLoadUpscaleModel(file);
+  };
+
+  const handleExpandClick = () => {
+    setOpenMenu(null);
+    switch (expandMode) {
+      case 'direction': onExpand({ mode: 'direction', direction: expandDirection, size: expandSize }); break;
+      case 'pixels': onExpand({ mode: 'pixels', padding: expandPadding }); break;
+      case 'aspectRatio': onExpand({ mode: 'aspectRatio', aspectRatio: expandAspectRatio }); break;
+    }
+  };
+
   const handleRefineClick = () => {
     if (refinementPrompt.trim() && activePoster && !isModifying) {
-      onRefine(refinementPrompt);
+      onRefine(refinementPrompt, isSelecting && hasSelection ? selectionRef.current : null, variationCount);
       setRefinementPrompt('');
     }
   };
   
+  const toggleSelecting = () => {
+    setIsSelecting(selecting => !selecting);
+    setHasSelection(false);
+  };
+
+  const clearSelection = () => {
+    const canvas = selectionRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasSelection(false);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') handleRefineClick();
   };
 
   const handleConfirm = () => {
-    const selected = refinementVariations.find(p => p.id === selectedVariationId);
-    if(selected) {
-        onConfirmRefinement(selected);
+    if (selectedVariation?.poster) {
+        onConfirmRefinement(selectedVariation.poster);
         setSelectedVariationId(null);
+        setIsComparing(false);
     }
   };
   
   const handleCancel = () => {
       onCancelRefinement();
       setSelectedVariationId(null);
+      setIsComparing(false);
   };
 
-  const tintStyle = {
-    '--tint-color': filters.tint?.color || 'transparent',
-    '--tint-amount': filters.tint?.amount || 0,
-  } as React.CSSProperties;
+  const specWarning = activePoster?.specCheck ? describeSpecCheck(activePoster.specCheck) : null;
+
   
   if (refinementVariations.length > 0) {
+    const pendingCount = refinementVariations.filter(v => v.status === 'pending').length;
     return (
         <div className="w-full h-full flex flex-col p-4 bg-bkg-light dark:bg-bkg-dark rounded-2xl">
-            <h3 className="text-lg font-bold mb-4 text-center">Choose a variation</h3>
-            <div className="flex-grow grid grid-cols-1 sm:grid-cols-2 gap-4 w-full items-center justify-center">
-                {refinementVariations.map(variation => (
-                    <div 
-                        key={variation.id} 
-                        onClick={() => setSelectedVariationId(variation.id)}
-                        className={`cursor-pointer rounded-lg overflow-hidden ring-4 transition-all duration-200 ${selectedVariationId === variation.id ? 'ring-primary-light dark:ring-primary-dark' : 'ring-transparent hover:ring-border-light dark:hover:ring-border-dark'}`}
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-bold">Choose a variation</h3>
+                <div className="flex items-center space-x-3">
+                    {pendingCount > 0 && (
+                        <span className="flex items-center space-x-2 text-sm text-subtext-light dark:text-subtext-dark">
+                            <Spinner size="sm" />
+                            <span>{pendingCount} of {refinementVariations.length} still generating</span>
+                        </span>
+                    )}
+                    <button
+                        onClick={() => setIsComparing(comparing => !comparing)}
+                        disabled={!selectedVariation || !activePoster}
+                        className={`px-3 py-1 rounded-md text-sm font-semibold transition-colors disabled:opacity-50 ${isComparing ? 'bg-rose-candy dark:bg-primary-dark text-on-primary-light dark:text-on-primary-dark' : 'bg-surface-light dark:bg-surface-dark hover:bg-border-light dark:hover:bg-border-dark'}`}
                     >
-                        <img src={variation.src} alt="Refined variation" className="w-full h-full object-contain max-h-[calc(100vh-25rem)]" />
-                    </div>
-                ))}
+                        Compare
+                    </button>
+                </div>
             </div>
+            {isComparing && selectedVariation?.poster && activePoster ? (
+                <div className="flex-grow min-h-0">
+                    <VariationCompare before={activePoster.src} after={selectedVariation.poster.src} />
+                </div>
+            ) : (
+                <div className={`flex-grow grid grid-cols-1 sm:grid-cols-2 ${refinementVariations.length > 4 ? 'lg:grid-cols-4' : ''} gap-4 w-full items-center justify-center overflow-y-auto`}>
+                    {refinementVariations.map(variation => (
+                        <div
+                            key={variation.id}
+                            onClick={() => variation.poster && setSelectedVariationId(variation.id)}
+                            className={`relative group rounded-lg overflow-hidden ring-4 transition-all duration-200 ${variation.poster ? 'cursor-pointer' : ''} ${selectedVariationId === variation.id ? 'ring-primary-light dark:ring-primary-dark' : 'ring-transparent hover:ring-border-light dark:hover:ring-border-dark'}`}
+                        >
+                            {variation.status === 'pending' && (
+                                <div className="aspect-square flex items-center justify-center bg-surface-light dark:bg-surface-dark">
+                                    <Spinner size="md" />
+                                </div>
+                            )}
+                            {variation.status === 'failed' && variation.error && (
+                                <div className="aspect-square flex items-center justify-center p-4 bg-surface-light dark:bg-surface-dark">
+                                    <ErrorNotice error={variation.error} onRetry={() => onRerollVariation(variation.id)} />
+                                </div>
+                            )}
+                            {variation.poster && (
+                                <>
+                                    <img src={variation.poster.src} alt="Refined variation" className="w-full h-full object-contain max-h-[calc(100vh-25rem)]" />
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); onRerollVariation(variation.id); }}
+                                        className="absolute top-2 right-2 p-2 rounded-full bg-black/50 text-white opacity-0 group-hover:opacity-100 hover:bg-black/70 transition-opacity"
+                                        title="Re-roll this variation"
+                                    >
+                                        <ArrowPathIcon className="w-4 h-4" />
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
             <div className="flex justify-center space-x-4 mt-4">
                 <button 
                     onClick={handleCancel} 
@@ -88,7 +274,7 @@ const PosterDisplay: React.FC<PosterDisplayProps> = ({
                 </button>
                 <button 
                     onClick={handleConfirm} 
-                    disabled={!selectedVariationId} 
+                    disabled={!selectedVariation} 
                     className="px-6 py-2 rounded-lg bg-rose-candy dark:bg-primary-dark text-on-primary-light dark:text-on-primary-dark font-semibold disabled:opacity-50 hover:opacity-90 transition-opacity">
                     Confirm
                 </button>
@@ -104,6 +290,9 @@ const PosterDisplay: React.FC<PosterDisplayProps> = ({
                 <Spinner size="lg" />
                 <p className="mt-4 text-subtext-light dark:text-subtext-dark">Generating your masterpiece...</p>
                 <p className="text-sm text-subtext-light dark:text-subtext-dark mt-2">This can take a moment.</p>
+                <button onClick={onCancelGenerate} className="mt-4 px-4 py-2 rounded-lg border border-border-light dark:border-border-dark text-sm font-semibold hover:bg-border-light dark:hover:bg-border-dark transition-colors">
+                    Cancel
+                </button>
             </div>
         )}
 
@@ -116,23 +305,73 @@ const PosterDisplay: React.FC<PosterDisplayProps> = ({
 
         {activePoster && (
             <>
-                <div className="w-full flex-grow relative mb-4 flex items-center justify-center overflow-hidden group/poster" style={tintStyle}>
-                    <img 
-                        src={activePoster.src} 
-                        alt="Generated Poster" 
-                        className="max-w-full max-h-full object-contain rounded-lg transition-transform duration-200"
-                        style={{ 
-                            transform: `scale(${scale})`, 
-                            maxHeight: 'calc(100vh - 250px)',
-                            filter: `brightness(${filters.brightness}%) contrast(${filters.contrast}%) saturate(${filters.saturate}%)`
-                        }}
-                    />
-                    <div className="absolute inset-0 rounded-lg pointer-events-none after:content-[''] after:absolute after:inset-0 after:bg-[var(--tint-color)] after:opacity-[var(--tint-amount)] after:mix-blend-color"></div>
+                <div className="w-full flex-grow relative mb-4 flex items-center justify-center overflow-hidden group/poster">
+                    <div className="relative w-full h-full flex items-center justify-center transition-transform duration-200" style={{ transform: `scale(${scale})` }}>
+                        {/* A layered poster is drawn from its layers; the flattened image only sizes the view. */}
+                        <img 
+                            ref={imageRef}
+                            src={activePoster.src} 
+                            alt="Generated Poster" 
+                            className={`max-w-full max-h-full object-contain rounded-lg ${activePoster.composition || filterPreviewSrc ? 'invisible' : ''}`}
+                            style={{ maxHeight: 'calc(100vh - 250px)' }}
+                        />
+                        <div className="absolute" style={imageBox}>
+                            {/* The preview may be downscaled; the poster image above still sizes the view and the selection. */}
+                            {filterPreviewSrc && (
+                                <img src={filterPreviewSrc} alt="Adjusted poster" className="absolute inset-0 w-full h-full rounded-lg" />
+                            )}
+                            {activePoster.composition && !filterPreviewSrc ? (
+                                <CompositionView
+                                    composition={activePoster.composition}
+                                    selectedId={selectedLayerId}
+                                    onSelect={onSelectLayer}
+                                    onChange={onLayerChange}
+                                    disabled={isModifying}
+                                />
+                            ) : (
+                                <TextOverlayLayer
+                                    overlays={activePoster.overlays || []}
+                                    selectedId={selectedLayerId}
+                                    onSelect={onSelectLayer}
+                                    onChange={onOverlayChange}
+                                    disabled={isModifying}
+                                />
+                            )}
+                            {isSelecting && naturalSize.width > 0 && (
+                                <SelectionLayer
+                                    canvasRef={selectionRef}
+                                    width={naturalSize.width}
+                                    height={naturalSize.height}
+                                    brushSize={selectionBrush}
+                                    mode={selectionMode}
+                                    onPaint={() => setHasSelection(true)}
+                                />
+                            )}
+                        </div>
+                    </div>
 
                     {isModifying && (
                         <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center rounded-lg">
                             <Spinner size="lg" />
-                            <p className="mt-4 text-white">Applying AI magic...</p>
+                            {modifyProgress === null ? (
+                                <p className="mt-4 text-white">Applying AI magic...</p>
+                            ) : (
+                                <>
+                                    <p className="mt-4 text-white">Upscaling... {Math.round(modifyProgress * 100)}%</p>
+                                    <div className="mt-2 w-48 h-1.5 bg-white/20 rounded-full overflow-hidden">
+                                        <div className="h-full bg-white transition-all" style={{ width: `${modifyProgress * 100}%` }} />
+                                    </div>
+                                </>
+                            )}
+                            <button onClick={onCancelModify} className="mt-4 px-4 py-2 rounded-lg bg-white/10 text-white text-sm font-semibold hover:bg-white/20 transition-colors">
+                                Cancel
+                            </button>
+                        </div>
+                    )}
+                    {specWarning && (
+                        <div className="absolute top-2 left-2 max-w-[70%] flex items-start space-x-2 bg-black/60 text-warning-dark text-xs px-3 py-2 rounded-lg" role="status">
+                            <ExclamationTriangleIcon className="w-4 h-4 flex-shrink-0" />
+                            <span>{specWarning}</span>
                         </div>
                     )}
                     <div className="absolute top-2 right-2 flex flex-col space-y-2">
@@ -147,7 +386,166 @@ const PosterDisplay: React.FC<PosterDisplayProps> = ({
                     </div>
                 </div>
                 
-                <div className="w-full">
+                <div className="w-full space-y-3">
+                    {modifyError && <ErrorNotice error={modifyError} onDismiss={onDismissModifyError} />}
+                    <div className="flex flex-wrap gap-2">
+                        <div className="relative">
+                            <button onClick={() => toggleMenu('upscale')} disabled={isModifying} className={toolbarButtonClass}>
+                                <span>Upscale</span>
+                                <ChevronDownIcon className="w-4 h-4" />
+                            </button>
+                            {openMenu === 'upscale' && (
+                                <div className={`${menuClass} w-56`}>
+                                    <button onClick={() => handleUpscaleClick(2)} className={menuItemClass}>2x</button>
+                                    <button onClick={() => handleUpscaleClick(4)} className={menuItemClass}>4x</button>
+                                    <div className="mt-1 pt-1 border-t border-border-light dark:border-border-dark">
+                                        {upscaleModelName ? (
+                                            <div className="flex items-center justify-between px-3 py-1.5 text-xs">
+                                                <span className="truncate" title={upscaleModelName}>Model: {upscaleModelName}</span>
+                                                <button onClick={onClearUpscaleModel} className="ml-2 hover:text-error-light dark:hover:text-error-dark" title="Use Lanczos instead">
+                                                    <XMarkIcon className="w-3 h-3" />
+                                                </button>
+                                            </div>
+                                        ) : (
+                                            <p className="px-3 py-1.5 text-xs text-subtext-light dark:text-subtext-dark">Method: Lanczos</p>
+                                        )}
+                                        <label className={`${menuItemClass} block cursor-pointer`}>
+                                            Load ONNX model...
+                                            <input type="file" accept=".onnx" className="hidden" onChange={handleModelFile} />
+                                        </label>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                        <div className="relative">
+                            <button onClick={() => toggleMenu('expand')} disabled={isModifying} className={toolbarButtonClass}>
+                                <span>Expand</span>
+                                <ChevronDownIcon className="w-4 h-4" />
+                            </button>
+                            {openMenu === 'expand' && (
+                                <div className={`${menuClass} w-72 space-y-3`}>
+                                    <div className="flex gap-1">
+                                        {expandModes.map(m => (
+                                            <button key={m.value} onClick={() => setExpandMode(m.value)} className={`flex-1 ${chipClass(expandMode === m.value)}`}>
+                                                {m.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    {expandMode === 'direction' && (
+                                        <>
+                                            <div>
+                                                <label className="block text-xs font-medium mb-1 text-subtext-light dark:text-subtext-dark">Direction</label>
+                                                <div className="flex flex-wrap gap-1">
+                                                    {expandDirections.map(d => (
+                                                        <button key={d.value} onClick={() => setExpandDirection(d.value)} className={chipClass(expandDirection === d.value)}>
+                                                            {d.label}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                            <div>
+                                                <label className="block text-xs font-medium mb-1 text-subtext-light dark:text-subtext-dark">Amount</label>
+                                                <div className="flex gap-1">
+                                                    {expandSizes.map(size => (
+                                                        <button key={size} onClick={() => setExpandSize(size)} className={`flex-1 ${chipClass(expandSize === size)}`}>
+                                                            {size}%
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        </>
+                                    )}
+                                    {expandMode === 'pixels' && (
+                                        <div className="grid grid-cols-2 gap-2">
+                                            {paddingSides.map(side => (
+                                                <label key={side} className="block text-xs font-medium text-subtext-light dark:text-subtext-dark">
+                                                    <span className="capitalize">{side}</span> (px)
+                                                    <input
+                                                        type="number"
+                                                        min={0}
+                                                        max={MAX_EXPAND_PIXELS}
+                                                        value={expandPadding[side]}
+                                                        onChange={(e) => setExpandPadding(prev => ({ ...prev, [side]: Math.max(0, Number(e.target.value) || 0) }))}
+                                                        className="mt-0.5 w-full p-1 bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-md text-sm text-text-light dark:text-text-dark focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none"
+                                                    />
+                                                </label>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {expandMode === 'aspectRatio' && (
+                                        <div>
+                                            <label className="block text-xs font-medium mb-1 text-subtext-light dark:text-subtext-dark">Extend the short side evenly to</label>
+                                            <div className="flex flex-wrap gap-1">
+                                                {aspectRatios.map(ratio => (
+                                                    <button key={ratio} onClick={() => setExpandAspectRatio(ratio)} className={chipClass(expandAspectRatio === ratio)}>
+                                                        {ratio}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    )}
+                                    <button
+                                        onClick={handleExpandClick}
+                                        disabled={expandMode === 'pixels' && isEmptyPadding(expandPadding)}
+                                        className="w-full bg-rose-candy dark:bg-primary-dark text-on-primary-light dark:text-on-primary-dark text-sm font-semibold py-1.5 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+                                    >
+                                        Expand
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                        <button onClick={onCrop} disabled={isModifying} className={toolbarButtonClass}>
+                            <CropIcon className="w-4 h-4" />
+                            <span>Crop</span>
+                        </button>
+                        <button
+                            onClick={toggleSelecting}
+                            disabled={isModifying}
+                            className={`${toolbarButtonClass} ${isSelecting ? 'ring-2 ring-primary-light dark:ring-primary-dark' : ''}`}
+                        >
+                            <PencilIcon className="w-4 h-4" />
+                            <span>Select Area</span>
+                        </button>
+                        <button onClick={onAddText} disabled={isModifying} className={toolbarButtonClass}>
+                            <TextIcon className="w-4 h-4" />
+                            <span>Add Text</span>
+                        </button>
+                        <button onClick={onExport} disabled={isModifying} className={`${toolbarButtonClass} ml-auto`}>
+                            <DownloadIcon className="w-4 h-4" />
+                            <span>Export</span>
+                        </button>
+                    </div>
+                    {isSelecting && (
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                            {(['add', 'erase'] as BrushMode[]).map(mode => (
+                                <button
+                                    key={mode}
+                                    onClick={() => setSelectionMode(mode)}
+                                    className={`px-2 py-1 rounded-md text-xs font-semibold transition-colors ${selectionMode === mode ? 'bg-rose-candy dark:bg-primary-dark text-on-primary-light dark:text-on-primary-dark' : 'bg-surface-light dark:bg-surface-dark hover:bg-border-light dark:hover:bg-border-dark'}`}
+                                >
+                                    {mode === 'add' ? 'Paint' : 'Erase'}
+                                </button>
+                            ))}
+                            <label className="flex items-center space-x-2 text-xs text-subtext-light dark:text-subtext-dark">
+                                <span>Brush</span>
+                                <input
+                                    type="range"
+                                    min="8"
+                                    max="160"
+                                    value={selectionBrush}
+                                    onChange={(e) => setSelectionBrush(Number(e.target.value))}
+                                    className="w-24 h-2 bg-border-light dark:bg-border-dark rounded-lg appearance-none cursor-pointer accent-primary-light dark:accent-primary-dark"
+                                />
+                            </label>
+                            <button onClick={clearSelection} disabled={!hasSelection} className="text-xs font-semibold text-subtext-light dark:text-subtext-dark hover:underline disabled:opacity-50">
+                                Clear
+                            </button>
+                            <span className="text-xs text-subtext-light dark:text-subtext-dark">
+                                {hasSelection ? 'Only the painted area will change.' : 'Paint the area to change.'}
+                            </span>
+                        </div>
+                    )}
+                    <TemplatePicker {...templatePicker} currentText={refinementPrompt} onApply={setRefinementPrompt} disabled={isModifying} />
                     <div className="flex space-x-2">
                         <input
                             type="text"
@@ -158,6 +556,17 @@ const PosterDisplay: React.FC<PosterDisplayProps> = ({
                             className="flex-grow bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark rounded-lg px-4 py-2 focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none transition"
                             disabled={isModifying}
                         />
+                        <select
+                            value={variationCount}
+                            onChange={(e) => setVariationCount(Number(e.target.value))}
+                            disabled={isModifying}
+                            title="Number of variations"
+                            className="bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark rounded-lg px-2 py-2 text-sm focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none"
+                        >
+                            {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(n => (
+                                <option key={n} value={n}>{n}x</option>
+                            ))}
+                        </select>
                         <button
                             onClick={handleRefineClick}
                             disabled={!refinementPrompt.trim() || isModifying}
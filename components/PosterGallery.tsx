@@ -1,13 +1,38 @@
 import React from 'react';
-import type { Poster } from '../types';
+import type { Poster, PosterOperation } from '../types';
+import { getChildren } from '../hooks/usePosterHistory';
+import { UndoIcon, RedoIcon } from './icons';
 
 interface PosterGalleryProps {
-  posters: Poster[]; // Expects an array of [current, previous]
+  posters: Poster[]; // Every version, linked into a tree through `parentId`
   activePosterId: string | null;
   onSelect: (posterId: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
-const PosterGallery: React.FC<PosterGalleryProps> = ({ posters, activePosterId, onSelect }) => {
+const operationLabels: Record<PosterOperation, string> = {
+  generate: 'Generated',
+  refine: 'Refined',
+  inpaint: 'Inpainted',
+  filter: 'Adjusted',
+  crop: 'Cropped',
+  upscale: 'Upscaled',
+  expand: 'Expanded',
+};
+
+// Deeper branches stop indenting so the panel stays readable.
+const MAX_INDENT = 4;
+
+// Flattens the version tree depth-first, oldest sibling first.
+const flattenTree = (posters: Poster[], parentId: string | null, depth: number): { poster: Poster; depth: number }[] =>
+  getChildren(posters, parentId)
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .flatMap(poster => [{ poster, depth }, ...flattenTree(posters, poster.id, depth + 1)]);
+
+const PosterGallery: React.FC<PosterGalleryProps> = ({ posters, activePosterId, onSelect, onUndo, onRedo, canUndo, canRedo }) => {
   if (posters.length === 0) {
     return (
         <div className="bg-surface-light dark:bg-surface-dark p-6 rounded-2xl shadow-sm border border-border-light dark:border-border-dark">
@@ -16,46 +41,43 @@ const PosterGallery: React.FC<PosterGalleryProps> = ({ posters, activePosterId,
         </div>
     );
   }
-  
-  const current = posters.find(p => p.id === activePosterId);
-  const history = posters.filter(p => p.id !== activePosterId);
-  const [previous] = history;
-
-  const currentPoster = posters[0];
-  const previousPoster = posters[1];
 
+  const rows = flattenTree(posters, null, 0);
 
   return (
     <div className="bg-surface-light dark:bg-surface-dark p-6 rounded-2xl shadow-sm border border-border-light dark:border-border-dark">
-      <h2 className="text-lg font-bold mb-4">
-        Your Edits
-      </h2>
-      <div className="grid grid-cols-2 gap-4">
-        {currentPoster && (
-             <div className="space-y-2">
-                <div 
-                    onClick={() => onSelect(currentPoster.id)}
-                    className={`relative aspect-square rounded-lg overflow-hidden border-2 cursor-pointer transition-colors ${activePosterId === currentPoster.id ? 'border-primary-light dark:border-primary-dark' : 'border-transparent hover:border-border-light dark:hover:border-border-dark'}`}
-                >
-                    <img src={currentPoster.src} alt="Current poster version" className="w-full h-full object-cover" />
-                </div>
-                 <p className="text-sm text-center font-semibold text-subtext-light dark:text-subtext-dark">Current</p>
-             </div>
-        )}
-        {previousPoster && (
-             <div className="space-y-2">
-                <div 
-                    onClick={() => onSelect(previousPoster.id)}
-                    className={`relative aspect-square rounded-lg overflow-hidden border-2 cursor-pointer transition-colors ${activePosterId === previousPoster.id ? 'border-primary-light dark:border-primary-dark' : 'border-transparent hover:border-border-light dark:hover:border-border-dark'}`}
-                >
-                    <img src={previousPoster.src} alt="Previous poster version" className="w-full h-full object-cover" />
-                </div>
-                 <p className="text-sm text-center font-semibold text-subtext-light dark:text-subtext-dark">Previous</p>
-             </div>
-        )}
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold">
+          Your Edits
+        </h2>
+        <div className="flex space-x-1">
+          <button onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)" className="p-1.5 rounded-md hover:bg-border-light dark:hover:bg-border-dark transition-colors disabled:opacity-40 disabled:hover:bg-transparent">
+            <UndoIcon className="w-5 h-5" />
+          </button>
+          <button onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="p-1.5 rounded-md hover:bg-border-light dark:hover:bg-border-dark transition-colors disabled:opacity-40 disabled:hover:bg-transparent">
+            <RedoIcon className="w-5 h-5" />
+          </button>
+        </div>
       </div>
+      <ul className="space-y-1 max-h-96 overflow-y-auto -mx-2 px-2">
+        {rows.map(({ poster, depth }) => (
+          <li key={poster.id} style={{ paddingLeft: `${Math.min(depth, MAX_INDENT) * 0.75}rem` }}>
+            <button
+              onClick={() => onSelect(poster.id)}
+              className={`w-full flex items-center space-x-3 p-1.5 rounded-lg border-2 text-left transition-colors ${activePosterId === poster.id ? 'border-primary-light dark:border-primary-dark' : 'border-transparent hover:border-border-light dark:hover:border-border-dark'}`}
+            >
+              <img src={poster.src} alt={`${operationLabels[poster.operation]} version`} className="w-12 h-12 flex-shrink-0 rounded-md object-cover" />
+              <div className="min-w-0">
+                <p className="text-sm font-semibold">{operationLabels[poster.operation]}</p>
+                <p className="text-xs truncate text-subtext-light dark:text-subtext-dark" title={poster.prompt}>{poster.prompt}</p>
+                <p className="text-xs text-subtext-light dark:text-subtext-dark">{new Date(poster.createdAt).toLocaleTimeString()}</p>
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
     </div>
   );
 };
 
-export default PosterGallery;
\ No newline at end of file
+export default PosterGallery;
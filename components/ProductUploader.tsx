@@ -1,7 +1,9 @@
 import React, { useRef, useState } from 'react';
-import type { Product, AspectRatio } from '../types';
-import { UploadIcon, TrashIcon, SwitchHorizontalIcon } from './icons';
+import type { Product, ProductHints, AspectRatio, AspectCorrectionMode, BackgroundRemovalMode } from '../types';
+import { UploadIcon, TrashIcon, SwitchHorizontalIcon, ResetIcon, PencilIcon, ChevronDownIcon, ChevronUpIcon } from './icons';
 import Spinner from './Spinner';
+import ErrorNotice from './ErrorNotice';
+import PlacementEditor from './PlacementEditor';
 
 interface ProductUploaderProps {
   products: Product[];
@@ -9,13 +11,35 @@ interface ProductUploaderProps {
   onProductRemove: (id: string) => void;
   aspectRatio: AspectRatio;
   onAspectRatioChange: (ratio: AspectRatio) => void;
+  aspectCorrection: AspectCorrectionMode;
+  onAspectCorrectionChange: (mode: AspectCorrectionMode) => void;
+  backgroundRemoval: BackgroundRemovalMode;
+  onBackgroundRemovalChange: (mode: BackgroundRemovalMode) => void;
+  onProductRetry: (id: string) => void;
+  onProductEditMask: (id: string) => void;
+  onProductHintsChange: (id: string, hints: ProductHints) => void;
 }
 
 const aspectRatios: AspectRatio[] = ['9:16', '1:1', '16:9', '3:4', '4:3'];
 
-const ProductUploader: React.FC<ProductUploaderProps> = ({ products, onFilesSelect, onProductRemove, aspectRatio, onAspectRatioChange }) => {
+const correctionModes: { value: AspectCorrectionMode, label: string }[] = [
+  { value: 'crop', label: 'Smart crop' },
+  { value: 'outpaint', label: 'Outpaint' },
+  { value: 'off', label: 'Off' },
+];
+
+const backgroundRemovalModes: { value: BackgroundRemovalMode, label: string }[] = [
+  { value: 'auto', label: 'AI, local fallback' },
+  { value: 'ai', label: 'AI only' },
+  { value: 'local', label: 'Local only' },
+];
+
+const selectClass = "bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none";
+
+const ProductUploader: React.FC<ProductUploaderProps> = ({ products, onFilesSelect, onProductRemove, aspectRatio, onAspectRatioChange, aspectCorrection, onAspectCorrectionChange, backgroundRemoval, onBackgroundRemovalChange, onProductRetry, onProductEditMask, onProductHintsChange }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [showOriginal, setShowOriginal] = useState<Record<string, boolean>>({});
+  const [showPlacement, setShowPlacement] = useState(false);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files) {
@@ -61,6 +85,32 @@ const ProductUploader: React.FC<ProductUploaderProps> = ({ products, onFilesSele
             </button>
           ))}
         </div>
+        <div className="flex items-center justify-between mt-3">
+          <label htmlFor="aspect-correction" className="text-sm font-medium">Fix off-ratio results</label>
+          <select
+            id="aspect-correction"
+            value={aspectCorrection}
+            onChange={(e) => onAspectCorrectionChange(e.target.value as AspectCorrectionMode)}
+            className={selectClass}
+          >
+            {correctionModes.map(mode => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center justify-between mt-3">
+          <label htmlFor="background-removal" className="text-sm font-medium">Background removal</label>
+          <select
+            id="background-removal"
+            value={backgroundRemoval}
+            onChange={(e) => onBackgroundRemovalChange(e.target.value as BackgroundRemovalMode)}
+            className={selectClass}
+          >
+            {backgroundRemovalModes.map(mode => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </select>
+        </div>
       </div>
 
       <label 
@@ -94,6 +144,11 @@ const ProductUploader: React.FC<ProductUploaderProps> = ({ products, onFilesSele
                 alt="Product" 
                 className="w-full h-full object-contain"
               />
+              {!product.processed && !product.isProcessing && (
+                <div className="absolute bottom-0 inset-x-0 bg-error-light dark:bg-error-dark text-white text-[10px] font-semibold text-center py-0.5">
+                  No cutout
+                </div>
+              )}
               {product.isProcessing && (
                 <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
                   <Spinner size="sm"/>
@@ -110,6 +165,26 @@ const ProductUploader: React.FC<ProductUploaderProps> = ({ products, onFilesSele
                         <SwitchHorizontalIcon className="w-4 h-4" />
                     </button>
                   )}
+                 {!product.isProcessing && (
+                    <button
+                        onClick={() => onProductEditMask(product.id)}
+                        className="bg-black/50 text-white p-1 rounded-full hover:bg-primary-light dark:hover:bg-primary-dark transition-colors"
+                        aria-label="Edit cutout"
+                        title="Edit cutout"
+                    >
+                        <PencilIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                 {!product.processed && !product.isProcessing && (
+                    <button
+                        onClick={() => onProductRetry(product.id)}
+                        className="bg-black/50 text-white p-1 rounded-full hover:bg-primary-light dark:hover:bg-primary-dark transition-colors"
+                        aria-label="Retry background removal"
+                        title="Retry background removal"
+                    >
+                        <ResetIcon className="w-4 h-4" />
+                    </button>
+                  )}
                   <button
                     onClick={() => onProductRemove(product.id)}
                     className="bg-black/50 text-white p-1 rounded-full hover:bg-error-light dark:hover:bg-error-dark transition-colors"
@@ -122,6 +197,35 @@ const ProductUploader: React.FC<ProductUploaderProps> = ({ products, onFilesSele
           ))}
         </div>
       )}
+      {products.length > 0 && (
+        <div className="mt-4">
+          <button
+            onClick={() => setShowPlacement(prev => !prev)}
+            className="w-full flex items-center justify-between text-sm font-medium"
+            aria-expanded={showPlacement}
+          >
+            <span>Placement hints</span>
+            {showPlacement ? <ChevronUpIcon className="w-4 h-4" /> : <ChevronDownIcon className="w-4 h-4" />}
+          </button>
+          {showPlacement && (
+            <div className="mt-2">
+              <PlacementEditor products={products} aspectRatio={aspectRatio} onHintsChange={onProductHintsChange} />
+            </div>
+          )}
+        </div>
+      )}
+      {products.some(p => p.error && !p.processed) && (
+        <div className="mt-4 space-y-2">
+          {products.map((product, index) => product.error && !product.processed && (
+            <ErrorNotice
+              key={product.id}
+              error={{ ...product.error, title: `Product ${index + 1}: ${product.error.title}` }}
+              onRetry={() => onProductRetry(product.id)}
+              compact
+            />
+          ))}
+        </div>
+      )}
     </div>
   );
 };
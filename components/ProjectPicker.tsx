@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import type { ProjectSummary } from '../services/projectStore';
+import { PlusIcon, PencilIcon, TrashIcon } from './icons';
+
+export interface ProjectPickerProps {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  onSwitch: (id: string) => void;
+  onNew: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const iconButtonClass = "p-1.5 rounded-md hover:bg-border-light dark:hover:bg-border-dark transition-colors disabled:opacity-40";
+
+const ProjectPicker: React.FC<ProjectPickerProps> = ({ projects, currentProjectId, onSwitch, onNew, onRename, onDelete }) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState('');
+  const current = projects.find(p => p.id === currentProjectId);
+
+  const startRename = () => {
+    if (!current) return;
+    setName(current.name);
+    setIsRenaming(true);
+  };
+
+  const commitRename = () => {
+    if (current && name.trim()) {
+      onRename(current.id, name);
+    }
+    setIsRenaming(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') commitRename();
+    if (e.key === 'Escape') setIsRenaming(false);
+  };
+
+  const handleDelete = () => {
+    if (current && window.confirm(`Delete "${current.name}"? This cannot be undone.`)) {
+      onDelete(current.id);
+    }
+  };
+
+  const inputClass = "w-40 sm:w-48 bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none";
+
+  return (
+    <div className="flex items-center space-x-1">
+      {isRenaming ? (
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={handleKeyDown}
+          aria-label="Project name"
+          className={inputClass}
+        />
+      ) : (
+        <select
+          value={currentProjectId || ''}
+          onChange={(e) => onSwitch(e.target.value)}
+          aria-label="Project"
+          className={inputClass}
+        >
+          {projects.map(project => (
+            <option key={project.id} value={project.id}>{project.name}</option>
+          ))}
+        </select>
+      )}
+      <button onClick={startRename} disabled={!current} title="Rename project" className={iconButtonClass}>
+        <PencilIcon className="w-4 h-4" />
+      </button>
+      <button onClick={() => onNew(`Project ${projects.length + 1}`)} title="New project" className={iconButtonClass}>
+        <PlusIcon className="w-4 h-4" />
+      </button>
+      <button onClick={handleDelete} disabled={!current} title="Delete project" className={iconButtonClass}>
+        <TrashIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default ProjectPicker;
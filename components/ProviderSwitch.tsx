@@ -0,0 +1,28 @@
+import React from 'react';
+import type { ImageProviderId } from '../services/providers';
+import { imageProviders } from '../services/providers';
+import { useImageProvider } from '../hooks/useImageProvider';
+
+const ProviderSwitch: React.FC = () => {
+  const { providerId, setProviderId } = useImageProvider();
+
+  return (
+    <label className="flex items-center space-x-2 text-sm">
+      <span className="hidden sm:inline text-subtext-light dark:text-subtext-dark">Model</span>
+      <select
+        value={providerId}
+        onChange={(e) => setProviderId(e.target.value as ImageProviderId)}
+        aria-label="Image model provider"
+        className="bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-md px-2 py-1 focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none"
+      >
+        {Object.values(imageProviders).map(provider => (
+          <option key={provider.id} value={provider.id} disabled={!provider.isAvailable()}>
+            {provider.label}{provider.isAvailable() ? '' : ' (no API key)'}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default ProviderSwitch;
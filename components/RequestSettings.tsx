@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { useImageProvider } from '../hooks/useImageProvider';
+import { ClockIcon } from './icons';
+
+const inputClass = "w-20 bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none";
+
+// Timeout and retry settings for model requests.
+const RequestSettings: React.FC = () => {
+  const { requestPolicy, setRequestPolicy } = useImageProvider();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        title="Request timeout and retries"
+        className="p-1.5 rounded-md hover:bg-border-light dark:hover:bg-border-dark transition-colors"
+      >
+        <ClockIcon className="w-5 h-5" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 p-3 space-y-3 rounded-lg shadow-lg bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark z-20 text-sm">
+          <label className="flex items-center justify-between">
+            <span>Timeout (seconds)</span>
+            <input
+              type="number"
+              min="10"
+              max="600"
+              value={Math.round(requestPolicy.timeoutMs / 1000)}
+              onChange={(e) => setRequestPolicy({ ...requestPolicy, timeoutMs: Math.min(600, Math.max(10, Number(e.target.value) || 10)) * 1000 })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center justify-between">
+            <span>Retries</span>
+            <input
+              type="number"
+              min="0"
+              max="6"
+              value={requestPolicy.maxRetries}
+              onChange={(e) => setRequestPolicy({ ...requestPolicy, maxRetries: Math.min(6, Math.max(0, Math.round(Number(e.target.value)) || 0)) })}
+              className={inputClass}
+            />
+          </label>
+          <p className="text-xs text-subtext-light dark:text-subtext-dark">
+            Rate limits and temporary errors are retried with increasing delays. The timeout applies to each attempt.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RequestSettings;
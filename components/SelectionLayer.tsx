@@ -0,0 +1,51 @@
+import React, { useRef } from 'react';
+import { paintStroke } from '../services/cutoutMask';
+import type { BrushMode, Point } from '../services/cutoutMask';
+
+interface SelectionLayerProps {
+  canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  width: number; // natural size of the poster, so resizing the view keeps the selection
+  height: number;
+  brushSize: number; // on screen, in CSS pixels
+  mode: BrushMode;
+  onPaint: () => void;
+}
+
+// Brush layer for selecting the area of the poster a refinement may change.
+const SelectionLayer: React.FC<SelectionLayerProps> = ({ canvasRef, width, height, brushSize, mode, onPaint }) => {
+  const lastPoint = useRef<Point | null>(null);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = width / rect.width;
+    return { point: { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale }, radius: (brushSize / 2) * scale };
+  };
+
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const { point, radius } = toCanvasPoint(e);
+    paintStroke(canvas, lastPoint.current ?? point, point, radius, 1, mode, '244, 63, 94');
+    lastPoint.current = point;
+    onPaint();
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+      onPointerDown={(e) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lastPoint.current = null;
+        paint(e);
+      }}
+      onPointerMove={(e) => { if (lastPoint.current) paint(e); }}
+      onPointerUp={() => { lastPoint.current = null; }}
+    />
+  );
+};
+
+export default SelectionLayer;
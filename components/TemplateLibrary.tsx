@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import type { PromptTemplate, PromptTemplateTarget } from '../types';
+import { exportTemplatePack, parseTemplatePack, extractVariables } from '../services/promptTemplates';
+import { SYSTEM_PROMPTS } from '../services/systemPrompts';
+import type { SystemPromptId, SystemPromptOverrides } from '../services/systemPrompts';
+import { downloadBlob } from '../services/exportService';
+import { XMarkIcon, TrashIcon, PlusIcon, UploadIcon, DownloadIcon } from './icons';
+
+interface TemplateLibraryProps {
+  templates: PromptTemplate[];
+  onCreate: (name: string, target: PromptTemplateTarget, text: string) => PromptTemplate;
+  onChange: (template: PromptTemplate) => void;
+  onDelete: (id: string) => void;
+  onImport: (templates: PromptTemplate[]) => void;
+  systemPromptOverrides: SystemPromptOverrides;
+  onSystemPromptChange: (id: SystemPromptId, text: string | null) => void;
+  onClose: () => void;
+}
+
+type Tab = 'templates' | 'system';
+
+const inputClass = "w-full p-2 bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-lg text-sm focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none transition";
+
+const buttonClass = "inline-flex items-center space-x-1 text-sm font-semibold px-3 py-1.5 rounded-md border border-border-light dark:border-border-dark hover:bg-border-light dark:hover:bg-border-dark transition-colors";
+
+const tabClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${active ? 'bg-rose-candy dark:bg-primary-dark text-on-primary-light dark:text-on-primary-dark' : 'hover:bg-border-light dark:hover:bg-border-dark'}`;
+
+const targetLabels: Record<PromptTemplateTarget, string> = { concept: 'Concept', refine: 'Refine' };
+
+const TemplateLibrary: React.FC<TemplateLibraryProps> = ({
+  templates, onCreate, onChange, onDelete, onImport, systemPromptOverrides, onSystemPromptChange, onClose,
+}) => {
+  const [tab, setTab] = useState<Tab>('templates');
+  const [selectedId, setSelectedId] = useState<string | null>(templates[0]?.id ?? null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const selected = templates.find(t => t.id === selectedId) || null;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Built-in templates are read-only; editing one starts from a copy.
+  const handleDuplicate = (template: PromptTemplate) => {
+    setSelectedId(onCreate(`${template.name} (copy)`, template.target, template.text).id);
+  };
+
+  const handleDelete = (template: PromptTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) return;
+    onDelete(template.id);
+    setSelectedId(null);
+  };
+
+  const handleExport = () => {
+    const saved = templates.filter(t => !t.builtIn);
+    downloadBlob(new Blob([exportTemplatePack(saved)], { type: 'application/json' }), 'prompt-templates.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseTemplatePack(await file.text());
+      onImport(imported);
+      setImportMessage(`Imported ${imported.length} template${imported.length === 1 ? '' : 's'}.`);
+    } catch (err: any) {
+      setImportMessage(err.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="relative bg-surface-light dark:bg-surface-dark p-6 rounded-2xl shadow-lg w-full max-w-3xl max-h-full flex flex-col space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <div className="flex items-center space-x-2">
+            <h3 className="text-xl font-bold mr-2">Prompt Templates</h3>
+            <button onClick={() => setTab('templates')} className={tabClass(tab === 'templates')}>Templates</button>
+            <button onClick={() => setTab('system')} className={tabClass(tab === 'system')}>System prompts</button>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-border-light dark:hover:bg-border-dark transition-colors" aria-label="Close">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {tab === 'templates' && (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={() => setSelectedId(onCreate('New template', 'concept', '').id)} className={buttonClass}>
+                <PlusIcon className="w-4 h-4" />
+                <span>New</span>
+              </button>
+              <label className={`${buttonClass} cursor-pointer`}>
+                <UploadIcon className="w-4 h-4" />
+                <span>Import pack</span>
+                <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+              </label>
+              <button onClick={handleExport} disabled={templates.every(t => t.builtIn)} className={`${buttonClass} disabled:opacity-50`}>
+                <DownloadIcon className="w-4 h-4" />
+                <span>Export saved</span>
+              </button>
+              {importMessage && <span className="text-xs text-subtext-light dark:text-subtext-dark">{importMessage}</span>}
+            </div>
+
+            <div className="flex-grow min-h-0 grid grid-cols-1 md:grid-cols-3 gap-4">
+              <ul className="md:col-span-1 overflow-y-auto max-h-96 space-y-1">
+                {templates.map(t => (
+                  <li key={t.id}>
+                    <button
+                      onClick={() => setSelectedId(t.id)}
+                      className={`w-full text-left px-2 py-1.5 rounded-md text-sm transition-colors ${selectedId === t.id ? 'bg-border-light dark:bg-border-dark' : 'hover:bg-border-light dark:hover:bg-border-dark'}`}
+                    >
+                      <span className="block font-semibold truncate">{t.name}</span>
+                      <span className="block text-xs text-subtext-light dark:text-subtext-dark">
+                        {targetLabels[t.target]}{t.builtIn ? ' · built-in' : ''}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              {selected ? (
+                <div className="md:col-span-2 space-y-3">
+                  <input
+                    value={selected.name}
+                    onChange={(e) => onChange({ ...selected, name: e.target.value })}
+                    disabled={selected.builtIn}
+                    aria-label="Template name"
+                    className={inputClass}
+                  />
+                  <select
+                    value={selected.target}
+                    onChange={(e) => onChange({ ...selected, target: e.target.value as PromptTemplateTarget })}
+                    disabled={selected.builtIn}
+                    aria-label="Template use"
+                    className={inputClass}
+                  >
+                    <option value="concept">Poster concept</option>
+                    <option value="refine">Refinement</option>
+                  </select>
+                  <textarea
+                    value={selected.text}
+                    onChange={(e) => onChange({ ...selected, text: e.target.value })}
+                    disabled={selected.builtIn}
+                    rows={6}
+                    aria-label="Template text"
+                    className={inputClass}
+                  />
+                  <p className="text-xs text-subtext-light dark:text-subtext-dark">
+                    Use {'{{name}}'} for variables, e.g. {'{{product}}'}, {'{{season}}'} or {'{{offer}}'}.
+                    {extractVariables(selected.text).length > 0 && ` Variables: ${extractVariables(selected.text).join(', ')}.`}
+                  </p>
+                  <div className="flex space-x-2">
+                    <button onClick={() => handleDuplicate(selected)} className={buttonClass}>Duplicate</button>
+                    {!selected.builtIn && (
+                      <button onClick={() => handleDelete(selected)} className={`${buttonClass} text-error-light dark:text-error-dark`}>
+                        <TrashIcon className="w-4 h-4" />
+                        <span>Delete</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ) : (
+                <p className="md:col-span-2 text-sm text-subtext-light dark:text-subtext-dark">Select a template to view or edit it.</p>
+              )}
+            </div>
+          </>
+        )}
+
+        {tab === 'system' && (
+          <div className="overflow-y-auto space-y-4 pr-1">
+            <p className="text-sm text-subtext-light dark:text-subtext-dark">
+              These prompts wrap your own text before it is sent to the model. Variables are filled in by the app.
+            </p>
+            {(Object.keys(SYSTEM_PROMPTS) as SystemPromptId[]).map(id => {
+              const definition = SYSTEM_PROMPTS[id];
+              const override = systemPromptOverrides[id];
+              return (
+                <div key={id} className="space-y-1">
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm font-semibold">
+                      {definition.label}
+                      {override !== undefined && <span className="ml-2 text-xs font-normal text-warning-light dark:text-warning-dark">customized</span>}
+                    </label>
+                    {override !== undefined && (
+                      <button onClick={() => onSystemPromptChange(id, null)} className="text-xs font-semibold hover:underline">Reset to default</button>
+                    )}
+                  </div>
+                  <textarea
+                    value={override ?? definition.text}
+                    onChange={(e) => onSystemPromptChange(id, e.target.value)}
+                    rows={Math.min(8, definition.text.split('\n').length + 2)}
+                    className={`${inputClass} font-mono text-xs`}
+                  />
+                  {definition.variables.length > 0 && (
+                    <p className="text-xs text-subtext-light dark:text-subtext-dark">
+                      Variables: {definition.variables.map(v => `{{${v}}}`).join(', ')}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TemplateLibrary;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import type { PromptTemplate } from '../types';
+import { extractVariables, fillTemplate } from '../services/promptTemplates';
+import { PlusIcon, PencilIcon } from './icons';
+
+export interface TemplatePickerProps {
+  templates: PromptTemplate[]; // only those for this prompt box
+  currentText: string;
+  values: Record<string, string>;
+  onValuesChange: (values: Record<string, string>) => void;
+  onApply: (text: string) => void;
+  onSave: (name: string, text: string) => void;
+  onManage: () => void;
+  disabled?: boolean;
+}
+
+// What a prompt box passes through; it supplies its own text and how to apply a template.
+export type TemplatePickerOptions = Omit<TemplatePickerProps, 'currentText' | 'onApply' | 'disabled'>;
+
+const controlClass = "bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none";
+
+const iconButtonClass = "p-1.5 rounded-md hover:bg-border-light dark:hover:bg-border-dark transition-colors disabled:opacity-40";
+
+// Fills a prompt box from a template. Templates with variables ask for their values first.
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ templates, currentText, values, onValuesChange, onApply, onSave, onManage, disabled }) => {
+  const [selected, setSelected] = useState<PromptTemplate | null>(null);
+  const variables = selected ? extractVariables(selected.text) : [];
+
+  const handleSelect = (id: string) => {
+    const template = templates.find(t => t.id === id) || null;
+    if (template && extractVariables(template.text).length === 0) {
+      onApply(template.text);
+      setSelected(null);
+    } else {
+      setSelected(template);
+    }
+  };
+
+  const handleApply = () => {
+    if (!selected) return;
+    onApply(fillTemplate(selected.text, values));
+    setSelected(null);
+  };
+
+  const handleSave = () => {
+    const name = window.prompt('Template name');
+    if (name?.trim()) onSave(name.trim(), currentText);
+  };
+
+  const builtIns = templates.filter(t => t.builtIn);
+  const saved = templates.filter(t => !t.builtIn);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-1">
+        <select
+          value={selected?.id || ''}
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={disabled}
+          aria-label="Prompt template"
+          className={`flex-grow min-w-0 ${controlClass}`}
+        >
+          <option value="">Use a template…</option>
+          <optgroup label="Built-in styles">
+            {builtIns.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </optgroup>
+          {saved.length > 0 && (
+            <optgroup label="Saved">
+              {saved.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button onClick={handleSave} disabled={disabled || !currentText.trim()} title="Save as template" className={iconButtonClass}>
+          <PlusIcon className="w-4 h-4" />
+        </button>
+        <button onClick={onManage} title="Manage templates" className={iconButtonClass}>
+          <PencilIcon className="w-4 h-4" />
+        </button>
+      </div>
+      {selected && variables.length > 0 && (
+        <div className="p-2 rounded-lg border border-border-light dark:border-border-dark space-y-2">
+          {variables.map(name => (
+            <label key={name} className="flex items-center justify-between space-x-2 text-sm">
+              <span className="text-subtext-light dark:text-subtext-dark">{name}</span>
+              <input
+                value={values[name] || ''}
+                onChange={(e) => onValuesChange({ ...values, [name]: e.target.value })}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleApply(); }}
+                className={`w-2/3 ${controlClass}`}
+              />
+            </label>
+          ))}
+          <div className="flex justify-end space-x-2">
+            <button onClick={() => setSelected(null)} className="text-xs font-semibold hover:underline">Cancel</button>
+            <button onClick={handleApply} className="text-xs font-semibold px-2 py-1 rounded-md bg-rose-candy dark:bg-primary-dark text-on-primary-light dark:text-on-primary-dark hover:opacity-90 transition-opacity">
+              Use template
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplatePicker;
@@ -0,0 +1,101 @@
+import React, { useRef } from 'react';
+import type { TextOverlay } from '../types';
+import { LINE_HEIGHT, SHADOW } from '../services/textOverlay';
+
+interface TextOverlayLayerProps {
+  overlays: TextOverlay[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (overlay: TextOverlay) => void;
+  disabled: boolean;
+}
+
+// Renders the text overlays of a poster as DOM elements sized in container query
+// units, so they scale with the displayed poster exactly like the exported raster.
+const TextOverlayLayer: React.FC<TextOverlayLayerProps> = ({ overlays, selectedId, onSelect, onChange, disabled }) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+
+  const startInteraction = (
+    e: React.MouseEvent,
+    onMove: (e: MouseEvent, rect: DOMRect) => void,
+  ) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const layer = layerRef.current;
+    if (!layer || disabled) return;
+    const rect = layer.getBoundingClientRect();
+
+    const moveHandler = (moveEvent: MouseEvent) => onMove(moveEvent, rect);
+    const upHandler = () => {
+      document.removeEventListener('mousemove', moveHandler);
+      document.removeEventListener('mouseup', upHandler);
+    };
+    document.addEventListener('mousemove', moveHandler);
+    document.addEventListener('mouseup', upHandler);
+  };
+
+  const handleDragStart = (e: React.MouseEvent, overlay: TextOverlay) => {
+    onSelect(overlay.id);
+    const startX = e.clientX;
+    const startY = e.clientY;
+    startInteraction(e, (moveEvent, rect) => {
+      const x = overlay.x + (moveEvent.clientX - startX) / rect.width;
+      const y = overlay.y + (moveEvent.clientY - startY) / rect.height;
+      onChange({ ...overlay, x: Math.min(1, Math.max(0, x)), y: Math.min(1, Math.max(0, y)) });
+    });
+  };
+
+  const handleRotateStart = (e: React.MouseEvent, overlay: TextOverlay) => {
+    startInteraction(e, (moveEvent, rect) => {
+      const centerX = rect.left + overlay.x * rect.width;
+      const centerY = rect.top + overlay.y * rect.height;
+      // The handle sits above the text, so pointing straight up means no rotation.
+      const angle = Math.atan2(moveEvent.clientY - centerY, moveEvent.clientX - centerX) * 180 / Math.PI + 90;
+      const snapped = Math.abs(angle % 90) < 4 ? Math.round(angle / 90) * 90 : angle;
+      onChange({ ...overlay, rotation: Math.round(((snapped + 540) % 360) - 180) });
+    });
+  };
+
+  return (
+    <div
+      ref={layerRef}
+      className="absolute inset-0"
+      style={{ containerType: 'size' }}
+      onMouseDown={() => onSelect(null)}
+    >
+      {overlays.map(overlay => {
+        const isSelected = overlay.id === selectedId && !disabled;
+        return (
+          <div
+            key={overlay.id}
+            onMouseDown={(e) => handleDragStart(e, overlay)}
+            className={`absolute select-none whitespace-pre ${disabled ? '' : 'cursor-move'} ${isSelected ? 'outline-dashed outline-2 outline-white/80' : ''}`}
+            style={{
+              left: `${overlay.x * 100}%`,
+              top: `${overlay.y * 100}%`,
+              transform: `translate(-50%, -50%) rotate(${overlay.rotation}deg)`,
+              fontFamily: overlay.fontFamily,
+              fontWeight: overlay.fontWeight,
+              fontSize: `${overlay.fontSize * 100}cqw`,
+              lineHeight: LINE_HEIGHT,
+              color: overlay.color,
+              textAlign: overlay.align,
+              textShadow: overlay.shadow ? `0 ${SHADOW.offsetY}em ${SHADOW.blur}em ${SHADOW.color}` : undefined,
+            }}
+          >
+            {overlay.text || ' '}
+            {isSelected && (
+              <span
+                onMouseDown={(e) => handleRotateStart(e, overlay)}
+                className="absolute left-1/2 -top-6 -translate-x-1/2 w-3 h-3 bg-white rounded-full border-2 border-primary-dark cursor-grab"
+                title="Rotate"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TextOverlayLayer;
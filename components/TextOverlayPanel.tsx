@@ -0,0 +1,109 @@
+import React from 'react';
+import type { TextAlign, TextOverlay } from '../types';
+import { OVERLAY_FONTS } from '../services/textOverlay';
+import { TrashIcon } from './icons';
+
+interface TextOverlayPanelProps {
+  overlays: TextOverlay[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onChange: (overlay: TextOverlay) => void;
+  onDelete: (id: string) => void;
+  extraFonts: string[]; // e.g. the active brand kit's typography
+}
+
+const alignments: TextAlign[] = ['left', 'center', 'right'];
+
+const inputClass = "w-full p-2 bg-bkg-light dark:bg-bkg-dark border border-border-light dark:border-border-dark rounded-lg text-sm focus:ring-2 focus:ring-primary-light dark:focus:ring-primary-dark focus:outline-none transition";
+
+const chipClass = (selected: boolean) =>
+  `flex-1 px-2 py-1 rounded-md text-xs font-semibold capitalize transition-colors ${selected ? 'bg-rose-candy dark:bg-primary-dark text-on-primary-light dark:text-on-primary-dark' : 'bg-bkg-light dark:bg-bkg-dark hover:bg-border-light dark:hover:bg-border-dark'}`;
+
+const TextOverlayPanel: React.FC<TextOverlayPanelProps> = ({ overlays, selectedId, onSelect, onChange, onDelete, extraFonts }) => {
+  const selected = overlays.find(o => o.id === selectedId);
+  const fonts = [...OVERLAY_FONTS, ...extraFonts.map(font => ({ label: font, value: `"${font}", sans-serif` }))];
+
+  const update = (changes: Partial<TextOverlay>) => {
+    if (selected) onChange({ ...selected, ...changes });
+  };
+
+  return (
+    <div className="bg-surface-light dark:bg-surface-dark p-6 rounded-2xl shadow-sm border border-border-light dark:border-border-dark">
+      <h2 className="text-lg font-bold mb-4">Text</h2>
+      {overlays.length === 0 ? (
+        <p className="text-sm text-subtext-light dark:text-subtext-dark">Use "Add Text" to place editable text on the poster.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {overlays.map(overlay => (
+              <button key={overlay.id} onClick={() => onSelect(overlay.id)} className={`max-w-full truncate ${chipClass(overlay.id === selectedId)} flex-none`}>
+                {overlay.text.split('\n')[0] || 'Empty text'}
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <>
+              <textarea value={selected.text} onChange={(e) => update({ text: e.target.value })} rows={2} className={inputClass} />
+
+              <div className="flex space-x-2">
+                <select value={selected.fontFamily} onChange={(e) => update({ fontFamily: e.target.value })} className={inputClass} aria-label="Font">
+                  {fonts.map(font => (
+                    <option key={font.value} value={font.value}>{font.label}</option>
+                  ))}
+                </select>
+                <input type="color" value={selected.color} onChange={(e) => update({ color: e.target.value })} className="w-10 h-10 flex-shrink-0 rounded cursor-pointer bg-transparent" aria-label="Text color" />
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <label className="text-sm font-medium">Size</label>
+                  <span className="text-xs text-subtext-light dark:text-subtext-dark">{Math.round(selected.fontSize * 100)}</span>
+                </div>
+                <input
+                  type="range"
+                  min="1"
+                  max="30"
+                  value={Math.round(selected.fontSize * 100)}
+                  onChange={(e) => update({ fontSize: Number(e.target.value) / 100 })}
+                  className="w-full h-2 bg-border-light dark:bg-border-dark rounded-lg appearance-none cursor-pointer accent-primary-light dark:accent-primary-dark"
+                />
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <label className="text-sm font-medium">Rotation</label>
+                  <span className="text-xs text-subtext-light dark:text-subtext-dark">{selected.rotation}°</span>
+                </div>
+                <input
+                  type="range"
+                  min="-180"
+                  max="180"
+                  value={selected.rotation}
+                  onChange={(e) => update({ rotation: Number(e.target.value) })}
+                  className="w-full h-2 bg-border-light dark:bg-border-dark rounded-lg appearance-none cursor-pointer accent-primary-light dark:accent-primary-dark"
+                />
+              </div>
+
+              <div className="flex space-x-1">
+                {alignments.map(align => (
+                  <button key={align} onClick={() => update({ align })} className={chipClass(selected.align === align)}>{align}</button>
+                ))}
+              </div>
+
+              <div className="flex space-x-1">
+                <button onClick={() => update({ fontWeight: selected.fontWeight === 'bold' ? 'normal' : 'bold' })} className={chipClass(selected.fontWeight === 'bold')}>Bold</button>
+                <button onClick={() => update({ shadow: !selected.shadow })} className={chipClass(selected.shadow)}>Shadow</button>
+                <button onClick={() => onDelete(selected.id)} title="Delete text" className="p-1.5 rounded-md hover:bg-border-light dark:hover:bg-border-dark transition-colors">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TextOverlayPanel;
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+
+interface VariationCompareProps {
+  before: string;
+  after: string;
+}
+
+type CompareMode = 'swipe' | 'onion';
+
+// Shows a variation over the current poster, either revealed up to a divider or blended in.
+const VariationCompare: React.FC<VariationCompareProps> = ({ before, after }) => {
+  const [mode, setMode] = useState<CompareMode>('swipe');
+  const [position, setPosition] = useState(50);
+
+  const afterStyle: React.CSSProperties = mode === 'swipe'
+    ? { clipPath: `inset(0 ${100 - position}% 0 0)` }
+    : { opacity: position / 100 };
+
+  return (
+    <div className="w-full h-full flex flex-col min-h-0">
+      <div className="flex-grow relative min-h-0 flex items-center justify-center">
+        <div className="relative max-w-full max-h-full">
+          <img src={before} alt="Current poster" className="block max-w-full max-h-[calc(100vh-25rem)] object-contain rounded-lg" />
+          <img src={after} alt="Variation" className="absolute inset-0 w-full h-full object-contain rounded-lg" style={afterStyle} />
+          {mode === 'swipe' && (
+            <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${position}%` }} />
+          )}
+          <span className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-1 rounded">Variation</span>
+          <span className="absolute top-2 right-2 bg-black/60 text-white text-xs px-2 py-1 rounded">Current</span>
+        </div>
+      </div>
+      <div className="flex items-center space-x-3 mt-3">
+        <div className="flex space-x-1">
+          {(['swipe', 'onion'] as CompareMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-2 py-1 rounded-md text-xs font-semibold transition-colors ${mode === m ? 'bg-rose-candy dark:bg-primary-dark text-on-primary-light dark:text-on-primary-dark' : 'bg-surface-light dark:bg-surface-dark hover:bg-border-light dark:hover:bg-border-dark'}`}
+            >
+              {m === 'swipe' ? 'Swipe' : 'Onion skin'}
+            </button>
+          ))}
+        </div>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={position}
+          onChange={(e) => setPosition(Number(e.target.value))}
+          className="flex-grow h-2 bg-border-light dark:bg-border-dark rounded-lg appearance-none cursor-pointer accent-primary-light dark:accent-primary-dark"
+          aria-label={mode === 'swipe' ? 'Divider position' : 'Variation opacity'}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default VariationCompare;
@@ -0,0 +1,11 @@
+import type { AspectRatio } from './types';
+
+export const aspectRatiosMap: Record<AspectRatio, number> = {
+    '9:16': 9 / 16,
+    '1:1': 1,
+    '16:9': 16 / 9,
+    '3:4': 3 / 4,
+    '4:3': 4 / 3,
+};
+
+export const aspectRatios = Object.keys(aspectRatiosMap) as AspectRatio[];
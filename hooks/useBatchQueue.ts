@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { AspectCorrectionMode, AspectRatio, BatchJob, Campaign, Product } from '../types';
+import { generatePoster } from '../services/geminiService';
+import { srcToImageInput } from '../services/canvasUtils';
+import { enforceAspectRatio } from '../services/aspectRatioService';
+import { toErrorReport } from '../services/aiErrors';
+import { isCancelled } from '../services/requestPolicy';
+
+export interface CampaignRequest {
+  name: string;
+  concepts: string[];
+  aspectRatios: AspectRatio[];
+  productSubsets: string[][]; // each entry is a list of product ids
+  posterText: string;
+}
+
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Runs batch poster generation. A campaign expands into one job per
+ * concept × aspect ratio × product subset, and at most `concurrency` jobs run at once.
+ */
+export const useBatchQueue = (products: Product[], concurrency: number, aspectCorrection: AspectCorrectionMode) => {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+
+  // Jobs read the products at the time they start, not when they were queued.
+  const productsRef = useRef(products);
+  productsRef.current = products;
+  const aspectCorrectionRef = useRef(aspectCorrection);
+  aspectCorrectionRef.current = aspectCorrection;
+  // The running jobs by id, so a removed campaign can abort its requests.
+  const runningJobs = useRef(new Map<string, { campaignId: string; controller: AbortController }>());
+
+  const updateJob = useCallback((id: string, changes: Partial<BatchJob>) => {
+    setJobs(prev => prev.map(j => j.id === id ? { ...j, ...changes } : j));
+  }, []);
+
+  const runJob = useCallback(async (job: BatchJob) => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    runningJobs.current.set(job.id, { campaignId: job.campaignId, controller });
+    try {
+      const jobProducts = productsRef.current.filter(p => job.productIds.includes(p.id) && p.processed);
+      if (jobProducts.length === 0) {
+        throw new Error('None of the products for this job are available anymore.');
+      }
+      const productData = await Promise.all(jobProducts.map(async p => ({ ...await srcToImageInput(p.processed!), hints: p.hints })));
+      const posterBase64 = await generatePoster(productData, job.concept, job.aspectRatio, [], job.posterText, signal);
+      const { base64, specCheck } = await enforceAspectRatio(posterBase64, 'image/jpeg', job.aspectRatio, aspectCorrectionRef.current, signal);
+      signal.throwIfAborted();
+      updateJob(job.id, { status: 'done', result: `data:image/jpeg;base64,${base64}`, specCheck, finishedAt: Date.now() });
+    } catch (err) {
+      if (isCancelled(err)) return;
+      console.error(err);
+      updateJob(job.id, { status: 'failed', error: toErrorReport(err), finishedAt: Date.now() });
+    } finally {
+      if (runningJobs.current.get(job.id)?.controller === controller) runningJobs.current.delete(job.id);
+    }
+  }, [updateJob]);
+
+  // Start queued jobs whenever a slot frees up.
+  useEffect(() => {
+    const running = jobs.filter(j => j.status === 'running').length;
+    const next = jobs.filter(j => j.status === 'queued').slice(0, Math.max(0, concurrency - running));
+    if (next.length === 0) return;
+
+    const startedAt = Date.now();
+    const started = next.map(j => ({ ...j, status: 'running' as const, attempts: j.attempts + 1, startedAt, finishedAt: null, error: null }));
+    setJobs(prev => prev.map(j => started.find(s => s.id === j.id) || j));
+    started.forEach(runJob);
+  }, [jobs, concurrency, runJob]);
+
+  const queueCampaign = useCallback((request: CampaignRequest) => {
+    const campaign: Campaign = { id: newId('campaign'), name: request.name, createdAt: Date.now() };
+    const newJobs: BatchJob[] = [];
+    for (const concept of request.concepts) {
+      for (const aspectRatio of request.aspectRatios) {
+        for (const productIds of request.productSubsets) {
+          newJobs.push({
+            id: newId('job'),
+            campaignId: campaign.id,
+            concept,
+            aspectRatio,
+            productIds,
+            posterText: request.posterText,
+            status: 'queued',
+            attempts: 0,
+            startedAt: null,
+            finishedAt: null,
+            result: null,
+            specCheck: null,
+            error: null,
+          });
+        }
+      }
+    }
+    setCampaigns(prev => [campaign, ...prev]);
+    setJobs(prev => [...prev, ...newJobs]);
+  }, []);
+
+  const retryJob = useCallback((id: string) => {
+    updateJob(id, { status: 'queued', error: null, result: null, specCheck: null });
+  }, [updateJob]);
+
+  // Removes a campaign and its jobs, aborting the ones still running.
+  const removeCampaign = useCallback((id: string) => {
+    for (const [jobId, { campaignId, controller }] of runningJobs.current) {
+      if (campaignId !== id) continue;
+      controller.abort();
+      runningJobs.current.delete(jobId);
+    }
+    setCampaigns(prev => prev.filter(c => c.id !== id));
+    setJobs(prev => prev.filter(j => j.campaignId !== id));
+  }, []);
+
+  // Drops every campaign, aborting the running jobs. Used when the products they were queued for go away.
+  const clearQueue = useCallback(() => {
+    runningJobs.current.forEach(({ controller }) => controller.abort());
+    runningJobs.current.clear();
+    setCampaigns([]);
+    setJobs([]);
+  }, []);
+
+  return { campaigns, jobs, queueCampaign, retryJob, removeCampaign, clearQueue };
+};
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { BrandKit } from '../types';
+import { listBrandKits, saveBrandKit, deleteBrandKit, toBrandKitInput } from '../services/brandKitStore';
+import { setActiveBrandKit } from '../services/geminiService';
+
+const ACTIVE_KIT_KEY = 'ai-edit:brand-kit';
+const SAVE_DELAY_MS = 500;
+
+/**
+ * Loads the stored brand kits and keeps the active one applied to the image
+ * service. Edits update the UI immediately and are written to storage shortly after.
+ */
+export const useBrandKits = (onError: (message: string) => void) => {
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [activeBrandKitId, setActiveBrandKitId] = useState<string | null>(() => window.localStorage.getItem(ACTIVE_KIT_KEY));
+  const saveTimers = useRef(new Map<string, number>());
+
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    listBrandKits()
+      .then(setBrandKits)
+      .catch(err => {
+        console.error(err);
+        onErrorRef.current('Brand kits could not be loaded.');
+      });
+  }, []);
+
+  const activeBrandKit = brandKits.find(k => k.id === activeBrandKitId) || null;
+
+  useEffect(() => {
+    if (activeBrandKitId) {
+      window.localStorage.setItem(ACTIVE_KIT_KEY, activeBrandKitId);
+    } else {
+      window.localStorage.removeItem(ACTIVE_KIT_KEY);
+    }
+  }, [activeBrandKitId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!activeBrandKit) {
+      setActiveBrandKit(null);
+      return;
+    }
+    toBrandKitInput(activeBrandKit)
+      .then(input => { if (!cancelled) setActiveBrandKit(input); })
+      .catch(err => console.error(err));
+    return () => { cancelled = true; };
+  }, [activeBrandKit]);
+
+  const scheduleSave = useCallback((kit: BrandKit) => {
+    window.clearTimeout(saveTimers.current.get(kit.id));
+    saveTimers.current.set(kit.id, window.setTimeout(() => {
+      saveTimers.current.delete(kit.id);
+      saveBrandKit(kit).catch(err => {
+        console.error(err);
+        onErrorRef.current(`The brand kit "${kit.name}" could not be saved.`);
+      });
+    }, SAVE_DELAY_MS));
+  }, []);
+
+  const updateBrandKit = useCallback((kit: BrandKit) => {
+    setBrandKits(prev => prev.map(k => k.id === kit.id ? kit : k));
+    scheduleSave(kit);
+  }, [scheduleSave]);
+
+  const createBrandKit = useCallback(() => {
+    const kit: BrandKit = {
+      id: `brand-${Date.now()}`,
+      name: 'New brand',
+      colors: [],
+      logos: [],
+      fonts: [],
+      tone: '',
+    };
+    setBrandKits(prev => [...prev, kit]);
+    setActiveBrandKitId(kit.id);
+    scheduleSave(kit);
+  }, [scheduleSave]);
+
+  const removeBrandKit = useCallback((id: string) => {
+    window.clearTimeout(saveTimers.current.get(id));
+    saveTimers.current.delete(id);
+    setBrandKits(prev => prev.filter(k => k.id !== id));
+    setActiveBrandKitId(current => current === id ? null : current);
+    deleteBrandKit(id).catch(err => console.error(err));
+  }, []);
+
+  return {
+    brandKits,
+    activeBrandKit,
+    setActiveBrandKitId,
+    createBrandKit,
+    updateBrandKit,
+    removeBrandKit,
+  };
+};
@@ -0,0 +1,70 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import type { CreativeBrief, ErrorReport, Product } from '../types';
+import type { ImageInput } from '../services/providers/types';
+import { suggestConcepts, enhanceConcept } from '../services/geminiService';
+import { srcToImageInput } from '../services/canvasUtils';
+import { isCancelled } from '../services/requestPolicy';
+import { toErrorReport } from '../services/aiErrors';
+
+const SUGGESTION_COUNT = 4;
+
+type AssistantStatus = 'idle' | 'suggesting' | 'enhancing';
+
+/**
+ * Asks the text model for poster concepts based on the processed product images,
+ * and rewrites short concepts into detailed ones. Only one request runs at a time.
+ */
+export const useConceptAssistant = (products: Product[]) => {
+  const [briefs, setBriefs] = useState<CreativeBrief[]>([]);
+  const [status, setStatus] = useState<AssistantStatus>('idle');
+  const [error, setError] = useState<ErrorReport | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // Runs `task` as the current request; resolves to null when it fails or is replaced.
+  const run = useCallback(async <T>(nextStatus: AssistantStatus, task: (images: ImageInput[], signal: AbortSignal) => Promise<T>): Promise<T | null> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setStatus(nextStatus);
+    setError(null);
+    try {
+      const images = await Promise.all(products.filter(p => p.processed).map(p => srcToImageInput(p.processed!)));
+      const result = await task(images, controller.signal);
+      controller.signal.throwIfAborted();
+      return result;
+    } catch (err) {
+      if (!isCancelled(err) && controllerRef.current === controller) {
+        setError(toErrorReport(err));
+      }
+      return null;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setStatus('idle');
+      }
+    }
+  }, [products]);
+
+  const suggest = useCallback(async () => {
+    const result = await run('suggesting', (images, signal) => suggestConcepts(images, SUGGESTION_COUNT, signal));
+    if (result) setBriefs(result);
+  }, [run]);
+
+  const enhance = useCallback((concept: string) =>
+    run('enhancing', (images, signal) => enhanceConcept(concept, images, signal)), [run]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setStatus('idle');
+  }, []);
+
+  const dismissError = useCallback(() => setError(null), []);
+  const clearBriefs = useCallback(() => setBriefs([]), []);
+
+  return { briefs, status, error, suggest, enhance, cancel, dismissError, clearBriefs };
+};
+
+export type ConceptAssistant = ReturnType<typeof useConceptAssistant>;
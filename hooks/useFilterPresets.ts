@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import type { FilterPreset, ImageFilters } from '../types';
+import { listPresets, savePreset, deletePreset } from '../services/presetStore';
+import { BUILT_IN_LOOKS, newPresetId } from '../services/filterPresets';
+
+/** Loads the saved filter presets next to the built-in looks. */
+export const useFilterPresets = (onError: (message: string) => void) => {
+  const [savedPresets, setSavedPresets] = useState<FilterPreset[]>([]);
+
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    listPresets()
+      .then(setSavedPresets)
+      .catch(err => {
+        console.error(err);
+        onErrorRef.current('Filter presets could not be loaded.');
+      });
+  }, []);
+
+  const persist = useCallback((preset: FilterPreset) => {
+    savePreset(preset).catch(err => {
+      console.error(err);
+      onErrorRef.current(`The preset "${preset.name}" could not be saved.`);
+    });
+  }, []);
+
+  const createPreset = useCallback((name: string, filters: ImageFilters) => {
+    const preset: FilterPreset = { id: newPresetId(), name, filters };
+    setSavedPresets(prev => [...prev, preset]);
+    persist(preset);
+    return preset;
+  }, [persist]);
+
+  const removePreset = useCallback((id: string) => {
+    setSavedPresets(prev => prev.filter(p => p.id !== id));
+    deletePreset(id).catch(err => console.error(err));
+  }, []);
+
+  const importPresets = useCallback((presets: FilterPreset[]) => {
+    setSavedPresets(prev => [...prev, ...presets]);
+    presets.forEach(persist);
+  }, [persist]);
+
+  const presets = useMemo(() => [...BUILT_IN_LOOKS, ...savedPresets], [savedPresets]);
+
+  return { presets, savedPresets, createPreset, removePreset, importPresets };
+};
@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react';
+import type { ImageFilters } from '../types';
+import { renderFilteredCanvas } from '../services/adjustmentRenderer';
+import { hasActiveFilters } from '../services/adjustments';
+
+const PREVIEW_LONG_EDGE = 1600;
+const RENDER_DELAY_MS = 120;
+
+/**
+ * Renders a downscaled preview of `src` with the filters applied, as an object URL,
+ * using the same engine as applying them. Slider drags are debounced and stale
+ * renders are dropped. Resolves to null when the filters change nothing.
+ */
+export const useFilterPreview = (src: string | null, filters: ImageFilters): string | null => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const active = src !== null && hasActiveFilters(filters);
+
+  useEffect(() => {
+    if (!active) {
+      setPreviewUrl(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      try {
+        const canvas = await renderFilteredCanvas(src!, filters, PREVIEW_LONG_EDGE);
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+        if (!cancelled && blob) setPreviewUrl(URL.createObjectURL(blob));
+      } catch (err) {
+        console.error('Filter preview failed:', err);
+      }
+    }, RENDER_DELAY_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [src, filters, active]);
+
+  // Each preview URL is released once it has been replaced.
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  return previewUrl;
+};
@@ -0,0 +1,63 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import type { ImageProviderId } from '../services/providers';
+import { imageProviders, getDefaultProviderId, setActiveProvider } from '../services/providers';
+import type { RequestPolicy } from '../services/requestPolicy';
+import { DEFAULT_REQUEST_POLICY, setRequestPolicy as applyRequestPolicy } from '../services/requestPolicy';
+
+const STORAGE_KEY = 'ai-edit:image-provider';
+const POLICY_STORAGE_KEY = 'ai-edit:request-policy';
+
+interface ImageProviderContextType {
+  providerId: ImageProviderId;
+  setProviderId: (id: ImageProviderId) => void;
+  requestPolicy: RequestPolicy;
+  setRequestPolicy: (policy: RequestPolicy) => void;
+}
+
+export const ImageProviderContext = createContext<ImageProviderContextType | undefined>(undefined);
+
+const getInitialProviderId = (): ImageProviderId => {
+  const stored = window.localStorage.getItem(STORAGE_KEY) as ImageProviderId | null;
+  if (stored && imageProviders[stored]?.isAvailable()) {
+    return stored;
+  }
+  return getDefaultProviderId();
+};
+
+const getInitialRequestPolicy = (): RequestPolicy => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(POLICY_STORAGE_KEY) || 'null');
+    return { ...DEFAULT_REQUEST_POLICY, ...stored };
+  } catch {
+    return DEFAULT_REQUEST_POLICY;
+  }
+};
+
+export const ImageProviderSettings: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [providerId, setProviderId] = useState<ImageProviderId>(getInitialProviderId);
+  const [requestPolicy, setRequestPolicy] = useState<RequestPolicy>(getInitialRequestPolicy);
+
+  useEffect(() => {
+    setActiveProvider(providerId);
+    window.localStorage.setItem(STORAGE_KEY, providerId);
+  }, [providerId]);
+
+  useEffect(() => {
+    applyRequestPolicy(requestPolicy);
+    window.localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(requestPolicy));
+  }, [requestPolicy]);
+
+  return React.createElement(
+    ImageProviderContext.Provider,
+    { value: { providerId, setProviderId, requestPolicy, setRequestPolicy } },
+    children,
+  );
+};
+
+export const useImageProvider = (): ImageProviderContextType => {
+  const context = useContext(ImageProviderContext);
+  if (context === undefined) {
+    throw new Error('useImageProvider must be used within an ImageProviderSettings');
+  }
+  return context;
+};
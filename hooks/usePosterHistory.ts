@@ -0,0 +1,145 @@
+import { useReducer, useCallback } from 'react';
+import type { Poster, PosterOperation } from '../types';
+import { getCompositionOverlays } from '../services/composition';
+
+// The edit history is a tree: every poster except a fresh generation points at the
+// poster it was derived from through `parentId`. Nothing is ever discarded, so going
+// back to an older version and editing it simply starts a new branch.
+
+interface PosterHistoryState {
+  posters: Poster[];
+  activePosterId: string | null;
+  // For each node, the child that `redo` should move to.
+  redoTargets: Record<string, string>;
+}
+
+type PosterHistoryAction =
+  | { type: 'load'; posters: Poster[]; activePosterId: string | null }
+  | { type: 'add'; poster: Poster }
+  | { type: 'update'; id: string; changes: Partial<Omit<Poster, 'id' | 'parentId'>> }
+  | { type: 'select'; id: string }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+const initialState: PosterHistoryState = {
+  posters: [],
+  activePosterId: null,
+  redoTargets: {},
+};
+
+// Points the redo targets along the ancestor chain of `id` at `id`, so that
+// undo followed by redo retraces the path to the selected version.
+const withRedoPath = (posters: Poster[], redoTargets: Record<string, string>, id: string) => {
+  const byId = new Map(posters.map(p => [p.id, p]));
+  const next = { ...redoTargets };
+  let node = byId.get(id);
+  while (node?.parentId) {
+    next[node.parentId] = node.id;
+    node = byId.get(node.parentId);
+  }
+  return next;
+};
+
+const reducer = (state: PosterHistoryState, action: PosterHistoryAction): PosterHistoryState => {
+  switch (action.type) {
+    case 'load': {
+      const activePosterId = action.posters.some(p => p.id === action.activePosterId) ? action.activePosterId : null;
+      return {
+        posters: action.posters,
+        activePosterId,
+        redoTargets: activePosterId ? withRedoPath(action.posters, {}, activePosterId) : {},
+      };
+    }
+    case 'add': {
+      // Text overlays are not part of the pixels, so derived versions keep their parent's.
+      // A layered parent hands down its text layers, since only the image layers are flattened.
+      const parent = state.posters.find(p => p.id === action.poster.parentId);
+      const inherited = parent?.composition ? getCompositionOverlays(parent.composition) : parent?.overlays;
+      const poster = action.poster.overlays || !inherited?.length
+        ? action.poster
+        : { ...action.poster, overlays: inherited };
+      const posters = [...state.posters, poster];
+      return {
+        posters,
+        activePosterId: poster.id,
+        redoTargets: withRedoPath(posters, state.redoTargets, poster.id),
+      };
+    }
+    case 'update': {
+      return {
+        ...state,
+        posters: state.posters.map(p => p.id === action.id ? { ...p, ...action.changes } : p),
+      };
+    }
+    case 'select': {
+      if (!state.posters.some(p => p.id === action.id)) return state;
+      return {
+        ...state,
+        activePosterId: action.id,
+        redoTargets: withRedoPath(state.posters, state.redoTargets, action.id),
+      };
+    }
+    case 'undo': {
+      const active = state.posters.find(p => p.id === state.activePosterId);
+      if (!active?.parentId) return state;
+      return { ...state, activePosterId: active.parentId };
+    }
+    case 'redo': {
+      if (!state.activePosterId) return state;
+      const target = state.redoTargets[state.activePosterId];
+      if (!target) return state;
+      return { ...state, activePosterId: target };
+    }
+  }
+};
+
+export const createPoster = (src: string, prompt: string, operation: PosterOperation, parentId: string | null): Poster => ({
+  id: `poster-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  src,
+  prompt,
+  operation,
+  parentId,
+  createdAt: Date.now(),
+});
+
+export const getChildren = (posters: Poster[], parentId: string | null) =>
+  posters.filter(p => p.parentId === parentId);
+
+// Returns the chain of versions leading to `id`, starting with the original generation.
+export const getLineage = (posters: Poster[], id: string): Poster[] => {
+  const byId = new Map(posters.map(p => [p.id, p]));
+  const lineage: Poster[] = [];
+  let node = byId.get(id);
+  while (node) {
+    lineage.unshift(node);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  return lineage;
+};
+
+export const usePosterHistory = () => {
+  const [state, dispatch] = useReducer(reducer, initialState);
+
+  const loadHistory = useCallback((posters: Poster[], activePosterId: string | null) => dispatch({ type: 'load', posters, activePosterId }), []);
+  const addPoster = useCallback((poster: Poster) => dispatch({ type: 'add', poster }), []);
+  const updatePoster = useCallback((id: string, changes: Partial<Omit<Poster, 'id' | 'parentId'>>) => dispatch({ type: 'update', id, changes }), []);
+  const selectPoster = useCallback((id: string) => dispatch({ type: 'select', id }), []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  const activePoster = state.posters.find(p => p.id === state.activePosterId) || null;
+
+  return {
+    posters: state.posters,
+    activePosterId: state.activePosterId,
+    activePoster,
+    loadHistory,
+    addPoster,
+    updatePoster,
+    selectPoster,
+    undo,
+    redo,
+    canUndo: Boolean(activePoster?.parentId),
+    canRedo: Boolean(state.activePosterId && state.redoTargets[state.activePosterId]),
+  };
+};
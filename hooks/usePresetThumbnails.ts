@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react';
+import type { FilterPreset } from '../types';
+import { renderFilteredCanvas } from '../services/adjustmentRenderer';
+
+const THUMBNAIL_LONG_EDGE = 160;
+
+/**
+ * Renders a small thumbnail of `src` for every preset, keyed by preset id.
+ * Thumbnails are rendered one at a time so the editor stays responsive, and
+ * start over whenever the source image changes.
+ */
+export const usePresetThumbnails = (src: string | null, presets: FilterPreset[]): Record<string, string> => {
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setThumbnails({});
+    if (!src) return;
+    let cancelled = false;
+    (async () => {
+      for (const preset of presets) {
+        try {
+          const canvas = await renderFilteredCanvas(src, preset.filters, THUMBNAIL_LONG_EDGE);
+          if (cancelled) return;
+          const url = canvas.toDataURL('image/jpeg', 0.8);
+          setThumbnails(prev => ({ ...prev, [preset.id]: url }));
+        } catch (err) {
+          console.error(`Thumbnail for "${preset.name}" failed:`, err);
+        }
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [src, presets]);
+
+  return thumbnails;
+};
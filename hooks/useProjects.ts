@@ -0,0 +1,162 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { AspectRatio } from '../types';
+import type { ProjectSummary, ProjectSnapshot } from '../services/projectStore';
+import { listProjects, createProject, renameProject, deleteProject, loadProject, saveProject } from '../services/projectStore';
+
+const LAST_PROJECT_KEY = 'ai-edit:last-project';
+const SAVE_DELAY_MS = 800;
+const DEFAULT_PROJECT_NAME = 'Untitled project';
+
+/**
+ * Keeps the editor state in sync with the project store: restores the last opened
+ * project on start-up, loads projects on switch and saves the snapshot shortly after it changes.
+ * Before another project is opened, `onLeave` stops the work still running for the current
+ * one and its pending changes are saved, so nothing lands in or is lost from the wrong project.
+ */
+export const useProjects = (
+  snapshot: ProjectSnapshot,
+  onLeave: () => void,
+  onRestore: (snapshot: ProjectSnapshot) => void,
+  onError: (message: string) => void,
+  defaultAspectRatio: AspectRatio,
+) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  // Saving is suspended until the current project has been restored, so that the
+  // state of the previous (or empty initial) project never overwrites a stored one.
+  const [restoredProjectId, setRestoredProjectId] = useState<string | null>(null);
+  const isRestoring = restoredProjectId !== currentProjectId;
+
+  const onLeaveRef = useRef(onLeave);
+  onLeaveRef.current = onLeave;
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  // The debounced save waiting to run, and the chain of saves already started. Saves run
+  // one after another, and loading a project waits for them, because loading revokes the
+  // object URLs a running save may still be reading.
+  const pendingSave = useRef<(() => Promise<void>) | null>(null);
+  const runningSave = useRef<Promise<void>>(Promise.resolve());
+
+  const refreshProjects = useCallback(async () => {
+    setProjects(await listProjects());
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        let existing = await listProjects();
+        if (existing.length === 0) {
+          existing = [await createProject(DEFAULT_PROJECT_NAME, defaultAspectRatio)];
+        }
+        setProjects(existing);
+        const lastId = window.localStorage.getItem(LAST_PROJECT_KEY);
+        setCurrentProjectId(existing.some(p => p.id === lastId) ? lastId : existing[0].id);
+      } catch (err) {
+        console.error(err);
+        onErrorRef.current('Projects could not be loaded. Your work will not be saved in this browser.');
+      }
+    })();
+    // Only run once on start-up.
+  }, []);
+
+  useEffect(() => {
+    if (!currentProjectId) return;
+    let cancelled = false;
+    window.localStorage.setItem(LAST_PROJECT_KEY, currentProjectId);
+    loadProject(currentProjectId)
+      .then(restored => {
+        if (cancelled) return;
+        if (restored) onRestoreRef.current(restored);
+        setRestoredProjectId(currentProjectId);
+      })
+      .catch(err => {
+        console.error(err);
+        onErrorRef.current('The project could not be opened.');
+      });
+    return () => { cancelled = true; };
+  }, [currentProjectId]);
+
+  useEffect(() => {
+    if (!currentProjectId || isRestoring) return;
+    const save = () => {
+      if (pendingSave.current !== save) return runningSave.current;
+      pendingSave.current = null;
+      runningSave.current = runningSave.current
+        .then(() => saveProject(currentProjectId, snapshot))
+        .then(refreshProjects)
+        .catch(err => {
+          console.error(err);
+          onErrorRef.current('Your latest changes could not be saved.');
+        });
+      return runningSave.current;
+    };
+    pendingSave.current = save;
+    const timer = window.setTimeout(save, SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [currentProjectId, isRestoring, snapshot, refreshProjects]);
+
+  const openProject = useCallback(async (id: string) => {
+    if (id === currentProjectId) return;
+    onLeaveRef.current();
+    await (pendingSave.current?.() ?? runningSave.current);
+    setCurrentProjectId(id);
+  }, [currentProjectId]);
+
+  const newProject = useCallback(async (name: string) => {
+    try {
+      const project = await createProject(name.trim() || DEFAULT_PROJECT_NAME, defaultAspectRatio);
+      await refreshProjects();
+      await openProject(project.id);
+    } catch (err) {
+      console.error(err);
+      onErrorRef.current('The project could not be created.');
+    }
+  }, [defaultAspectRatio, refreshProjects, openProject]);
+
+  const rename = useCallback(async (id: string, name: string) => {
+    if (!name.trim()) return;
+    try {
+      await renameProject(id, name.trim());
+      await refreshProjects();
+    } catch (err) {
+      console.error(err);
+      onErrorRef.current('The project could not be renamed.');
+    }
+  }, [refreshProjects]);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      if (id === currentProjectId) {
+        // Changes to a project that is being deleted are dropped rather than saved.
+        onLeaveRef.current();
+        pendingSave.current = null;
+        await runningSave.current;
+      }
+      await deleteProject(id);
+      let remaining = await listProjects();
+      if (remaining.length === 0) {
+        remaining = [await createProject(DEFAULT_PROJECT_NAME, defaultAspectRatio)];
+      }
+      setProjects(remaining);
+      if (id === currentProjectId) {
+        setCurrentProjectId(remaining[0].id);
+      }
+    } catch (err) {
+      console.error(err);
+      onErrorRef.current('The project could not be deleted.');
+    }
+  }, [currentProjectId, defaultAspectRatio]);
+
+  return {
+    projects,
+    currentProjectId,
+    isRestoring,
+    switchProject: openProject,
+    newProject,
+    renameProject: rename,
+    deleteProject: remove,
+  };
+};
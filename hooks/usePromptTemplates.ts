@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import type { PromptTemplate, PromptTemplateTarget } from '../types';
+import { listTemplates, saveTemplate, deleteTemplate } from '../services/templateStore';
+import { BUILT_IN_TEMPLATES, newTemplateId } from '../services/promptTemplates';
+import { setSystemPromptOverrides } from '../services/systemPrompts';
+import type { SystemPromptId, SystemPromptOverrides } from '../services/systemPrompts';
+
+const VALUES_KEY = 'ai-edit:template-values';
+const SYSTEM_PROMPTS_KEY = 'ai-edit:system-prompts';
+const SAVE_DELAY_MS = 500;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    return JSON.parse(window.localStorage.getItem(key) || 'null') ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Loads the saved prompt templates next to the built-in ones, and keeps the
+ * last value used for each variable and the system prompt overrides.
+ */
+export const usePromptTemplates = (onError: (message: string) => void) => {
+  const [savedTemplates, setSavedTemplates] = useState<PromptTemplate[]>([]);
+  const [variableValues, setVariableValues] = useState<Record<string, string>>(() => readJson(VALUES_KEY, {}));
+  const [systemPromptOverrides, setOverrides] = useState<SystemPromptOverrides>(() => readJson(SYSTEM_PROMPTS_KEY, {}));
+  const saveTimers = useRef(new Map<string, number>());
+
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    listTemplates()
+      .then(setSavedTemplates)
+      .catch(err => {
+        console.error(err);
+        onErrorRef.current('Prompt templates could not be loaded.');
+      });
+  }, []);
+
+  useEffect(() => {
+    window.localStorage.setItem(VALUES_KEY, JSON.stringify(variableValues));
+  }, [variableValues]);
+
+  useEffect(() => {
+    setSystemPromptOverrides(systemPromptOverrides);
+    window.localStorage.setItem(SYSTEM_PROMPTS_KEY, JSON.stringify(systemPromptOverrides));
+  }, [systemPromptOverrides]);
+
+  const persist = useCallback((template: PromptTemplate) => {
+    saveTemplate(template).catch(err => {
+      console.error(err);
+      onErrorRef.current(`The template "${template.name}" could not be saved.`);
+    });
+  }, []);
+
+  const createTemplate = useCallback((name: string, target: PromptTemplateTarget, text: string) => {
+    const template: PromptTemplate = { id: newTemplateId(), name, target, text };
+    setSavedTemplates(prev => [...prev, template]);
+    persist(template);
+    return template;
+  }, [persist]);
+
+  // Edits in the library arrive per keystroke, so they are written shortly after.
+  const updateTemplate = useCallback((template: PromptTemplate) => {
+    setSavedTemplates(prev => prev.map(t => t.id === template.id ? template : t));
+    window.clearTimeout(saveTimers.current.get(template.id));
+    saveTimers.current.set(template.id, window.setTimeout(() => {
+      saveTimers.current.delete(template.id);
+      persist(template);
+    }, SAVE_DELAY_MS));
+  }, [persist]);
+
+  const removeTemplate = useCallback((id: string) => {
+    window.clearTimeout(saveTimers.current.get(id));
+    saveTimers.current.delete(id);
+    setSavedTemplates(prev => prev.filter(t => t.id !== id));
+    deleteTemplate(id).catch(err => console.error(err));
+  }, []);
+
+  const importTemplates = useCallback((templates: PromptTemplate[]) => {
+    setSavedTemplates(prev => [...prev, ...templates]);
+    templates.forEach(persist);
+  }, [persist]);
+
+  const setSystemPromptOverride = useCallback((id: SystemPromptId, text: string | null) => {
+    setOverrides(prev => {
+      const { [id]: _, ...rest } = prev;
+      return text === null ? rest : { ...rest, [id]: text };
+    });
+  }, []);
+
+  const templates = useMemo(() => [...BUILT_IN_TEMPLATES, ...savedTemplates], [savedTemplates]);
+
+  return {
+    templates,
+    savedTemplates,
+    createTemplate,
+    updateTemplate,
+    removeTemplate,
+    importTemplates,
+    variableValues,
+    setVariableValues,
+    systemPromptOverrides,
+    setSystemPromptOverride,
+  };
+};
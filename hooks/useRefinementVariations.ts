@@ -0,0 +1,98 @@
+import { useState, useCallback, useRef } from 'react';
+import type { Poster, RefinementVariation } from '../types';
+import type { ImageInput } from '../services/providers/types';
+import { refinePoster, inpaintPoster } from '../services/geminiService';
+import { srcToImageInput } from '../services/canvasUtils';
+import { createMaskImage, isSelectionEmpty, compositeInpainting } from '../services/inpainting';
+import { toErrorReport } from '../services/aiErrors';
+import { createPoster } from './usePosterHistory';
+
+export const MAX_VARIATIONS = 8;
+
+interface RefinementRun {
+  parent: Poster;
+  prompt: string;
+  poster: Promise<ImageInput>;
+  // Region refinements composite every variation back through the painted selection.
+  selection: { canvas: HTMLCanvasElement; mask: ImageInput } | null;
+  nextVariation: number;
+  controller: AbortController;
+}
+
+const newId = () => `variation-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Requests refinement variations in parallel and shows each one as soon as it
+ * finishes. A single variation can be re-rolled without touching the others.
+ * Clearing the variations aborts the requests still running.
+ */
+export const useRefinementVariations = () => {
+  const [variations, setVariations] = useState<RefinementVariation[]>([]);
+  const runRef = useRef<RefinementRun | null>(null);
+
+  const updateVariation = useCallback((id: string, changes: Partial<RefinementVariation>) => {
+    setVariations(prev => prev.map(v => v.id === id ? { ...v, ...changes } : v));
+  }, []);
+
+  const runVariation = useCallback(async (run: RefinementRun, id: string) => {
+    const variation = run.nextVariation++;
+    try {
+      const poster = await run.poster;
+      let src: string;
+      if (run.selection) {
+        const base64 = await inpaintPoster(poster, run.selection.mask, run.prompt, variation, run.controller.signal);
+        src = await compositeInpainting(run.parent.src, base64, run.selection.canvas);
+      } else {
+        src = `data:image/jpeg;base64,${await refinePoster(poster, run.prompt, variation, run.controller.signal)}`;
+      }
+      if (runRef.current !== run) return;
+      updateVariation(id, {
+        status: 'done',
+        poster: createPoster(src, run.prompt, run.selection ? 'inpaint' : 'refine', run.parent.id),
+        error: null,
+      });
+    } catch (err) {
+      if (runRef.current !== run) return;
+      console.error(err);
+      updateVariation(id, { status: 'failed', poster: null, error: toErrorReport(err) });
+    }
+  }, [updateVariation]);
+
+  const startRefinement = useCallback((parent: Poster, prompt: string, selection: HTMLCanvasElement | null, count: number) => {
+    const hasSelection = selection !== null && !isSelectionEmpty(selection);
+    const run: RefinementRun = {
+      parent,
+      prompt,
+      poster: srcToImageInput(parent.src),
+      selection: hasSelection ? { canvas: selection, mask: createMaskImage(selection) } : null,
+      nextVariation: 0,
+      controller: new AbortController(),
+    };
+    runRef.current?.controller.abort();
+    runRef.current = run;
+
+    const slots: RefinementVariation[] = Array.from({ length: Math.min(MAX_VARIATIONS, Math.max(1, count)) }, () => ({
+      id: newId(),
+      status: 'pending',
+      poster: null,
+      error: null,
+    }));
+    setVariations(slots);
+    slots.forEach(slot => runVariation(run, slot.id));
+  }, [runVariation]);
+
+  const rerollVariation = useCallback((id: string) => {
+    const run = runRef.current;
+    if (!run) return;
+    updateVariation(id, { status: 'pending', poster: null, error: null });
+    runVariation(run, id);
+  }, [runVariation, updateVariation]);
+
+  const clearVariations = useCallback(() => {
+    runRef.current?.controller.abort();
+    runRef.current = null;
+    setVariations([]);
+  }, []);
+
+  return { variations, startRefinement, rerollVariation, clearVariations };
+};
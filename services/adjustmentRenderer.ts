@@ -0,0 +1,90 @@
+import type { ImageFilters } from '../types';
+import { applyFilters } from './adjustments';
+import { loadImage, createCanvas } from './canvasUtils';
+
+// Runs filters in a shared worker, falling back to the main thread where module
+// workers are unavailable or the worker fails. Previews and applied results both
+// render through here.
+
+type RenderResult = { id: number; buffer?: ArrayBuffer; error?: string };
+
+interface PendingRender {
+  imageData: ImageData;
+  filters: ImageFilters;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null | undefined;
+let nextId = 0;
+const pending = new Map<number, PendingRender>();
+
+// The worker only gets a copy of the pixels, so a render it dropped can be redone here.
+const renderOnMainThread = ({ imageData, filters, resolve, reject }: PendingRender) => {
+  try {
+    applyFilters(imageData.data, imageData.width, imageData.height, filters);
+    resolve();
+  } catch (error) {
+    reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
+
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  try {
+    worker = new Worker(new URL('./adjustments.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<RenderResult>) => {
+      const request = pending.get(e.data.id);
+      pending.delete(e.data.id);
+      if (!request) return;
+      if (e.data.buffer) {
+        request.imageData.data.set(new Uint8ClampedArray(e.data.buffer));
+        request.resolve();
+      } else {
+        request.reject(new Error(e.data.error || 'Rendering the adjustments failed.'));
+      }
+    };
+    worker.onerror = (e) => {
+      console.warn('The adjustment worker failed, rendering on the main thread instead:', e.message);
+      worker?.terminate();
+      worker = null;
+      const dropped = [...pending.values()];
+      pending.clear();
+      dropped.forEach(renderOnMainThread);
+    };
+  } catch (error) {
+    console.warn('Adjustment worker unavailable, rendering on the main thread:', error);
+    worker = null;
+  }
+  return worker;
+};
+
+/** Applies the filters to the image data, in place. */
+export const processImageData = (imageData: ImageData, filters: ImageFilters): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const request: PendingRender = { imageData, filters, resolve, reject };
+    const target = getWorker();
+    if (!target) {
+      renderOnMainThread(request);
+      return;
+    }
+    const id = nextId++;
+    const buffer = imageData.data.slice().buffer;
+    pending.set(id, request);
+    target.postMessage({ id, width: imageData.width, height: imageData.height, buffer, filters }, [buffer]);
+  });
+
+/**
+ * Draws the image with the filters applied. `maxSize` limits the long edge, for
+ * previews; spatial adjustments scale with the image so they look the same.
+ */
+export const renderFilteredCanvas = async (src: string, filters: ImageFilters, maxSize = Infinity): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const { canvas, ctx } = createCanvas(img.naturalWidth * scale, img.naturalHeight * scale);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  await processImageData(imageData, filters);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import type { Adjustment, ImageFilters } from '../types';
+import { applyFilters, createAdjustment } from './adjustments';
+
+const NEUTRAL: ImageFilters = { brightness: 100, contrast: 100, saturate: 100, tint: null, adjustments: [] };
+
+// A smooth test scene, sampled at pixel centers: gradients, a soft disc and ripples,
+// so the same picture can be rendered at any size.
+const scene = (width: number, height: number) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const u = (x + 0.5) / width;
+      const v = (y + 0.5) / height;
+      const disc = Math.exp(-(((u - 0.6) ** 2) + ((v - 0.4) ** 2)) * 30);
+      const i = (y * width + x) * 4;
+      data[i] = 255 * (0.2 + 0.6 * u * (1 - disc) + 0.2 * disc);
+      data[i + 1] = 255 * (0.3 + 0.4 * v + 0.25 * Math.sin(u * 60) * Math.cos(v * 45));
+      data[i + 2] = 255 * (0.15 + 0.7 * disc);
+      data[i + 3] = 255;
+    }
+  }
+  return data;
+};
+
+// Box-averages an image down by a whole factor, like a preview of the full-size render.
+const downscale = (data: Uint8ClampedArray, width: number, height: number, factor: number) => {
+  const w = width / factor;
+  const h = height / factor;
+  const out = new Float32Array(w * h * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (Math.floor(y / factor) * w + Math.floor(x / factor)) * 4;
+      for (let c = 0; c < 4; c++) out[o + c] += data[(y * width + x) * 4 + c] / (factor * factor);
+    }
+  }
+  return out;
+};
+
+const meanDifference = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (i % 4 === 3) continue;
+    sum += Math.abs(a[i] - b[i]);
+    count++;
+  }
+  return sum / count;
+};
+
+describe('applyFilters', () => {
+  // Expected pixels worked out by hand from the CSS Filter Effects and Compositing specs.
+  const pixels: [string, ImageFilters, number[], number[]][] = [
+    ['brightness', { ...NEUTRAL, brightness: 130 }, [200, 100, 50], [255, 130, 65]],
+    ['contrast', { ...NEUTRAL, contrast: 60 }, [200, 100, 50], [171, 111, 81]],
+    ['saturation', { ...NEUTRAL, saturate: 170 }, [200, 100, 50], [255, 88, 3]],
+    ['the sliders together', { ...NEUTRAL, brightness: 80, contrast: 140, saturate: 30 }, [200, 100, 50], [108, 75, 58]],
+    ['a full tint', { ...NEUTRAL, tint: { color: '#00a1d9', amount: 1 } }, [128, 128, 128], [9, 170, 226]],
+    ['a clipped half tint', { ...NEUTRAL, tint: { color: '#ff8c00', amount: 0.5 } }, [128, 128, 128], [167, 120, 64]],
+  ];
+
+  it.each(pixels)('matches the CSS formulas for %s', (_name, filters, pixel, expected) => {
+    const data = new Uint8ClampedArray([...pixel, 255]);
+    applyFilters(data, 1, 1, filters);
+    for (let c = 0; c < 3; c++) expect(Math.abs(data[c] - expected[c])).toBeLessThanOrEqual(1);
+    expect(data[3]).toBe(255);
+  });
+
+  it('leaves the image unchanged with neutral filters', () => {
+    const source = scene(32, 32);
+    const data = new Uint8ClampedArray(source);
+    applyFilters(data, 32, 32, NEUTRAL);
+    expect(data).toEqual(source);
+  });
+
+  // The preview renders a downscaled copy, so every adjustment has to scale with the image.
+  const stacks: [string, Adjustment[]][] = [
+    ['pixel adjustments', [
+      { ...createAdjustment('exposure'), stops: 0.5 },
+      { ...createAdjustment('curves'), rgb: [[0, 0.05], [0.5, 0.6], [1, 0.95]] },
+      { ...createAdjustment('vignette'), amount: 60, size: 40 },
+    ]],
+    ['a small blur', [{ ...createAdjustment('blur'), radius: 25 }]],
+    ['a large blur', [{ ...createAdjustment('blur'), radius: 100 }]],
+    ['a fine sharpen', [{ ...createAdjustment('sharpen'), amount: 100, radius: 20 }]],
+    ['a wide sharpen', [{ ...createAdjustment('sharpen'), amount: 100, radius: 80 }]],
+  ];
+
+  it.each(stacks)('renders %s the same at preview size and full size', (_name, adjustments) => {
+    const filters: ImageFilters = { ...NEUTRAL, adjustments };
+    const factor = 4;
+    const width = 480;
+    const height = 320;
+
+    const full = scene(width, height);
+    applyFilters(full, width, height, filters);
+    const preview = scene(width / factor, height / factor);
+    applyFilters(preview, width / factor, height / factor, filters);
+
+    // Sampling the scene at the smaller size already differs slightly from downscaling it,
+    // so that difference is the baseline.
+    const untouched = downscale(scene(width, height), width, height, factor);
+    const samplingError = meanDifference(untouched, scene(width / factor, height / factor));
+    const fullDownscaled = downscale(full, width, height, factor);
+    expect(meanDifference(fullDownscaled, preview) - samplingError).toBeLessThan(0.25);
+  });
+});
@@ -0,0 +1,451 @@
+import type { Adjustment, AdjustmentType, CurvePoint, ImageFilters, LutAdjustment } from '../types';
+
+// Filters are plain pixel math over RGBA buffers. The same code renders the live
+// preview and the applied result, in the rendering worker or, where workers are
+// unavailable, on the main thread, so both always match. Consecutive per-pixel
+// steps run in one pass in floating point; spatial ones (sharpen, blur) need the
+// whole image and run as separate passes.
+
+export const ADJUSTMENT_LABELS: Record<AdjustmentType, string> = {
+  exposure: 'Exposure',
+  whiteBalance: 'White balance',
+  toneRange: 'Highlights / shadows',
+  vibrance: 'Vibrance',
+  curves: 'Curves',
+  levels: 'Levels',
+  vignette: 'Vignette',
+  sharpen: 'Sharpen',
+  blur: 'Blur',
+  lut: 'LUT',
+};
+
+export interface AdjustmentParam {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step?: number;
+}
+
+// The slider for each numeric value; imported values are kept to the same ranges.
+export const ADJUSTMENT_PARAMS: Partial<Record<AdjustmentType, AdjustmentParam[]>> = {
+  exposure: [{ key: 'stops', label: 'Stops', min: -3, max: 3, step: 0.1 }],
+  whiteBalance: [
+    { key: 'temperature', label: 'Temperature', min: -100, max: 100 },
+    { key: 'tint', label: 'Tint', min: -100, max: 100 },
+  ],
+  toneRange: [
+    { key: 'highlights', label: 'Highlights', min: -100, max: 100 },
+    { key: 'shadows', label: 'Shadows', min: -100, max: 100 },
+  ],
+  vibrance: [{ key: 'amount', label: 'Amount', min: -100, max: 100 }],
+  levels: [
+    { key: 'inputBlack', label: 'Input black', min: 0, max: 254 },
+    { key: 'inputWhite', label: 'Input white', min: 1, max: 255 },
+    { key: 'gamma', label: 'Gamma', min: 0.1, max: 3, step: 0.01 },
+    { key: 'outputBlack', label: 'Output black', min: 0, max: 255 },
+    { key: 'outputWhite', label: 'Output white', min: 0, max: 255 },
+  ],
+  vignette: [
+    { key: 'amount', label: 'Amount', min: -100, max: 100 },
+    { key: 'size', label: 'Size', min: 0, max: 100 },
+  ],
+  sharpen: [
+    { key: 'amount', label: 'Amount', min: 0, max: 100 },
+    { key: 'radius', label: 'Radius', min: 1, max: 100 },
+  ],
+  blur: [{ key: 'radius', label: 'Radius', min: 0, max: 100 }],
+  lut: [{ key: 'intensity', label: 'Intensity', min: 0, max: 100 }],
+};
+
+const IDENTITY_CURVE: CurvePoint[] = [[0, 0], [1, 1]];
+
+export const newAdjustmentId = () => `adjustment-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+type NeutralType = Exclude<AdjustmentType, 'lut'>;
+type AdjustmentOf<T extends AdjustmentType> = Extract<Adjustment, { type: T }>;
+type AdjustmentBase = Pick<Adjustment, 'id' | 'enabled'>;
+
+const NEUTRAL_ADJUSTMENTS: { [T in NeutralType]: (base: AdjustmentBase) => AdjustmentOf<T> } = {
+  exposure: base => ({ ...base, type: 'exposure', stops: 0 }),
+  whiteBalance: base => ({ ...base, type: 'whiteBalance', temperature: 0, tint: 0 }),
+  toneRange: base => ({ ...base, type: 'toneRange', highlights: 0, shadows: 0 }),
+  vibrance: base => ({ ...base, type: 'vibrance', amount: 0 }),
+  curves: base => ({ ...base, type: 'curves', rgb: IDENTITY_CURVE, red: IDENTITY_CURVE, green: IDENTITY_CURVE, blue: IDENTITY_CURVE }),
+  levels: base => ({ ...base, type: 'levels', inputBlack: 0, inputWhite: 255, gamma: 1, outputBlack: 0, outputWhite: 255 }),
+  vignette: base => ({ ...base, type: 'vignette', amount: 30, size: 50 }),
+  sharpen: base => ({ ...base, type: 'sharpen', amount: 0, radius: 10 }),
+  blur: base => ({ ...base, type: 'blur', radius: 0 }),
+};
+
+// A neutral adjustment of the given type, typed as that type so its values can be
+// overridden with a spread. LUTs are only created by importing a .cube file.
+export const createAdjustment = <T extends NeutralType>(type: T): AdjustmentOf<T> =>
+  NEUTRAL_ADJUSTMENTS[type]({ id: newAdjustmentId(), enabled: true });
+
+/** Reads a 3D LUT in the Adobe/Resolve .cube format. 1D LUTs are not supported. */
+export const parseCubeLut = (text: string, name: string): LutAdjustment => {
+  let size = 0;
+  let domainMin = [0, 0, 0];
+  let domainMax = [1, 1, 1];
+  const data: number[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    const [keyword, ...rest] = line.split(/\s+/);
+    if (keyword === 'TITLE') continue;
+    if (keyword === 'LUT_1D_SIZE') throw new Error('1D LUTs are not supported; export a 3D LUT instead.');
+    if (keyword === 'LUT_3D_SIZE') {
+      size = Number(rest[0]);
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = rest.map(Number);
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = rest.map(Number);
+    } else {
+      const values = [keyword, ...rest].map(Number);
+      if (values.length !== 3 || values.some(Number.isNaN)) throw new Error(`Unexpected line in LUT file: "${line}"`);
+      values.forEach((v, c) => data.push((v - domainMin[c]) / (domainMax[c] - domainMin[c])));
+    }
+  }
+  if (!Number.isInteger(size) || size < 2) throw new Error('The LUT file has no valid LUT_3D_SIZE.');
+  if (data.length !== size ** 3 * 3) throw new Error(`The LUT file should have ${size ** 3} entries but has ${data.length / 3}.`);
+  return { id: newAdjustmentId(), enabled: true, type: 'lut', name, size, data, intensity: 100 };
+};
+
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+
+const luminance = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = clamp01((x - edge0) / (edge1 - edge0));
+  return t * t * (3 - 2 * t);
+};
+
+const TABLE_SIZE = 1024;
+
+// Monotone cubic (Fritsch-Carlson) interpolation through the curve points, tabulated.
+const curveTable = (points: CurvePoint[]): Float32Array => {
+  const pts = [...points].sort((a, b) => a[0] - b[0]);
+  const n = pts.length;
+  const table = new Float32Array(TABLE_SIZE);
+  if (n < 2) {
+    for (let i = 0; i < TABLE_SIZE; i++) table[i] = i / (TABLE_SIZE - 1);
+    return table;
+  }
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    const dx = pts[i + 1][0] - pts[i][0];
+    slopes.push(dx > 0 ? (pts[i + 1][1] - pts[i][1]) / dx : 0);
+  }
+  const tangents = pts.map((_, i) =>
+    i === 0 ? slopes[0] : i === n - 1 ? slopes[n - 2] : slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2,
+  );
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const h = a * a + b * b;
+    if (h > 9) {
+      const t = 3 / Math.sqrt(h);
+      tangents[i] = t * a * slopes[i];
+      tangents[i + 1] = t * b * slopes[i];
+    }
+  }
+  let segment = 0;
+  for (let i = 0; i < TABLE_SIZE; i++) {
+    const x = i / (TABLE_SIZE - 1);
+    if (x <= pts[0][0]) { table[i] = clamp01(pts[0][1]); continue; }
+    if (x >= pts[n - 1][0]) { table[i] = clamp01(pts[n - 1][1]); continue; }
+    while (x > pts[segment + 1][0]) segment++;
+    const [x0, y0] = pts[segment];
+    const [x1, y1] = pts[segment + 1];
+    const h = x1 - x0;
+    const t = (x - x0) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    table[i] = clamp01(
+      (2 * t3 - 3 * t2 + 1) * y0 + (t3 - 2 * t2 + t) * h * tangents[segment] + (-2 * t3 + 3 * t2) * y1 + (t3 - t2) * h * tangents[segment + 1],
+    );
+  }
+  return table;
+};
+
+const lookup = (table: Float32Array, v: number) => table[Math.round(clamp01(v) * (TABLE_SIZE - 1))];
+
+// Works on one pixel in place: `px` holds r, g, b from 0 to 1 (values may leave that range
+// between steps), `x` and `y` are relative to the image.
+type PixelOp = (px: Float32Array, x: number, y: number) => void;
+
+const pixelOp = (adjustment: Adjustment, aspect: number): PixelOp | null => {
+  switch (adjustment.type) {
+    case 'exposure': {
+      const gain = 2 ** adjustment.stops;
+      return px => { px[0] *= gain; px[1] *= gain; px[2] *= gain; };
+    }
+    case 'whiteBalance': {
+      const t = adjustment.temperature / 100;
+      const m = adjustment.tint / 100;
+      const r = 1 + 0.2 * t + 0.1 * m;
+      const g = 1 - 0.2 * m;
+      const b = 1 - 0.2 * t + 0.1 * m;
+      return px => { px[0] *= r; px[1] *= g; px[2] *= b; };
+    }
+    case 'toneRange': {
+      const highlights = adjustment.highlights / 200;
+      const shadows = adjustment.shadows / 200;
+      return px => {
+        const l = clamp01(luminance(px[0], px[1], px[2]));
+        const delta = shadows * (1 - l) * (1 - l) + highlights * l * l;
+        px[0] += delta; px[1] += delta; px[2] += delta;
+      };
+    }
+    case 'vibrance': {
+      const amount = adjustment.amount / 100;
+      return px => {
+        const max = Math.max(px[0], px[1], px[2]);
+        const min = Math.min(px[0], px[1], px[2]);
+        // Muted colors move most, already saturated ones barely.
+        const factor = 1 + amount * (1 - clamp01(max - min));
+        const l = luminance(px[0], px[1], px[2]);
+        px[0] = l + (px[0] - l) * factor;
+        px[1] = l + (px[1] - l) * factor;
+        px[2] = l + (px[2] - l) * factor;
+      };
+    }
+    case 'curves': {
+      const rgb = curveTable(adjustment.rgb);
+      const channels = [curveTable(adjustment.red), curveTable(adjustment.green), curveTable(adjustment.blue)];
+      return px => {
+        for (let c = 0; c < 3; c++) px[c] = lookup(rgb, lookup(channels[c], px[c]));
+      };
+    }
+    case 'levels': {
+      const { inputBlack, outputBlack } = adjustment;
+      const inputRange = Math.max(1, adjustment.inputWhite - inputBlack);
+      const outputRange = adjustment.outputWhite - outputBlack;
+      const exponent = 1 / Math.max(0.01, adjustment.gamma);
+      return px => {
+        for (let c = 0; c < 3; c++) {
+          const v = clamp01((px[c] * 255 - inputBlack) / inputRange);
+          px[c] = (outputBlack + v ** exponent * outputRange) / 255;
+        }
+      };
+    }
+    case 'vignette': {
+      const amount = adjustment.amount / 100;
+      const inner = (adjustment.size / 100) * 0.9;
+      // Distances are measured in the shorter dimension, so the vignette stays round.
+      const sx = aspect >= 1 ? 1 : aspect;
+      const sy = aspect >= 1 ? 1 / aspect : 1;
+      const corner = Math.hypot(0.5 / sx, 0.5 / sy);
+      return (px, x, y) => {
+        const d = Math.hypot((x - 0.5) / sx, (y - 0.5) / sy) / corner;
+        const f = 1 - amount * smoothstep(inner, 1, d);
+        px[0] *= f; px[1] *= f; px[2] *= f;
+      };
+    }
+    case 'lut': {
+      const { size, data } = adjustment;
+      const mix = adjustment.intensity / 100;
+      const max = size - 1;
+      const at = (r: number, g: number, b: number, c: number) => data[((b * size + g) * size + r) * 3 + c];
+      return px => {
+        const fr = clamp01(px[0]) * max, fg = clamp01(px[1]) * max, fb = clamp01(px[2]) * max;
+        const r0 = Math.floor(fr), g0 = Math.floor(fg), b0 = Math.floor(fb);
+        const r1 = Math.min(max, r0 + 1), g1 = Math.min(max, g0 + 1), b1 = Math.min(max, b0 + 1);
+        const dr = fr - r0, dg = fg - g0, db = fb - b0;
+        for (let c = 0; c < 3; c++) {
+          const c00 = at(r0, g0, b0, c) * (1 - dr) + at(r1, g0, b0, c) * dr;
+          const c10 = at(r0, g1, b0, c) * (1 - dr) + at(r1, g1, b0, c) * dr;
+          const c01 = at(r0, g0, b1, c) * (1 - dr) + at(r1, g0, b1, c) * dr;
+          const c11 = at(r0, g1, b1, c) * (1 - dr) + at(r1, g1, b1, c) * dr;
+          const value = (c00 * (1 - dg) + c10 * dg) * (1 - db) + (c01 * (1 - dg) + c11 * dg) * db;
+          px[c] = px[c] + (value - px[c]) * mix;
+        }
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+const runPixelOps = (data: Uint8ClampedArray, width: number, height: number, ops: PixelOp[]) => {
+  const px = new Float32Array(3);
+  for (let y = 0; y < height; y++) {
+    const ry = (y + 0.5) / height;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      px[0] = data[i] / 255;
+      px[1] = data[i + 1] / 255;
+      px[2] = data[i + 2] / 255;
+      const rx = (x + 0.5) / width;
+      for (const op of ops) op(px, rx, ry);
+      data[i] = px[0] * 255;
+      data[i + 1] = px[1] * 255;
+      data[i + 2] = px[2] * 255;
+    }
+  }
+};
+
+// Variance of a box of the given radius. A fractional radius weights the samples just
+// outside the whole part by the fraction, so the blur grows smoothly with the radius.
+const boxVariance = (whole: number, fraction: number) =>
+  (whole * (whole + 1) * (2 * whole + 1) / 3 + 2 * fraction * (whole + 1) ** 2) / (2 * whole + 1 + 2 * fraction);
+
+// The (fractional) box radius with the given variance.
+const boxRadiusFor = (variance: number) => {
+  let whole = 0;
+  while (boxVariance(whole + 1, 0) <= variance) whole++;
+  const a = whole * (whole + 1) * (2 * whole + 1) / 3;
+  const b = 2 * whole + 1;
+  return whole + (variance * b - a) / (2 * (whole + 1) ** 2 - 2 * variance);
+};
+
+// One horizontal and one vertical box blur pass over planar channel data, in place.
+const boxBlur = (planes: Float32Array[], width: number, height: number, radius: number) => {
+  const whole = Math.floor(radius);
+  const fraction = radius - whole;
+  const span = radius * 2 + 1;
+  const line = new Float32Array(Math.max(width, height));
+  const blurLine = (plane: Float32Array, start: number, step: number, length: number) => {
+    for (let i = 0; i < length; i++) line[i] = plane[start + i * step];
+    const at = (i: number) => line[i < 0 ? 0 : i >= length ? length - 1 : i];
+    let sum = 0;
+    for (let k = -whole; k <= whole; k++) sum += at(k);
+    for (let i = 0; i < length; i++) {
+      plane[start + i * step] = (sum + fraction * (at(i - whole - 1) + at(i + whole + 1))) / span;
+      sum += at(i + whole + 1) - at(i - whole);
+    }
+  };
+  for (const plane of planes) {
+    for (let y = 0; y < height; y++) blurLine(plane, y * width, 1, width);
+    for (let x = 0; x < width; x++) blurLine(plane, x, width, height);
+  }
+};
+
+/**
+ * Three box blurs approximate a Gaussian with a standard deviation of a third of the
+ * radius, each box taking a third of the variance. `channels` picks the RGBA channels
+ * to blur. Canvas `filter` blurs are not supported everywhere, so this is used instead.
+ */
+export const gaussianBlur = (data: Uint8ClampedArray, width: number, height: number, radius: number, channels = [0, 1, 2]): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(data);
+  const size = width * height;
+  const planes = channels.map(c => {
+    const plane = new Float32Array(size);
+    for (let i = 0; i < size; i++) plane[i] = data[i * 4 + c];
+    return plane;
+  });
+  const box = boxRadiusFor((radius / 3) ** 2 / 3);
+  for (let pass = 0; pass < 3; pass++) boxBlur(planes, width, height, box);
+  channels.forEach((c, p) => {
+    for (let i = 0; i < size; i++) out[i * 4 + c] = planes[p][i];
+  });
+  return out;
+};
+
+// Spatial radii are given from 0 to 100 and scale with the image: 100 is 2% of the long edge.
+const pixelRadius = (radius: number, width: number, height: number) => (radius / 100) * 0.02 * Math.max(width, height);
+
+const runSpatial = (data: Uint8ClampedArray, width: number, height: number, adjustment: Adjustment) => {
+  if (adjustment.type === 'blur') {
+    const radius = pixelRadius(adjustment.radius, width, height);
+    if (radius <= 0) return;
+    data.set(gaussianBlur(data, width, height, radius));
+  } else if (adjustment.type === 'sharpen') {
+    const radius = pixelRadius(adjustment.radius, width, height);
+    const amount = (adjustment.amount / 100) * 2;
+    if (amount === 0 || radius <= 0) return;
+    // Unsharp mask: push each pixel away from its blurred surroundings.
+    const blurred = gaussianBlur(data, width, height, radius);
+    for (let i = 0; i < data.length; i += 4) {
+      for (let c = 0; c < 3; c++) data[i + c] = data[i + c] + (data[i + c] - blurred[i + c]) * amount;
+    }
+  }
+};
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', '').padEnd(6, '0').slice(0, 6), 16);
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+};
+
+// Luminosity as defined for the CSS 'color' blend mode.
+const blendLum = (r: number, g: number, b: number) => 0.3 * r + 0.59 * g + 0.11 * b;
+
+// The sliders and tint, with the semantics of the CSS brightness(), contrast() and
+// saturate() filters followed by a 'color' blend of the tint.
+const basicOps = ({ brightness, contrast, saturate, tint }: ImageFilters): PixelOp[] => {
+  const ops: PixelOp[] = [];
+  if (brightness !== 100) {
+    const b = brightness / 100;
+    ops.push(px => { px[0] = clamp01(px[0] * b); px[1] = clamp01(px[1] * b); px[2] = clamp01(px[2] * b); });
+  }
+  if (contrast !== 100) {
+    const k = contrast / 100;
+    const offset = 0.5 - 0.5 * k;
+    ops.push(px => { px[0] = clamp01(px[0] * k + offset); px[1] = clamp01(px[1] * k + offset); px[2] = clamp01(px[2] * k + offset); });
+  }
+  if (saturate !== 100) {
+    const s = saturate / 100;
+    ops.push(px => {
+      const [r, g, b] = [clamp01(px[0]), clamp01(px[1]), clamp01(px[2])];
+      px[0] = clamp01((0.213 + 0.787 * s) * r + (0.715 - 0.715 * s) * g + (0.072 - 0.072 * s) * b);
+      px[1] = clamp01((0.213 - 0.213 * s) * r + (0.715 + 0.285 * s) * g + (0.072 - 0.072 * s) * b);
+      px[2] = clamp01((0.213 - 0.213 * s) * r + (0.715 - 0.715 * s) * g + (0.072 + 0.928 * s) * b);
+    });
+  }
+  if (tint && tint.amount > 0) {
+    const [tr, tg, tb] = hexToRgb(tint.color);
+    const tintLum = blendLum(tr, tg, tb);
+    const alpha = tint.amount;
+    ops.push(px => {
+      // The tint's hue and saturation with the pixel's luminosity (SetLum and ClipColor).
+      const d = blendLum(clamp01(px[0]), clamp01(px[1]), clamp01(px[2])) - tintLum;
+      let r = tr + d, g = tg + d, b = tb + d;
+      const l = blendLum(r, g, b);
+      const min = Math.min(r, g, b);
+      const max = Math.max(r, g, b);
+      if (min < 0) {
+        r = l + ((r - l) * l) / (l - min); g = l + ((g - l) * l) / (l - min); b = l + ((b - l) * l) / (l - min);
+      }
+      if (max > 1) {
+        r = l + ((r - l) * (1 - l)) / (max - l); g = l + ((g - l) * (1 - l)) / (max - l); b = l + ((b - l) * (1 - l)) / (max - l);
+      }
+      px[0] += (r - px[0]) * alpha;
+      px[1] += (g - px[1]) * alpha;
+      px[2] += (b - px[2]) * alpha;
+    });
+  }
+  return ops;
+};
+
+/**
+ * Applies the filters to RGBA pixels, in place: first the enabled adjustments in
+ * order, then the sliders and tint. Alpha is left untouched.
+ */
+export const applyFilters = (data: Uint8ClampedArray, width: number, height: number, filters: ImageFilters) => {
+  let pending: PixelOp[] = [];
+  const flush = () => {
+    if (pending.length > 0) runPixelOps(data, width, height, pending);
+    pending = [];
+  };
+  for (const adjustment of filters.adjustments) {
+    if (!adjustment.enabled) continue;
+    const op = pixelOp(adjustment, width / height);
+    if (op) {
+      pending.push(op);
+    } else {
+      flush();
+      runSpatial(data, width, height, adjustment);
+    }
+  }
+  pending.push(...basicOps(filters));
+  flush();
+};
+
+// False when applying the filters would leave every pixel as it is.
+export const hasActiveFilters = ({ brightness, contrast, saturate, tint, adjustments }: ImageFilters) =>
+  brightness !== 100 || contrast !== 100 || saturate !== 100 || Boolean(tint && tint.amount > 0) || adjustments.some(a => a.enabled);
@@ -0,0 +1,22 @@
+import type { ImageFilters } from '../types';
+import { applyFilters } from './adjustments';
+
+// Renders filters off the main thread. Pixels are transferred both ways.
+
+interface RenderRequest {
+  id: number;
+  width: number;
+  height: number;
+  buffer: ArrayBuffer;
+  filters: ImageFilters;
+}
+
+self.onmessage = (e: MessageEvent<RenderRequest>) => {
+  const { id, width, height, buffer, filters } = e.data;
+  try {
+    applyFilters(new Uint8ClampedArray(buffer), width, height, filters);
+    self.postMessage({ id, buffer }, { transfer: [buffer] });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
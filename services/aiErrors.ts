@@ -0,0 +1,132 @@
+import type { ErrorKind, ErrorReport } from '../types';
+import { RequestTimeoutError } from './requestPolicy';
+
+// Typed errors for model calls. Providers throw them where they know what went
+// wrong (e.g. a safety block); everything else is classified from the raw error.
+
+const KIND_INFO: Record<ErrorKind, { label: string; explanation: string; action: string }> = {
+  quota: {
+    label: 'quota exceeded',
+    explanation: "The model's rate limit or usage quota has been reached.",
+    action: 'Wait a minute and try again, or check the quota and billing of your API key.',
+  },
+  safety: {
+    label: 'blocked by safety filters',
+    explanation: 'The model refused the request because of its safety filters.',
+    action: 'Rephrase the prompt or use different images, avoiding anything the model may consider unsafe.',
+  },
+  'no-image': {
+    label: 'no image returned',
+    explanation: 'The model answered, but without an image.',
+    action: 'Try again. Asking for the image more explicitly in the prompt can help.',
+  },
+  'invalid-response': {
+    label: 'unusable response',
+    explanation: "The model's answer was not in the expected format.",
+    action: 'Try again; the answer usually differs from one attempt to the next.',
+  },
+  'invalid-input': {
+    label: 'invalid input',
+    explanation: 'The model rejected the request, for example because of an unsupported or oversized image.',
+    action: 'Check the format and size of the uploaded images and the prompt, then try again.',
+  },
+  network: {
+    label: 'network problem',
+    explanation: 'The model service could not be reached or is temporarily unavailable.',
+    action: 'Check your connection and try again in a moment.',
+  },
+  auth: {
+    label: 'authentication failed',
+    explanation: 'The API key is missing, invalid or has no access to the model.',
+    action: 'Check the API_KEY setting, or switch to the offline mock model.',
+  },
+  timeout: {
+    label: 'timed out',
+    explanation: 'The model did not answer within the configured timeout.',
+    action: 'Try again, or raise the timeout in the request settings.',
+  },
+  unknown: {
+    label: 'unexpected error',
+    explanation: 'Something went wrong while processing the request.',
+    action: 'Try again. If it keeps happening, copy the diagnostics and report the problem.',
+  },
+};
+
+export class AiError extends Error {
+  kind: ErrorKind;
+  operation: string | null;
+  details: Record<string, string | number>;
+  cause: unknown;
+
+  constructor(kind: ErrorKind, detail: string, details: Record<string, string | number> = {}, cause?: unknown) {
+    super(detail);
+    this.name = 'AiError';
+    this.kind = kind;
+    this.operation = null;
+    this.details = details;
+    this.cause = cause;
+  }
+}
+
+const classify = (error: unknown): ErrorKind => {
+  if (error instanceof RequestTimeoutError) return 'timeout';
+  const status = (error as { status?: unknown })?.status;
+  const message = error instanceof Error ? error.message : String(error);
+  if (status === 401 || status === 403 || /API[_ ]?key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return 'auth';
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return 'quota';
+  if (status === 400 || /INVALID_ARGUMENT|unsupported (mime|image)|too large/i.test(message)) return 'invalid-input';
+  if ((typeof status === 'number' && status >= 500) || /UNAVAILABLE|failed to fetch|fetch failed|network/i.test(message)) return 'network';
+  return 'unknown';
+};
+
+/** Wraps any error from a model call, recording the operation that failed (e.g. "generate the poster"). */
+export const toAiError = (error: unknown, operation: string, provider: string): AiError => {
+  const aiError = error instanceof AiError
+    ? error
+    : new AiError(classify(error), error instanceof Error ? error.message : String(error), {}, error);
+  aiError.operation ??= operation;
+  aiError.details.provider ??= provider;
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') aiError.details.status = status;
+  return aiError;
+};
+
+const diagnosticsFor = (error: unknown, kind: ErrorKind): string => {
+  const cause = error instanceof AiError ? error.cause ?? error : error;
+  return JSON.stringify({
+    time: new Date().toISOString(),
+    kind,
+    operation: error instanceof AiError ? error.operation : null,
+    details: error instanceof AiError ? error.details : {},
+    error: cause instanceof Error
+      ? { name: cause.name, message: cause.message, stack: cause.stack?.split('\n').slice(0, 6).join('\n') }
+      : String(cause),
+    userAgent: navigator.userAgent,
+  }, null, 2);
+};
+
+/** Describes any error for display. Errors that are not `AiError`s keep their own message as the title. */
+export const toErrorReport = (error: unknown): ErrorReport => {
+  if (!(error instanceof AiError)) {
+    const info = KIND_INFO.unknown;
+    return {
+      kind: 'unknown',
+      title: error instanceof Error && error.message ? error.message : 'Something went wrong.',
+      explanation: info.explanation,
+      action: info.action,
+      diagnostics: diagnosticsFor(error, 'unknown'),
+    };
+  }
+  const info = KIND_INFO[error.kind];
+  const { finishReason, modelText } = error.details;
+  let explanation = info.explanation;
+  if (finishReason) explanation += ` Finish reason: ${finishReason}.`;
+  if (modelText) explanation += ` The model said: "${modelText}"`;
+  return {
+    kind: error.kind,
+    title: `${error.operation ? `Failed to ${error.operation}` : 'Request failed'}: ${info.label}.`,
+    explanation,
+    action: info.action,
+    diagnostics: diagnosticsFor(error, error.kind),
+  };
+};
@@ -0,0 +1,153 @@
+import type { AspectCorrectionMode, AspectRatio, SpecCheck } from '../types';
+import { aspectRatiosMap } from '../constants';
+import { loadImage, toDataUrl, createCanvas, canvasToBase64 } from './canvasUtils';
+import { outpaintImage, resolvePadding } from './outpainting';
+
+// The models only follow the requested aspect ratio loosely. Generated posters are
+// measured after decoding and, depending on the chosen mode, corrected either by a
+// content-aware crop or by outpainting the missing area.
+
+const RATIO_TOLERANCE = 0.01;
+export const MIN_LONG_EDGE = 1024;
+
+export const matchesAspectRatio = (width: number, height: number, aspectRatio: AspectRatio) =>
+  Math.abs(width / height - aspectRatiosMap[aspectRatio]) / aspectRatiosMap[aspectRatio] <= RATIO_TOLERANCE;
+
+// Largest crop of the requested ratio that fits inside the image.
+const cropSizeFor = (width: number, height: number, ratio: number) =>
+  width / height > ratio
+    ? { width: Math.round(height * ratio), height }
+    : { width, height: Math.round(width / ratio) };
+
+const ANALYSIS_SIZE = 256;
+
+/**
+ * Picks where to place a crop window of the given size. The image is scanned for
+ * edge energy along the cropped axis and the window keeping the most detail wins,
+ * with a mild preference for the center so flat images stay center-cropped.
+ */
+const findCropOffset = (img: HTMLImageElement, cropWidth: number, cropHeight: number) => {
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const horizontal = cropWidth < width;
+  const slack = horizontal ? width - cropWidth : height - cropHeight;
+  if (slack <= 0) return { x: 0, y: 0 };
+
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(width, height));
+  const { canvas, ctx } = createCanvas(width * scale, height * scale);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const luma = (x: number, y: number) => {
+    const i = (y * canvas.width + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  // Energy per column (horizontal crop) or per row (vertical crop).
+  const length = horizontal ? canvas.width : canvas.height;
+  const energy = new Float32Array(length);
+  for (let y = 1; y < canvas.height; y++) {
+    for (let x = 1; x < canvas.width; x++) {
+      const value = luma(x, y);
+      const gradient = Math.abs(value - luma(x - 1, y)) + Math.abs(value - luma(x, y - 1));
+      energy[horizontal ? x : y] += gradient;
+    }
+  }
+
+  const windowSize = Math.round((horizontal ? cropWidth : cropHeight) * scale);
+  const maxStart = Math.max(0, length - windowSize);
+  let windowEnergy = 0;
+  for (let i = 0; i < windowSize; i++) windowEnergy += energy[i];
+  const total = energy.reduce((sum, e) => sum + e, 0) || 1;
+
+  let bestStart = Math.round(maxStart / 2);
+  let bestScore = -Infinity;
+  for (let start = 0; start <= maxStart; start++) {
+    if (start > 0) windowEnergy += energy[start + windowSize - 1] - energy[start - 1];
+    const centerPenalty = maxStart > 0 ? Math.abs(start - maxStart / 2) / maxStart * 0.1 : 0;
+    const score = windowEnergy / total - centerPenalty;
+    if (score > bestScore) {
+      bestScore = score;
+      bestStart = start;
+    }
+  }
+
+  const offset = Math.min(slack, Math.round(bestStart / scale));
+  return horizontal ? { x: offset, y: 0 } : { x: 0, y: offset };
+};
+
+const smartCrop = (img: HTMLImageElement, aspectRatio: AspectRatio): string => {
+  const size = cropSizeFor(img.naturalWidth, img.naturalHeight, aspectRatiosMap[aspectRatio]);
+  const { x, y } = findCropOffset(img, size.width, size.height);
+  const { canvas, ctx } = createCanvas(size.width, size.height);
+  ctx.drawImage(img, x, y, size.width, size.height, 0, 0, size.width, size.height);
+  return canvasToBase64(canvas);
+};
+
+// Outpaints both ends of the short side, exactly far enough to reach the ratio.
+const outpaint = async (base64: string, mimeType: string, width: number, height: number, aspectRatio: AspectRatio, signal?: AbortSignal) => {
+  const padding = resolvePadding(width, height, { mode: 'aspectRatio', aspectRatio });
+  return canvasToBase64(await outpaintImage(toDataUrl(base64, mimeType), padding, signal));
+};
+
+// Human readable summary of a failed check, or null when the output was on spec.
+export const describeSpecCheck = (check: SpecCheck): string | null => {
+  const messages: string[] = [];
+  if (check.offSpec) {
+    const original = `${check.originalWidth}×${check.originalHeight}`;
+    if (check.correction === 'crop') {
+      messages.push(`The model returned ${original} instead of ${check.requestedAspectRatio}; it was cropped to ${check.width}×${check.height}.`);
+    } else if (check.correction === 'outpaint') {
+      messages.push(`The model returned ${original} instead of ${check.requestedAspectRatio}; it was outpainted to ${check.width}×${check.height}.`);
+    } else {
+      messages.push(`The model returned ${original}, which is not ${check.requestedAspectRatio}.`);
+    }
+  }
+  if (check.lowResolution) {
+    messages.push(`The resolution is below ${MIN_LONG_EDGE}px on the long edge.`);
+  }
+  return messages.length > 0 ? messages.join(' ') : null;
+};
+
+/**
+ * Measures a generated image and corrects it to the requested aspect ratio.
+ * Resolves to the (possibly corrected) base64 payload and the result of the check.
+ * `signal` cancels the outpainting request.
+ */
+export const enforceAspectRatio = async (
+  base64: string,
+  mimeType: string,
+  aspectRatio: AspectRatio,
+  mode: AspectCorrectionMode,
+  signal?: AbortSignal,
+): Promise<{ base64: string; specCheck: SpecCheck }> => {
+  const img = await loadImage(toDataUrl(base64, mimeType));
+  const originalWidth = img.naturalWidth;
+  const originalHeight = img.naturalHeight;
+  const offSpec = !matchesAspectRatio(originalWidth, originalHeight, aspectRatio);
+
+  let corrected = base64;
+  let correction: SpecCheck['correction'] = null;
+  if (offSpec && mode === 'crop') {
+    corrected = smartCrop(img, aspectRatio);
+    correction = 'crop';
+  } else if (offSpec && mode === 'outpaint') {
+    corrected = await outpaint(base64, mimeType, originalWidth, originalHeight, aspectRatio, signal);
+    correction = 'outpaint';
+  }
+
+  const final = correction ? await loadImage(toDataUrl(corrected, 'image/jpeg')) : img;
+  return {
+    base64: corrected,
+    specCheck: {
+      requestedAspectRatio: aspectRatio,
+      originalWidth,
+      originalHeight,
+      width: final.naturalWidth,
+      height: final.naturalHeight,
+      correction,
+      offSpec,
+      lowResolution: Math.max(final.naturalWidth, final.naturalHeight) < MIN_LONG_EDGE,
+    },
+  };
+};
@@ -0,0 +1,69 @@
+import type { BrandKit, BrandLogo } from '../types';
+import type { BrandKitInput } from './providers';
+import { openDb, promisify, BRAND_KITS } from './db';
+import { srcToImageInput } from './canvasUtils';
+
+// Brand kits are shared by all projects. Logos are stored as Blobs inside the kit
+// record and handed to the UI as object URLs.
+
+interface StoredLogo extends Omit<BrandLogo, 'src'> {
+  blob: Blob;
+}
+
+interface StoredBrandKit extends Omit<BrandKit, 'logos'> {
+  logos: StoredLogo[];
+}
+
+// Object URLs per logo id, so repeated loads hand out the same URL.
+const logoUrls = new Map<string, string>();
+
+const logoUrl = (logo: StoredLogo) => {
+  let url = logoUrls.get(logo.id);
+  if (!url) {
+    url = URL.createObjectURL(logo.blob);
+    logoUrls.set(logo.id, url);
+  }
+  return url;
+};
+
+const fromStored = ({ logos, ...kit }: StoredBrandKit): BrandKit => ({
+  ...kit,
+  logos: logos.map(({ blob, ...logo }) => ({ ...logo, src: logoUrl({ blob, ...logo }) })),
+});
+
+export const listBrandKits = async (): Promise<BrandKit[]> => {
+  const db = await openDb();
+  const kits = await promisify(db.transaction(BRAND_KITS).objectStore(BRAND_KITS).getAll() as IDBRequest<StoredBrandKit[]>);
+  return kits.map(fromStored).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveBrandKit = async (kit: BrandKit): Promise<void> => {
+  // Read the logo blobs before opening the transaction, which would otherwise auto-commit.
+  const logos: StoredLogo[] = await Promise.all(kit.logos.map(async ({ src, ...logo }) => ({
+    ...logo,
+    blob: await (await fetch(src)).blob(),
+  })));
+  const db = await openDb();
+  await promisify(db.transaction(BRAND_KITS, 'readwrite').objectStore(BRAND_KITS).put({ ...kit, logos }));
+};
+
+export const deleteBrandKit = async (id: string): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(BRAND_KITS, 'readwrite').objectStore(BRAND_KITS).delete(id));
+};
+
+export const createLogo = (file: File): BrandLogo => {
+  const id = `logo-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+  const src = URL.createObjectURL(file);
+  logoUrls.set(id, src);
+  return { id, name: file.name, src, mimeType: file.type || 'image/png' };
+};
+
+// Converts a kit into the form the image providers receive.
+export const toBrandKitInput = async (kit: BrandKit): Promise<BrandKitInput> => ({
+  name: kit.name,
+  colors: kit.colors,
+  fonts: kit.fonts,
+  tone: kit.tone,
+  logos: await Promise.all(kit.logos.map(logo => srcToImageInput(logo.src))),
+});
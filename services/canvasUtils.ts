@@ -0,0 +1,54 @@
+import { gaussianBlur } from './adjustments';
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image.'));
+    img.src = src;
+  });
+
+/**
+ * Blurs the alpha channel of the canvas in place, like a CSS `blur()` with the given
+ * standard deviation. Masks only use their alpha, so the colors are left alone.
+ */
+export const blurAlpha = (canvas: HTMLCanvasElement, sigma: number) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx || sigma <= 0) return;
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  imageData.data.set(gaussianBlur(imageData.data, canvas.width, canvas.height, sigma * 3, [3]));
+  ctx.putImageData(imageData, 0, 0);
+};
+
+export const toDataUrl = (base64: string, mimeType: string) => `data:${mimeType};base64,${base64}`;
+
+// The largest canvas area every current browser can draw; iOS Safari stops at 4096².
+export const MAX_CANVAS_PIXELS = 16_777_216;
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  return { canvas, ctx };
+};
+
+// Returns the raw base64 payload of the canvas, without the data URL header.
+export const canvasToBase64 = (canvas: HTMLCanvasElement, mimeType = 'image/jpeg', quality?: number) =>
+  canvas.toDataURL(mimeType, quality).split(',')[1];
+
+// Reads any image source the app hands around (data URL or object URL) back into a base64 payload.
+export const srcToImageInput = async (src: string): Promise<{ base64: string; mimeType: string }> => {
+  const blob = await (await fetch(src)).blob();
+  const base64 = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = error => reject(error);
+  });
+  return { base64, mimeType: blob.type || 'image/jpeg' };
+};
@@ -0,0 +1,167 @@
+import type { BlendMode, Composition, ImageLayer, Layer, ProductHints, TextLayer, TextOverlay } from '../types';
+import { loadImage, createCanvas, canvasToBase64, toDataUrl } from './canvasUtils';
+import { drawTextOverlays } from './textOverlay';
+
+export const BLEND_MODES: { value: BlendMode; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'screen', label: 'Screen' },
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'darken', label: 'Darken' },
+  { value: 'lighten', label: 'Lighten' },
+  { value: 'soft-light', label: 'Soft light' },
+  { value: 'difference', label: 'Difference' },
+];
+
+// Every blend mode except 'normal' has a canvas composite operation of the same name.
+const compositeOperation = (mode: BlendMode): GlobalCompositeOperation => (mode === 'normal' ? 'source-over' : mode);
+
+const layerDefaults = { visible: true, opacity: 1, blendMode: 'normal' as BlendMode };
+
+const newLayerId = () => `layer-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Layers are redrawn on every edit, so decoded images are kept per source.
+const imageCache = new Map<string, Promise<HTMLImageElement>>();
+
+const loadLayerImage = (src: string) => {
+  let image = imageCache.get(src);
+  if (!image) {
+    image = loadImage(src);
+    image.catch(() => imageCache.delete(src));
+    imageCache.set(src, image);
+  }
+  return image;
+};
+
+export const createTextLayer = (overlay: TextOverlay): TextLayer => ({
+  ...layerDefaults,
+  id: overlay.id,
+  name: overlay.text.split('\n')[0] || 'Text',
+  type: 'text',
+  overlay,
+});
+
+export const createProductLayer = async (
+  composition: Composition,
+  product: { id: string; src: string },
+  name: string,
+  placement: { x: number; y: number; maxWidth: number; maxHeight: number } = { x: 0.5, y: 0.6, maxWidth: 0.4, maxHeight: 0.5 },
+): Promise<ImageLayer> => {
+  const img = await loadLayerImage(product.src);
+  const aspect = img.naturalHeight / img.naturalWidth;
+  // Largest width that keeps the cutout inside the placement box.
+  const width = Math.min(placement.maxWidth, (placement.maxHeight * composition.height) / (aspect * composition.width));
+  return {
+    ...layerDefaults,
+    id: newLayerId(),
+    name,
+    type: 'image',
+    role: 'product',
+    src: product.src,
+    productId: product.id,
+    x: placement.x,
+    y: placement.y,
+    width,
+    aspect,
+  };
+};
+
+/**
+ * Builds a composition from a background image, placing each product in its
+ * placement box or else side by side in the lower part of the frame, and
+ * stacking the overlays on top.
+ */
+export const createComposition = async (
+  backgroundSrc: string,
+  products: { id: string; src: string; hints?: ProductHints }[],
+  overlays: TextOverlay[] = [],
+): Promise<Composition> => {
+  const background = await loadLayerImage(backgroundSrc);
+  const composition: Composition = { width: background.naturalWidth, height: background.naturalHeight, layers: [] };
+  const backgroundLayer: ImageLayer = {
+    ...layerDefaults,
+    id: newLayerId(),
+    name: 'Background',
+    type: 'image',
+    role: 'background',
+    src: backgroundSrc,
+    productId: null,
+    x: 0.5,
+    y: 0.5,
+    width: 1,
+    aspect: background.naturalHeight / background.naturalWidth,
+  };
+
+  const slotWidth = 1 / Math.max(1, products.length);
+  const productLayers = await Promise.all(products.map((product, index) => {
+    const box = product.hints?.placement;
+    return createProductLayer(composition, product, `Product ${index + 1}`, box
+      ? { x: box.x + box.width / 2, y: box.y + box.height / 2, maxWidth: box.width, maxHeight: box.height }
+      : { x: slotWidth * (index + 0.5), y: 0.675, maxWidth: slotWidth * 0.8, maxHeight: 0.55 },
+    );
+  }));
+
+  return { ...composition, layers: [backgroundLayer, ...productLayers, ...overlays.map(createTextLayer)] };
+};
+
+export const getCompositionOverlays = (composition: Composition) =>
+  composition.layers.filter((layer): layer is TextLayer => layer.type === 'text').map(layer => layer.overlay);
+
+// Applies an edited overlay list to the text layers: edits in place, drops removed
+// overlays and stacks new ones on top.
+export const withOverlays = (composition: Composition, overlays: TextOverlay[]): Composition => {
+  const byId = new Map(overlays.map(overlay => [overlay.id, overlay]));
+  const layers: Layer[] = [];
+  for (const layer of composition.layers) {
+    if (layer.type !== 'text') {
+      layers.push(layer);
+    } else if (byId.has(layer.id)) {
+      layers.push({ ...layer, overlay: byId.get(layer.id)! });
+      byId.delete(layer.id);
+    }
+  }
+  return { ...composition, layers: [...layers, ...[...byId.values()].map(createTextLayer)] };
+};
+
+interface DrawOptions {
+  only?: Layer['type']; // draws just the image or just the text layers
+  sources?: ReadonlyMap<string, CanvasImageSource>; // replacement pixels per layer id, e.g. enlarged for export
+}
+
+/** Draws the visible layers bottom to top onto a canvas of the given size. */
+export const drawComposition = async (
+  ctx: CanvasRenderingContext2D,
+  composition: Composition,
+  width: number,
+  height: number,
+  { only, sources }: DrawOptions = {},
+) => {
+  const layers = composition.layers.filter(layer => layer.visible && (!only || layer.type === only));
+  const images = await Promise.all(layers.map(layer =>
+    layer.type === 'image' ? sources?.get(layer.id) ?? loadLayerImage(layer.src) : null,
+  ));
+
+  layers.forEach((layer, index) => {
+    ctx.save();
+    ctx.globalAlpha = layer.opacity;
+    ctx.globalCompositeOperation = compositeOperation(layer.blendMode);
+    const img = images[index];
+    if (layer.type === 'image' && img) {
+      const w = layer.width * width;
+      const h = w * layer.aspect;
+      ctx.drawImage(img, layer.x * width - w / 2, layer.y * height - h / 2, w, h);
+    } else if (layer.type === 'text') {
+      drawTextOverlays(ctx, [layer.overlay], width, height);
+    }
+    ctx.restore();
+  });
+};
+
+// Flattens the image layers into the poster's `src`. Text layers stay editable and
+// are only rasterized on export, like the overlays of a flat poster.
+export const flattenComposition = async (composition: Composition) => {
+  const { canvas, ctx } = createCanvas(composition.width, composition.height);
+  ctx.imageSmoothingQuality = 'high';
+  await drawComposition(ctx, composition, canvas.width, canvas.height, { only: 'image' });
+  return toDataUrl(canvasToBase64(canvas), 'image/jpeg');
+};
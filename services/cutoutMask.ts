@@ -0,0 +1,124 @@
+import { loadImage, createCanvas, blurAlpha } from './canvasUtils';
+
+// Helpers for editing a product cutout by hand. The mask is a canvas the size of the
+// original photo whose alpha channel is the cutout; the colors always come from the
+// original, so painting a clipped part back in restores it exactly.
+
+export type BrushMode = 'add' | 'erase';
+
+export interface MaskOptions {
+  feather: number; // blur radius of the mask edge, in pixels of the original
+  refineEdges: boolean;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Loads the original and builds the mask from the alpha of the current cutout. A
+ * cutout with a different aspect ratio cannot be lined up with the original, so the
+ * mask then starts out fully opaque, as it does when there is no cutout yet.
+ */
+export const createMask = async (originalSrc: string, cutoutSrc: string | null) => {
+  const original = await loadImage(originalSrc);
+  const { canvas, ctx } = createCanvas(original.naturalWidth, original.naturalHeight);
+  const cutout = cutoutSrc ? await loadImage(cutoutSrc) : null;
+  const aligned = !cutout || Math.abs(cutout.naturalWidth / cutout.naturalHeight - canvas.width / canvas.height) < 0.02;
+  if (cutout && aligned) {
+    ctx.drawImage(cutout, 0, 0, canvas.width, canvas.height);
+  } else {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  return { original, mask: canvas, aligned };
+};
+
+const paintDab = (ctx: CanvasRenderingContext2D, { x, y }: Point, radius: number, hardness: number, rgb: string) => {
+  const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+  gradient.addColorStop(0, `rgba(${rgb}, 1)`);
+  gradient.addColorStop(Math.min(0.99, hardness), `rgba(${rgb}, 1)`);
+  gradient.addColorStop(1, `rgba(${rgb}, 0)`);
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+/**
+ * Paints a brush stroke segment onto the mask as a row of closely spaced dabs. Only
+ * the alpha matters to a mask; `rgb` just sets how it looks when shown directly.
+ */
+export const paintStroke = (
+  mask: HTMLCanvasElement,
+  from: Point,
+  to: Point,
+  radius: number,
+  hardness: number,
+  mode: BrushMode,
+  rgb = '255, 255, 255',
+) => {
+  const ctx = mask.getContext('2d');
+  if (!ctx) return;
+  ctx.save();
+  ctx.globalCompositeOperation = mode === 'add' ? 'source-over' : 'destination-out';
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  const steps = Math.max(1, Math.ceil(length / Math.max(1, radius * 0.25)));
+  for (let step = 1; step <= steps; step++) {
+    const t = step / steps;
+    paintDab(ctx, { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t }, radius, hardness, rgb);
+  }
+  ctx.restore();
+};
+
+/**
+ * Scales the mask to the given size and applies the edge options. Refining blurs the
+ * edge slightly and then steepens it around the middle, which smooths out jagged
+ * brush and flood-fill edges and drops the faint fringe left around the product.
+ */
+const prepareMask = (mask: HTMLCanvasElement, width: number, height: number, { feather, refineEdges }: MaskOptions, scale: number) => {
+  const prepared = createCanvas(width, height);
+  prepared.ctx.drawImage(mask, 0, 0, prepared.canvas.width, prepared.canvas.height);
+
+  if (refineEdges) {
+    blurAlpha(prepared.canvas, Math.max(0.5, 1.5 * scale));
+    const data = prepared.ctx.getImageData(0, 0, prepared.canvas.width, prepared.canvas.height);
+    for (let i = 3; i < data.data.length; i += 4) {
+      const t = Math.min(1, Math.max(0, (data.data[i] / 255 - 0.35) / 0.3));
+      data.data[i] = Math.round(t * t * (3 - 2 * t) * 255);
+    }
+    prepared.ctx.putImageData(data, 0, 0);
+  }
+
+  if (feather > 0) blurAlpha(prepared.canvas, feather * scale);
+  return prepared.canvas;
+};
+
+/**
+ * Draws the cutout, the original masked by the prepared mask, at the given size.
+ * `scale` is the ratio of that size to the original, so the edge options look the
+ * same in the preview and in the saved cutout.
+ */
+export const drawCutout = (
+  ctx: CanvasRenderingContext2D,
+  original: HTMLImageElement,
+  mask: HTMLCanvasElement,
+  width: number,
+  height: number,
+  options: MaskOptions,
+  scale = width / original.naturalWidth,
+) => {
+  const layer = createCanvas(width, height);
+  layer.ctx.drawImage(prepareMask(mask, width, height, options, scale), 0, 0);
+  layer.ctx.globalCompositeOperation = 'source-in';
+  layer.ctx.drawImage(original, 0, 0, layer.canvas.width, layer.canvas.height);
+  ctx.drawImage(layer.canvas, 0, 0);
+};
+
+/** Renders the final cutout at the size of the original as a PNG data URL. */
+export const renderCutout = (original: HTMLImageElement, mask: HTMLCanvasElement, options: MaskOptions) => {
+  const { canvas, ctx } = createCanvas(original.naturalWidth, original.naturalHeight);
+  drawCutout(ctx, original, mask, canvas.width, canvas.height, options, 1);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,44 @@
+// Shared IndexedDB connection for everything the app keeps in the browser.
+
+const DB_NAME = 'ai-edit';
+const DB_VERSION = 4;
+
+export const PROJECTS = 'projects';
+export const IMAGES = 'images';
+export const BRAND_KITS = 'brandKits';
+export const PROMPT_TEMPLATES = 'promptTemplates';
+export const FILTER_PRESETS = 'filterPresets';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(IMAGES)) db.createObjectStore(IMAGES);
+        if (!db.objectStoreNames.contains(BRAND_KITS)) db.createObjectStore(BRAND_KITS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(PROMPT_TEMPLATES)) db.createObjectStore(PROMPT_TEMPLATES, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(FILTER_PRESETS)) db.createObjectStore(FILTER_PRESETS, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
@@ -0,0 +1,172 @@
+import type { Poster } from '../types';
+import type { ExportMetadata } from './imageMetadata';
+import { embedMetadata } from './imageMetadata';
+import { createImagePdf } from './pdfWriter';
+import { loadImage, createCanvas, MAX_CANVAS_PIXELS } from './canvasUtils';
+import { drawTextOverlays } from './textOverlay';
+import { drawComposition } from './composition';
+import { upscaleCanvas, canUpscale } from './upscaleRenderer';
+import type { UpscaleFactor } from './upscale';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'avif' | 'pdf';
+
+export type ExportSize = 'standard' | 'large' | 'hq';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  size: ExportSize;
+  quality: number; // 0 to 1, used by the lossy formats
+  dpi: number; // PDF only
+  includeMetadata: boolean;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  filename: string;
+  // Set when the browser could not encode the requested format and another one was used.
+  fallbackFrom?: ExportFormat;
+  // Set to the requested size when it was larger than browsers can draw and the export was scaled down to fit.
+  cappedFrom?: { width: number; height: number };
+}
+
+export const exportSizeScale: Record<ExportSize, 1 | UpscaleFactor> = {
+  standard: 1,
+  large: 2,
+  hq: 4,
+};
+
+const mimeTypes: Record<Exclude<ExportFormat, 'pdf'>, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+const extensions: Record<ExportFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+  avif: 'avif',
+  pdf: 'pdf',
+};
+
+// Formats without an alpha channel are flattened onto white.
+const isOpaque = (format: ExportFormat) => format === 'jpeg' || format === 'pdf';
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The image could not be encoded.')), mimeType, quality);
+  });
+
+type ExportSource = Pick<Poster, 'src' | 'overlays' | 'composition'>;
+
+const UPSCALE_FACTORS: UpscaleFactor[] = [2, 4];
+
+// Enlarges an image with the local upscaler by the smallest factor that covers the
+// width it is drawn at, so a full-frame image at 2x or 4x matches the Upscale action.
+// Factors too large to draw are skipped; the canvas stretches the rest of the way.
+const enlarge = async (src: string, drawnWidth: number): Promise<CanvasImageSource> => {
+  const img = await loadImage(src);
+  const width = Math.round(drawnWidth);
+  const factors = UPSCALE_FACTORS.filter(f => canUpscale(img.naturalWidth, img.naturalHeight, f));
+  if (img.naturalWidth >= width || factors.length === 0) return img;
+  const factor = factors.find(f => img.naturalWidth * f >= width) ?? factors[factors.length - 1];
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  return upscaleCanvas(canvas, factor);
+};
+
+// Every layer is drawn in order at the final size: image layers from their enlarged
+// pixels and text directly, so it stays sharp. Layered posters are rendered from their
+// layers rather than the flattened `src`.
+const renderCanvas = async (
+  { src, overlays, composition }: ExportSource,
+  { width, height }: { width: number; height: number },
+  opaque: boolean,
+) => {
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  if (opaque) {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  if (overlays?.length || composition?.layers.some(layer => layer.type === 'text')) {
+    await document.fonts.ready;
+  }
+
+  if (composition) {
+    // One upscale at a time keeps a single worker and its buffers alive.
+    const sources = new Map<string, CanvasImageSource>();
+    for (const layer of composition.layers) {
+      if (layer.type === 'image' && layer.visible) sources.set(layer.id, await enlarge(layer.src, layer.width * canvas.width));
+    }
+    await drawComposition(ctx, composition, canvas.width, canvas.height, { sources });
+  } else {
+    ctx.drawImage(await enlarge(src, canvas.width), 0, 0, canvas.width, canvas.height);
+    drawTextOverlays(ctx, overlays ?? [], canvas.width, canvas.height);
+  }
+  return canvas;
+};
+
+// Encodes the canvas, falling back from AVIF to WebP and finally PNG when the
+// browser silently returns a different type than the one requested.
+const encodeImage = async (canvas: HTMLCanvasElement, format: Exclude<ExportFormat, 'pdf'>, quality: number) => {
+  const candidates: Exclude<ExportFormat, 'pdf'>[] = format === 'avif' ? ['avif', 'webp', 'png'] : [format, 'png'];
+  for (const candidate of candidates) {
+    const blob = await canvasToBlob(canvas, mimeTypes[candidate], quality);
+    if (blob.type === mimeTypes[candidate]) {
+      return { blob, format: candidate };
+    }
+  }
+  throw new Error(`This browser cannot export ${format.toUpperCase()} images.`);
+};
+
+// The requested size, scaled down with the aspect ratio kept when browsers cannot draw it.
+const fitCanvasSize = (width: number, height: number) => {
+  const fit = Math.min(1, Math.sqrt(MAX_CANVAS_PIXELS / (width * height)));
+  return { width: Math.floor(width * fit), height: Math.floor(height * fit) };
+};
+
+export const exportPoster = async (
+  poster: ExportSource,
+  baseName: string,
+  options: ExportOptions,
+  metadata: ExportMetadata,
+): Promise<ExportResult> => {
+  const scale = exportSizeScale[options.size];
+  const size = poster.composition ?? await loadImage(poster.src).then(img => ({ width: img.naturalWidth, height: img.naturalHeight }));
+  const requested = { width: size.width * scale, height: size.height * scale };
+  const fitted = fitCanvasSize(requested.width, requested.height);
+  const cappedFrom = fitted.width < requested.width ? requested : undefined;
+  const canvas = await renderCanvas(poster, fitted, isOpaque(options.format));
+
+  if (options.format === 'pdf') {
+    const jpeg = await canvasToBlob(canvas, mimeTypes.jpeg, options.quality);
+    const pdf = createImagePdf(new Uint8Array(await jpeg.arrayBuffer()), canvas.width, canvas.height, options.dpi, options.includeMetadata ? metadata : null);
+    return { blob: pdf, filename: `${baseName}-${options.size}.pdf`, cappedFrom };
+  }
+
+  const encoded = await encodeImage(canvas, options.format, options.quality);
+  const blob = options.includeMetadata
+    ? await embedMetadata(encoded.blob, metadata, canvas.width, canvas.height)
+    : encoded.blob;
+
+  return {
+    blob,
+    filename: `${baseName}-${options.size}.${extensions[encoded.format]}`,
+    fallbackFrom: encoded.format !== options.format ? options.format : undefined,
+    cappedFrom,
+  };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before releasing the blob.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { BUILT_IN_LOOKS, exportPresetPack, parsePresetPack } from './filterPresets';
+
+const pack = (adjustments: unknown[]) => JSON.stringify({
+  format: 'ai-edit-filter-presets',
+  version: 1,
+  presets: [{ name: 'Imported', filters: { brightness: 110, contrast: 100, saturate: 100, tint: null, adjustments } }],
+});
+
+const identityLut = (size: number) => {
+  const data: number[] = [];
+  for (let b = 0; b < size; b++) for (let g = 0; g < size; g++) for (let r = 0; r < size; r++) data.push(r / (size - 1), g / (size - 1), b / (size - 1));
+  return data;
+};
+
+describe('parsePresetPack', () => {
+  it('reads back an exported pack with new ids', () => {
+    const [imported] = parsePresetPack(exportPresetPack([BUILT_IN_LOOKS[4]]));
+    expect(imported.id).not.toBe(BUILT_IN_LOOKS[4].id);
+    expect(imported.builtIn).toBeUndefined();
+    const strip = (filters: typeof imported.filters) => ({ ...filters, adjustments: filters.adjustments.map(({ id, ...rest }) => rest) });
+    expect(strip(imported.filters)).toEqual(strip(BUILT_IN_LOOKS[4].filters));
+  });
+
+  it('drops adjustments of unknown or inherited types', () => {
+    const [preset] = parsePresetPack(pack([{ type: 'toString' }, { type: 'constructor' }, { type: 'glow' }, { type: 'exposure', stops: 1 }]));
+    expect(preset.filters.adjustments.map(a => a.type)).toEqual(['exposure']);
+  });
+
+  it('drops curves that are not lists of number pairs', () => {
+    const [preset] = parsePresetPack(pack([
+      { type: 'curves', rgb: [[0, 0], [1]] },
+      { type: 'curves', red: 'steep' },
+      { type: 'curves', rgb: [[0, 0.1], [1, 0.9]] },
+    ]));
+    expect(preset.filters.adjustments).toHaveLength(1);
+    expect(preset.filters.adjustments[0]).toMatchObject({ type: 'curves', rgb: [[0, 0.1], [1, 0.9]], red: [[0, 0], [1, 1]] });
+  });
+
+  it('drops LUTs whose data does not match their size', () => {
+    const lut = { type: 'lut', name: 'Film', size: 2, data: identityLut(2), intensity: 80 };
+    const [preset] = parsePresetPack(pack([
+      lut,
+      { ...lut, size: 3 },
+      { ...lut, data: [...identityLut(2).slice(1), 'x'] },
+      { ...lut, size: 1.5 },
+    ]));
+    expect(preset.filters.adjustments).toHaveLength(1);
+    expect(preset.filters.adjustments[0]).toMatchObject({ type: 'lut', name: 'Film', size: 2, intensity: 80 });
+  });
+
+  it('falls back to neutral values for invalid numbers', () => {
+    const [preset] = parsePresetPack(pack([{ type: 'blur', radius: '12' }]).replace('110', '1e999'));
+    expect(preset.filters.brightness).toBe(100);
+    expect(preset.filters.adjustments[0]).toMatchObject({ type: 'blur', radius: 0 });
+  });
+
+  it('keeps imported numbers to the slider ranges', () => {
+    const [preset] = parsePresetPack(pack([
+      { type: 'blur', radius: 1e12 },
+      { type: 'sharpen', amount: -5, radius: 0 },
+      { type: 'levels', gamma: 40, outputWhite: 1000 },
+      { type: 'curves', rgb: [[-1, 0.5], [2, 3]] },
+      { type: 'lut', name: 'Film', size: 2, data: identityLut(2), intensity: 500 },
+    ]));
+    expect(preset.filters.adjustments).toMatchObject([
+      { type: 'blur', radius: 100 },
+      { type: 'sharpen', amount: 0, radius: 1 },
+      { type: 'levels', gamma: 3, outputWhite: 255 },
+      { type: 'curves', rgb: [[0, 0.5], [1, 1]] },
+      { type: 'lut', intensity: 100 },
+    ]);
+  });
+
+  it('rejects files that are not preset packs', () => {
+    expect(() => parsePresetPack('{')).toThrow('not valid JSON');
+    expect(() => parsePresetPack(JSON.stringify({ format: 'ai-edit-prompt-templates', templates: [] }))).toThrow('not a filter preset pack');
+    expect(() => parsePresetPack(JSON.stringify({ format: 'ai-edit-filter-presets', version: 2, presets: [] }))).toThrow('newer version');
+  });
+});
@@ -0,0 +1,159 @@
+import type { Adjustment, AdjustmentType, CurvePoint, FilterPreset, ImageFilters, LutAdjustment } from '../types';
+import { ADJUSTMENT_LABELS, ADJUSTMENT_PARAMS, createAdjustment, newAdjustmentId } from './adjustments';
+import type { JsonRecord, PackFormat } from './jsonPack';
+import { isRecord, readPack, writePack } from './jsonPack';
+
+export const newPresetId = () => `preset-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const NEUTRAL: ImageFilters = { brightness: 100, contrast: 100, saturate: 100, tint: null, adjustments: [] };
+
+const look = (id: string, name: string, filters: Partial<ImageFilters>): FilterPreset =>
+  ({ id: `builtin-${id}`, name, filters: { ...NEUTRAL, ...filters }, builtIn: true });
+
+const adjust = <T extends Exclude<AdjustmentType, 'lut'>>(type: T, values: Partial<Extract<Adjustment, { type: T }>>): Adjustment =>
+  ({ ...createAdjustment(type), ...values });
+
+export const BUILT_IN_LOOKS: FilterPreset[] = [
+  look('warm-glow', 'Warm glow', {
+    brightness: 105,
+    adjustments: [adjust('whiteBalance', { temperature: 35, tint: 5 }), adjust('vibrance', { amount: 20 })],
+  }),
+  look('cool-fade', 'Cool fade', {
+    contrast: 90,
+    adjustments: [
+      adjust('whiteBalance', { temperature: -30 }),
+      adjust('levels', { outputBlack: 30, outputWhite: 240 }),
+    ],
+  }),
+  look('noir', 'Noir', {
+    contrast: 130,
+    saturate: 0,
+    adjustments: [adjust('vignette', { amount: 45, size: 45 })],
+  }),
+  look('vivid', 'Vivid', {
+    contrast: 110,
+    adjustments: [adjust('vibrance', { amount: 45 }), adjust('sharpen', { amount: 30, radius: 10 })],
+  }),
+  look('vintage', 'Vintage', {
+    saturate: 80,
+    tint: { color: '#704214', amount: 0.25 },
+    adjustments: [
+      adjust('curves', { rgb: [[0, 0.08], [0.5, 0.52], [1, 0.92]] }),
+      adjust('vignette', { amount: 30, size: 55 }),
+    ],
+  }),
+  look('matte', 'Matte', {
+    contrast: 95,
+    adjustments: [adjust('curves', { rgb: [[0, 0.12], [0.25, 0.27], [0.75, 0.76], [1, 0.96]] })],
+  }),
+  look('golden-hour', 'Golden hour', {
+    tint: { color: '#ff8c00', amount: 0.15 },
+    adjustments: [adjust('whiteBalance', { temperature: 25 }), adjust('toneRange', { highlights: -20, shadows: 25 })],
+  }),
+];
+
+/** A copy of the preset's filters whose adjustments have fresh ids, ready to edit. */
+export const filtersFromPreset = (preset: FilterPreset): ImageFilters => ({
+  ...preset.filters,
+  tint: preset.filters.tint && { ...preset.filters.tint },
+  adjustments: preset.filters.adjustments.map(a => ({ ...a, id: newAdjustmentId() })),
+});
+
+const PRESET_PACK: PackFormat = { format: 'ai-edit-filter-presets', version: 1, entries: 'presets', label: 'filter preset' };
+
+/** Serializes presets as a shareable pack; ids are not included. */
+export const exportPresetPack = (presets: FilterPreset[]): string =>
+  writePack(PRESET_PACK, presets.map(({ name, filters }) => ({
+    name,
+    filters: { ...filters, adjustments: filters.adjustments.map(({ id, ...rest }) => rest) },
+  })));
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const percent = (value: unknown) => isFiniteNumber(value) ? Math.min(200, Math.max(0, value)) : 100;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Curve points outside the unit square are pulled back onto its edge.
+const readCurve = (value: unknown): CurvePoint[] | null =>
+  Array.isArray(value) && value.every(point => Array.isArray(point) && point.length === 2 && point.every(isFiniteNumber))
+    ? value.map(([x, y]: number[]): CurvePoint => [clamp(x, 0, 1), clamp(y, 0, 1)])
+    : null;
+
+const isAdjustmentType = (type: unknown): type is AdjustmentType =>
+  typeof type === 'string' && Object.hasOwn(ADJUSTMENT_LABELS, type);
+
+// Larger LUTs are dropped on import; their data would run to millions of entries.
+const MAX_LUT_SIZE = 65;
+
+const readLut = (raw: JsonRecord, enabled: boolean, intensity: number): LutAdjustment | null => {
+  const { size, data } = raw;
+  if (typeof size !== 'number' || !Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) return null;
+  if (!Array.isArray(data) || data.length !== size ** 3 * 3 || !data.every(isFiniteNumber)) return null;
+  return { id: newAdjustmentId(), type: 'lut', enabled, name: typeof raw.name === 'string' ? raw.name : 'LUT', size, data, intensity };
+};
+
+// Adjustments of unknown types, with malformed curves or with LUT data that does not
+// match its size are dropped. Numbers are kept to the ranges of their sliders, and
+// missing or invalid ones fall back to the neutral values.
+const readAdjustment = (raw: unknown): Adjustment | null => {
+  if (!isRecord(raw) || !isAdjustmentType(raw.type)) return null;
+  const { type } = raw;
+  const enabled = raw.enabled !== false;
+  const number = (key: string, fallback: number) => {
+    const param = ADJUSTMENT_PARAMS[type]?.find(p => p.key === key);
+    const value = raw[key];
+    return isFiniteNumber(value) && param ? clamp(value, param.min, param.max) : fallback;
+  };
+  if (type === 'lut') return readLut(raw, enabled, number('intensity', 100));
+
+  const neutral = createAdjustment(type);
+  switch (neutral.type) {
+    case 'exposure': return { ...neutral, enabled, stops: number('stops', neutral.stops) };
+    case 'whiteBalance': return { ...neutral, enabled, temperature: number('temperature', neutral.temperature), tint: number('tint', neutral.tint) };
+    case 'toneRange': return { ...neutral, enabled, highlights: number('highlights', neutral.highlights), shadows: number('shadows', neutral.shadows) };
+    case 'vibrance': return { ...neutral, enabled, amount: number('amount', neutral.amount) };
+    case 'curves': {
+      const curve = (key: 'rgb' | 'red' | 'green' | 'blue') => raw[key] === undefined ? neutral[key] : readCurve(raw[key]);
+      const [rgb, red, green, blue] = [curve('rgb'), curve('red'), curve('green'), curve('blue')];
+      if (!rgb || !red || !green || !blue) return null;
+      return { ...neutral, enabled, rgb, red, green, blue };
+    }
+    case 'levels': return {
+      ...neutral,
+      enabled,
+      inputBlack: number('inputBlack', neutral.inputBlack),
+      inputWhite: number('inputWhite', neutral.inputWhite),
+      gamma: number('gamma', neutral.gamma),
+      outputBlack: number('outputBlack', neutral.outputBlack),
+      outputWhite: number('outputWhite', neutral.outputWhite),
+    };
+    case 'vignette': return { ...neutral, enabled, amount: number('amount', neutral.amount), size: number('size', neutral.size) };
+    case 'sharpen': return { ...neutral, enabled, amount: number('amount', neutral.amount), radius: number('radius', neutral.radius) };
+    case 'blur': return { ...neutral, enabled, radius: number('radius', neutral.radius) };
+  }
+};
+
+const readTint = (tint: unknown): ImageFilters['tint'] => {
+  if (!isRecord(tint) || typeof tint.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(tint.color)) return null;
+  if (typeof tint.amount !== 'number' || !Number.isFinite(tint.amount)) return null;
+  return { color: tint.color, amount: Math.min(1, Math.max(0, tint.amount)) };
+};
+
+/** Reads a preset pack, giving every preset a new id. Throws on anything that is not a valid pack. */
+export const parsePresetPack = (json: string): FilterPreset[] =>
+  readPack(PRESET_PACK, json).flatMap(({ name, filters }): FilterPreset[] => {
+    if (typeof name !== 'string' || !isRecord(filters)) return [];
+    const { brightness, contrast, saturate, tint, adjustments } = filters;
+    return [{
+      id: newPresetId(),
+      name,
+      filters: {
+        brightness: percent(brightness),
+        contrast: percent(contrast),
+        saturate: percent(saturate),
+        tint: readTint(tint),
+        adjustments: Array.isArray(adjustments) ? adjustments.map(readAdjustment).filter((a): a is Adjustment => a !== null) : [],
+      },
+    }];
+  });
@@ -1,13 +1,24 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { AspectRatio, ExpandDirection, ExpandSize } from "../types";
-
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
-}
+import type { AspectRatio, BackgroundRemovalMode, CreativeBrief } from "../types";
+import { getActiveProvider } from "./providers";
+import type { BrandKitInput, ProductInput, ReferenceInput } from "./providers";
+import { ensureTransparency, removeBackgroundLocally } from "./segmentation";
+import { withRequestPolicy, isCancelled } from "./requestPolicy";
+import { AiError, toAiError } from "./aiErrors";
+import { renderLayoutGuide, DEFAULT_PRODUCT_HINTS } from "./productHints";
+
+// The active brand kit is applied to every generation and refinement.
+let activeBrandKit: BrandKitInput | null = null;
+
+export const setActiveBrandKit = (brandKit: BrandKitInput | null) => {
+  activeBrandKit = brandKit;
+};
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+// Cancellation passes through as is; other failures are logged and rethrown as typed errors.
+const fail = (error: unknown, operation: string): never => {
+  if (isCancelled(error)) throw error;
+  console.error(`Failed to ${operation}:`, error);
+  throw toAiError(error, operation, getActiveProvider().id);
+};
 
 const fileToBase64 = (file: File): Promise<string> =>
   new Promise((resolve, reject) => {
@@ -30,193 +41,132 @@ export const getBase64AndMimeType = (file: File): Promise<{ base64: string, mime
     reader.onerror = (error) => reject(error);
   });
 
-const getImagePart = (base64Data: string, mimeType: string) => ({
-  inlineData: { data: base64Data, mimeType },
-});
+// Model cutouts are checked for real transparency. In 'auto' mode an unusable cutout
+// falls back to local segmentation, first of the model's output (often the product on
+// a clean backdrop) and then of the original image.
+export const removeBackground = async (base64Image: string, mimeType: string, mode: BackgroundRemovalMode = 'auto', signal?: AbortSignal): Promise<string> => {
+  const image = { base64: base64Image, mimeType };
+  let candidates = [image];
 
-export const removeBackground = async (base64Image: string, mimeType: string): Promise<string> => {
-  try {
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-            parts: [
-                getImagePart(base64Image, mimeType),
-                { text: "Isolate the main product in this image and place it on a transparent background. The output must be a single PNG image with transparency. Do not add any shadows, reflections, or other elements." },
-            ],
-        },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
+  if (mode !== 'local') {
+    try {
+      const result = await withRequestPolicy(s => getActiveProvider().removeBackground(image, s), signal);
+      const cutout = await ensureTransparency({ base64: result, mimeType: 'image/png' });
+      if (cutout) return cutout;
+      if (mode === 'ai') throw new AiError('no-image', "The model returned an image without transparency.");
+      console.warn("The model returned an image without transparency, falling back to local segmentation.");
+      candidates = [{ base64: result, mimeType: 'image/png' }, image];
+    } catch (error) {
+      if (mode === 'ai' || isCancelled(error)) fail(error, "remove the background");
+      console.warn("Model background removal failed, falling back to local segmentation:", error);
+    }
+  }
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-            return part.inlineData.data;
-        }
+  let lastError: unknown;
+  for (const candidate of candidates) {
+    try {
+      return await removeBackgroundLocally(candidate);
+    } catch (error) {
+      console.warn("Local background removal failed:", error);
+      lastError = error;
     }
-    throw new Error("No image was returned from the background removal process.");
-  } catch (error) {
-    console.error("Error removing background:", error);
-    throw new Error("Failed to remove background from the image.");
   }
+  return fail(lastError, "remove the background");
 };
 
+// Products carry their placement hints; any placement boxes are also sent as a layout sketch.
 export const generatePoster = async (
-  products: { base64: string; mimeType: string }[],
+  products: ProductInput[],
   concept: string,
   aspectRatio: AspectRatio,
-  referenceImage: { base64: string; mimeType: string } | null,
+  references: ReferenceInput[],
   posterText: string,
+  signal?: AbortSignal,
 ): Promise<string> => {
     try {
-        let textInstruction = "Do not add any text, words, or letters to the poster. The output should be purely visual.";
-        if (posterText.trim()) {
-            textInstruction = `Elegantly incorporate the following text into the design: "${posterText}".`;
-        }
-        
-        const prompt = `Create an attractive, catchy poster based on the concept: "${concept}".
-        The final image MUST be a high-resolution image targeting 2048x2048 pixels, and its dimensions MUST strictly conform to a ${aspectRatio} aspect ratio.
-        Integrate the following product(s) seamlessly and naturally into the design. Ensure they are the focus.
-        ${textInstruction}
-        ${referenceImage ? "Use the provided reference image for style, mood, and composition inspiration." : ""}
-        The final output should be a single, high-quality, complete poster image. Do not include any text placeholders like '[Your Text Here]'.`;
-
-        const parts = [
-            { text: prompt },
-            ...products.map(p => getImagePart(p.base64, p.mimeType))
-        ];
-        if (referenceImage) {
-            parts.push(getImagePart(referenceImage.base64, referenceImage.mimeType));
-        }
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts },
-            config: {
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
-            },
-        });
+        const layoutGuide = renderLayoutGuide(products.map(p => p.hints ?? DEFAULT_PRODUCT_HINTS), aspectRatio);
+        return await withRequestPolicy(s => getActiveProvider().generate({ products, concept, aspectRatio, layoutGuide, references, posterText, brandKit: activeBrandKit }, s), signal);
+    } catch (error) {
+        return fail(error, "generate the poster");
+    }
+};
 
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) {
-                return part.inlineData.data;
-            }
-        }
-        throw new Error("No poster was generated.");
+// Generates a product-free scene for a layered poster; the products are placed on top as layers.
+export const generateBackground = async (
+  concept: string,
+  aspectRatio: AspectRatio,
+  references: ReferenceInput[],
+  signal?: AbortSignal,
+): Promise<string> => {
+    try {
+        return await withRequestPolicy(s => getActiveProvider().generate({ products: [], concept, aspectRatio, layoutGuide: null, references, posterText: '', brandKit: activeBrandKit }, s), signal);
     } catch (error) {
-        console.error("Error generating poster:", error);
-        throw new Error("Failed to generate the poster.");
+        return fail(error, "generate the background");
     }
 };
 
+// Each call produces a single variation; callers request as many as they need in parallel.
 export const refinePoster = async (
     currentPoster: { base64: string; mimeType: string },
     refinementPrompt: string,
-): Promise<string[]> => {
+    variation = 0,
+    signal?: AbortSignal,
+): Promise<string> => {
     try {
-        const prompt = `Refine the provided poster image based on this instruction: "${refinementPrompt}".
-        The output must be a new version of the image incorporating the change. Maintain the original aspect ratio.`;
-        
-        const parts = [
-            { text: prompt },
-            getImagePart(currentPoster.base64, currentPoster.mimeType)
-        ];
-
-        const generateVariation = async () => {
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: { parts },
-                config: {
-                    responseModalities: [Modality.IMAGE, Modality.TEXT],
-                },
-            });
-    
-            for (const part of response.candidates?.[0]?.content?.parts || []) {
-                if (part.inlineData) {
-                    return part.inlineData.data;
-                }
-            }
-            return null;
-        }
-
-        const [variation1, variation2] = await Promise.all([
-            generateVariation(),
-            generateVariation()
-        ]);
-
-        const results = [variation1, variation2].filter((v): v is string => v !== null);
-
-        if (results.length === 0) {
-            throw new Error("No refined poster was generated.");
-        }
-        
-        return results;
-
+        return await withRequestPolicy(s => getActiveProvider().refine(currentPoster, refinementPrompt, activeBrandKit, variation, s), signal);
     } catch (error) {
-        console.error("Error refining poster:", error);
-        throw new Error("Failed to refine the poster.");
+        return fail(error, "refine the poster");
     }
 };
 
-const performImageModification = async (
-    poster: { base64: string; mimeType: string },
-    prompt: string
+export const inpaintPoster = async (
+    currentPoster: { base64: string; mimeType: string },
+    mask: { base64: string; mimeType: string },
+    prompt: string,
+    variation = 0,
+    signal?: AbortSignal,
 ): Promise<string> => {
     try {
-        const parts = [
-            { text: prompt },
-            getImagePart(poster.base64, poster.mimeType)
-        ];
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts },
-            config: {
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
-            },
-        });
-
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) {
-                return part.inlineData.data;
-            }
-        }
-        throw new Error("No modified image was generated.");
+        return await withRequestPolicy(s => getActiveProvider().inpaint(currentPoster, mask, prompt, activeBrandKit, variation, s), signal);
     } catch (error) {
-        console.error("Error during image modification:", error);
-        throw error; // Re-throw to be caught by the caller
+        return fail(error, "edit the selected area");
     }
 };
 
-export const upscalePoster = async (
-    currentPoster: { base64: string; mimeType: string },
-    scale: 2 | 4
+// `canvas` is already padded to its final size; see services/outpainting.
+export const expandPoster = async (
+    canvas: { base64: string; mimeType: string },
+    mask: { base64: string; mimeType: string },
+    size: { width: number; height: number },
+    signal?: AbortSignal,
 ): Promise<string> => {
-    const prompt = `Upscale this image to ${scale}x its original resolution. Enhance details and quality while preserving the original style and content. The output must be a single, high-quality image.`;
     try {
-        return await performImageModification(currentPoster, prompt);
+        return await withRequestPolicy(s => getActiveProvider().expand(canvas, mask, size, s), signal);
     } catch (error) {
-        throw new Error(`Failed to upscale the poster ${scale}x.`);
+        return fail(error, "expand the poster");
     }
 };
 
-export const expandPoster = async (
-    currentPoster: { base64: string; mimeType: string },
-    direction: ExpandDirection,
-    size: ExpandSize
-): Promise<string> => {
-    let directionText = 'on all sides';
-    switch (direction) {
-        case 'top': directionText = 'on the top edge'; break;
-        case 'bottom': directionText = 'on the bottom edge'; break;
-        case 'left': directionText = 'on the left edge'; break;
-        case 'right': directionText = 'on the right edge'; break;
+export const suggestConcepts = async (
+    products: { base64: string; mimeType: string }[],
+    count: number,
+    signal?: AbortSignal,
+): Promise<CreativeBrief[]> => {
+    try {
+        return await withRequestPolicy(s => getActiveProvider().suggestConcepts(products, count, activeBrandKit, s), signal);
+    } catch (error) {
+        return fail(error, "suggest concepts");
     }
+};
 
-    const prompt = `Expand the canvas of this image by approximately ${size}% ${directionText}. Use generative fill (outpainting) to create new image data that seamlessly extends the existing scene, maintaining the original style and context. The output must be the expanded image.`;
-     try {
-        return await performImageModification(currentPoster, prompt);
+export const enhanceConcept = async (
+    concept: string,
+    products: { base64: string; mimeType: string }[],
+    signal?: AbortSignal,
+): Promise<string> => {
+    try {
+        return await withRequestPolicy(s => getActiveProvider().enhanceConcept(concept, products, activeBrandKit, s), signal);
     } catch (error) {
-        throw new Error('Failed to expand the poster.');
+        return fail(error, "enhance the concept");
     }
-};
\ No newline at end of file
+};
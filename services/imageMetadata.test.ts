@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { embedMetadata } from './imageMetadata';
+
+const metadata = { title: 'Poster', concept: 'A summer sale', lineage: [] };
+
+// SOI, then a JFIF APP0 segment and the start of the image data.
+const app0 = [0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00];
+const imageData = [0xff, 0xdb, 0x00, 0x02, 0xff, 0xd9];
+
+const embedJpeg = async (bytes: number[]) =>
+  new Uint8Array(await (await embedMetadata(new Blob([new Uint8Array(bytes)], { type: 'image/jpeg' }), metadata, 1, 1)).arrayBuffer());
+
+describe('embedMetadata', () => {
+  it('puts the XMP segment of a JPEG after its JFIF APP0 segment', async () => {
+    const out = await embedJpeg([0xff, 0xd8, ...app0, ...imageData]);
+    expect([...out.subarray(0, 2 + app0.length)]).toEqual([0xff, 0xd8, ...app0]);
+    expect([...out.subarray(2 + app0.length, 4 + app0.length)]).toEqual([0xff, 0xe1]);
+    expect([...out.subarray(out.length - imageData.length)]).toEqual(imageData);
+  });
+
+  it('puts the XMP segment right after SOI when there is no APP0 segment', async () => {
+    const out = await embedJpeg([0xff, 0xd8, ...imageData]);
+    expect([...out.subarray(0, 4)]).toEqual([0xff, 0xd8, 0xff, 0xe1]);
+  });
+});
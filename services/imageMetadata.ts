@@ -0,0 +1,196 @@
+import type { PosterOperation } from '../types';
+
+// Embeds provenance metadata (concept prompt and edit lineage) into encoded image files.
+// PNG gets iTXt chunks, JPEG an APP1 XMP segment and WebP an XMP chunk.
+
+export interface LineageEntry {
+  operation: PosterOperation;
+  prompt: string;
+  createdAt: number;
+}
+
+export interface ExportMetadata {
+  title: string;
+  concept: string;
+  lineage: LineageEntry[];
+}
+
+export const SOFTWARE_NAME = 'AI Edit';
+const XMP_NAMESPACE = 'http://ns.ai-edit.app/1.0/';
+
+const encoder = new TextEncoder();
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const altText = (value: string) =>
+  `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt>`;
+
+export const buildXmpPacket = (metadata: ExportMetadata): string => {
+  const lineage = metadata.lineage.map(entry =>
+    `<rdf:li rdf:parseType="Resource"><aiedit:operation>${entry.operation}</aiedit:operation><aiedit:prompt>${escapeXml(entry.prompt)}</aiedit:prompt><aiedit:createdAt>${new Date(entry.createdAt).toISOString()}</aiedit:createdAt></rdf:li>`
+  ).join('');
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:aiedit="${XMP_NAMESPACE}">
+<dc:title>${altText(metadata.title)}</dc:title>
+<dc:description>${altText(metadata.concept)}</dc:description>
+<xmp:CreatorTool>${SOFTWARE_NAME}</xmp:CreatorTool>
+<xmp:CreateDate>${new Date().toISOString()}</xmp:CreateDate>
+<aiedit:Lineage><rdf:Seq>${lineage}</rdf:Seq></aiedit:Lineage>
+</rdf:Description>
+</rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// --- PNG ---
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(encoder.encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// Uncompressed international text chunk, so values can hold any UTF-8 text.
+const iTXtChunk = (keyword: string, text: string) =>
+  pngChunk('iTXt', concatBytes([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+
+const embedPng = (bytes: Uint8Array, metadata: ExportMetadata): Uint8Array => {
+  // IEND is always the final 12 bytes of a well-formed PNG.
+  const iendOffset = bytes.length - 12;
+  return concatBytes([
+    bytes.subarray(0, iendOffset),
+    iTXtChunk('Title', metadata.title),
+    iTXtChunk('Description', metadata.concept),
+    iTXtChunk('Software', SOFTWARE_NAME),
+    iTXtChunk('Lineage', JSON.stringify(metadata.lineage)),
+    iTXtChunk('XML:com.adobe.xmp', buildXmpPacket(metadata)),
+    bytes.subarray(iendOffset),
+  ]);
+};
+
+// --- JPEG ---
+
+const JPEG_XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const MAX_JPEG_SEGMENT = 0xffff - 2;
+
+// Where the APP1 segment goes: after the SOI marker and any APP0 (JFIF) segments,
+// since JFIF requires its APP0 to come first.
+const afterApp0 = (bytes: Uint8Array): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff && bytes[offset + 1] === 0xe0) {
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return Math.min(offset, bytes.length);
+};
+
+const embedJpeg = (bytes: Uint8Array, metadata: ExportMetadata): Uint8Array => {
+  let payload = concatBytes([encoder.encode(JPEG_XMP_HEADER), encoder.encode(buildXmpPacket(metadata))]);
+  // A single APP1 segment is limited to 64KB; drop the oldest lineage steps until it fits.
+  let lineage = metadata.lineage;
+  while (payload.length > MAX_JPEG_SEGMENT && lineage.length > 0) {
+    lineage = lineage.slice(1);
+    payload = concatBytes([encoder.encode(JPEG_XMP_HEADER), encoder.encode(buildXmpPacket({ ...metadata, lineage }))]);
+  }
+  if (payload.length > MAX_JPEG_SEGMENT) return bytes;
+
+  const segment = new Uint8Array(4 + payload.length);
+  segment[0] = 0xff;
+  segment[1] = 0xe1;
+  new DataView(segment.buffer).setUint16(2, payload.length + 2);
+  segment.set(payload, 4);
+  const offset = afterApp0(bytes);
+  return concatBytes([bytes.subarray(0, offset), segment, bytes.subarray(offset)]);
+};
+
+// --- WebP ---
+
+const riffChunk = (fourCC: string, data: Uint8Array): Uint8Array => {
+  const padded = data.length % 2;
+  const chunk = new Uint8Array(8 + data.length + padded);
+  chunk.set(encoder.encode(fourCC), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+const XMP_FLAG = 0x04;
+const ALPHA_FLAG = 0x10;
+
+const embedWebp = (bytes: Uint8Array, metadata: ExportMetadata, width: number, height: number): Uint8Array => {
+  const fourCC = new TextDecoder().decode(bytes.subarray(12, 16));
+  const xmp = riffChunk('XMP ', encoder.encode(buildXmpPacket(metadata)));
+  let body: Uint8Array;
+
+  if (fourCC === 'VP8X') {
+    body = concatBytes([bytes.subarray(12), xmp]);
+    body[8] |= XMP_FLAG;
+  } else {
+    // Simple (lossy or lossless) WebP has to be promoted to the extended format to carry metadata.
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = XMP_FLAG | (fourCC === 'VP8L' ? ALPHA_FLAG : 0);
+    const view = new DataView(vp8x.buffer);
+    view.setUint16(4, (width - 1) & 0xffff, true);
+    vp8x[6] = ((width - 1) >> 16) & 0xff;
+    view.setUint16(7, (height - 1) & 0xffff, true);
+    vp8x[9] = ((height - 1) >> 16) & 0xff;
+    body = concatBytes([riffChunk('VP8X', vp8x), bytes.subarray(12), xmp]);
+  }
+
+  const header = new Uint8Array(12);
+  header.set(encoder.encode('RIFF'), 0);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  header.set(encoder.encode('WEBP'), 8);
+  return concatBytes([header, body]);
+};
+
+/**
+ * Returns a copy of the encoded image with the metadata embedded. Formats that are
+ * not supported (e.g. AVIF) are returned unchanged.
+ */
+export const embedMetadata = async (blob: Blob, metadata: ExportMetadata, width: number, height: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  switch (blob.type) {
+    case 'image/png': return new Blob([embedPng(bytes, metadata)], { type: blob.type });
+    case 'image/jpeg': return new Blob([embedJpeg(bytes, metadata)], { type: blob.type });
+    case 'image/webp': return new Blob([embedWebp(bytes, metadata, width, height)], { type: blob.type });
+    default: return blob;
+  }
+};
+
+export const supportsMetadata = (mimeType: string) =>
+  mimeType === 'image/png' || mimeType === 'image/jpeg' || mimeType === 'image/webp';
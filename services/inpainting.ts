@@ -0,0 +1,57 @@
+import type { ImageInput } from './providers/types';
+import { loadImage, toDataUrl, createCanvas, canvasToBase64, blurAlpha } from './canvasUtils';
+
+// Region edits: the painted selection is sent to the model as a black and white mask,
+// and each result is composited back through it so nothing outside the selection changes.
+
+/** Converts a painted selection (its alpha channel) into the mask image sent to the model. */
+export const createMaskImage = (selection: HTMLCanvasElement): ImageInput => {
+  const { canvas, ctx } = createCanvas(selection.width, selection.height);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  const white = createCanvas(selection.width, selection.height);
+  white.ctx.drawImage(selection, 0, 0);
+  white.ctx.globalCompositeOperation = 'source-in';
+  white.ctx.fillStyle = '#ffffff';
+  white.ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(white.canvas, 0, 0);
+  return { base64: canvasToBase64(canvas, 'image/png'), mimeType: 'image/png' };
+};
+
+export const isSelectionEmpty = (selection: HTMLCanvasElement) => {
+  const ctx = selection.getContext('2d');
+  if (!ctx) return true;
+  const { data } = ctx.getImageData(0, 0, selection.width, selection.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+/**
+ * Pastes the model's result into the original through the selection. The edge is
+ * softened only on the inside of the selection, and the output is a PNG, so every
+ * pixel outside the selection is exactly the original.
+ */
+export const compositeInpainting = async (originalSrc: string, resultBase64: string, selection: HTMLCanvasElement) => {
+  const original = await loadImage(originalSrc);
+  const result = await loadImage(toDataUrl(resultBase64, 'image/jpeg'));
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const hard = createCanvas(width, height);
+  hard.ctx.drawImage(selection, 0, 0, width, height);
+
+  const patch = createCanvas(width, height);
+  patch.ctx.drawImage(hard.canvas, 0, 0);
+  blurAlpha(patch.canvas, Math.max(1, Math.round(Math.max(width, height) * 0.004)));
+  patch.ctx.globalCompositeOperation = 'destination-in';
+  patch.ctx.drawImage(hard.canvas, 0, 0);
+  patch.ctx.globalCompositeOperation = 'source-in';
+  patch.ctx.drawImage(result, 0, 0, width, height);
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(original, 0, 0);
+  ctx.drawImage(patch.canvas, 0, 0);
+  return toDataUrl(canvasToBase64(canvas, 'image/png'), 'image/png');
+};
@@ -0,0 +1,37 @@
+// The JSON packs user content is shared in, such as prompt templates and filter presets.
+// A pack names its format and version and lists its entries under one property.
+
+export type JsonRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export interface PackFormat {
+  format: string;
+  version: number;
+  entries: string; // the property holding the entries
+  label: string; // what the entries are, for error messages
+}
+
+export const writePack = ({ format, version, entries }: PackFormat, items: unknown[]): string =>
+  JSON.stringify({ format, version, [entries]: items }, null, 2);
+
+/**
+ * The entries of a pack that are objects, still unchecked. Throws on anything that is
+ * not a pack of the given format or was written by a newer version of it.
+ */
+export const readPack = ({ format, version, entries, label }: PackFormat, json: string): JsonRecord[] => {
+  let pack: unknown;
+  try {
+    pack = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isRecord(pack) || pack.format !== format || !Array.isArray(pack[entries])) {
+    throw new Error(`The file is not a ${label} pack.`);
+  }
+  if (typeof pack.version === 'number' && pack.version > version) {
+    throw new Error(`The ${label} pack was made by a newer version of the app.`);
+  }
+  return pack[entries].filter(isRecord);
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import type { TileModel } from './modelUpscale';
+import { upscaleWithModel, MODEL_TILE_SIZE } from './modelUpscale';
+
+// Stands in for a super-resolution model: repeats every pixel `factor` times each way,
+// so any seam or offset between tiles shows up as a mismatch.
+const nearestModel = (factor: number): TileModel => async (input, width, height) => {
+  const out = new Float32Array(3 * width * factor * height * factor);
+  for (let c = 0; c < 3; c++) {
+    for (let y = 0; y < height * factor; y++) {
+      for (let x = 0; x < width * factor; x++) {
+        out[(c * height * factor + y) * width * factor + x] = input[(c * height + Math.floor(y / factor)) * width + Math.floor(x / factor)];
+      }
+    }
+  }
+  return { data: out, width: width * factor, height: height * factor };
+};
+
+const pattern = (width: number, height: number, alpha = 255) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set([(i * 37) % 256, (i * 11) % 256, (i * 5) % 256, alpha], i * 4);
+  }
+  return data;
+};
+
+const nearest = (src: Uint8ClampedArray, width: number, height: number, scale: number) => {
+  const out = new Uint8ClampedArray(width * scale * height * scale * 4);
+  for (let y = 0; y < height * scale; y++) {
+    for (let x = 0; x < width * scale; x++) {
+      const i = (Math.floor(y / scale) * width + Math.floor(x / scale)) * 4;
+      out.set(src.subarray(i, i + 4), (y * width * scale + x) * 4);
+    }
+  }
+  return out;
+};
+
+describe('upscaleWithModel', () => {
+  // Wider and taller than a tile, with partial tiles at the edges.
+  const width = MODEL_TILE_SIZE + 45;
+  const height = MODEL_TILE_SIZE + 7;
+
+  it.each([
+    ['a 4x model at 4x', 4, 4],
+    ['a 2x model at 4x, run twice', 2, 4],
+    ['a 4x model at 2x, averaged down', 4, 2],
+  ] as const)('stitches the tiles of %s into an exact-size image', async (_name, factor, scale) => {
+    const src = pattern(width, height);
+    const progress: number[] = [];
+    const out = await upscaleWithModel(nearestModel(factor), src, width, height, scale, p => progress.push(p));
+    expect(out.length).toBe(width * scale * height * scale * 4);
+    const expected = nearest(src, width, height, scale);
+    let mismatches = 0;
+    for (let i = 0; i < out.length; i++) if (out[i] !== expected[i]) mismatches++;
+    expect(mismatches).toBe(0);
+    expect(progress.at(-1)).toBe(1);
+  });
+
+  it('rejects a model whose factor cannot give the requested scale', async () => {
+    await expect(upscaleWithModel(nearestModel(3), pattern(8, 8), 8, 8, 2)).rejects.toThrow('3x');
+  });
+
+  it('refuses results larger than browsers can draw before allocating them', async () => {
+    await expect(upscaleWithModel(nearestModel(4), new Uint8ClampedArray(0), 3000, 3000, 2)).rejects.toThrow('6000×6000');
+  });
+
+  it('keeps transparency', async () => {
+    const out = await upscaleWithModel(nearestModel(2), pattern(16, 16, 0), 16, 16, 2);
+    for (let i = 3; i < out.length; i += 4) expect(out[i]).toBe(0);
+  });
+});
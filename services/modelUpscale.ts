@@ -0,0 +1,179 @@
+import { upscaleLanczos } from './upscale';
+import type { UpscaleFactor } from './upscale';
+import { MAX_CANVAS_PIXELS } from './canvasUtils';
+
+// Super-resolution with an ESRGAN-style ONNX model picked by the user, run on the CPU
+// through the WASM backend of onnxruntime-web. Such a model takes a [1, 3, H, W] RGB
+// tensor in 0..1 and returns one enlarged by its own fixed factor. The image is fed in
+// tiles with a margin of context that is cropped away, so seams do not show, and a
+// model of another factor is run again or averaged down until the output is exactly
+// `scale` times the size.
+
+/** Enlarges one planar RGB tile, returning the planes and their size. */
+export type TileModel = (input: Float32Array, width: number, height: number) => Promise<{ data: Float32Array; width: number; height: number }>;
+
+export const MODEL_TILE_SIZE = 128;
+const TILE_MARGIN = 8;
+const MAX_PASSES = 3;
+
+interface Planes {
+  data: Float32Array; // RGB planes one after another, like the model's tensors
+  width: number;
+  height: number;
+}
+
+/** Loads the model and returns it as a tile function; `release` frees its memory. */
+export const loadTileModel = async (model: ArrayBuffer): Promise<{ run: TileModel; release: () => Promise<void> }> => {
+  const ort = await import('onnxruntime-web/wasm');
+  const session = await ort.InferenceSession.create(new Uint8Array(model), { executionProviders: ['wasm'] });
+  const [inputName] = session.inputNames;
+  const [outputName] = session.outputNames;
+  const run: TileModel = async (input, width, height) => {
+    const results = await session.run({ [inputName]: new ort.Tensor('float32', input, [1, 3, height, width]) });
+    const output = results[outputName];
+    const [, channels, outHeight, outWidth] = output.dims;
+    if (output.type !== 'float32' || channels !== 3) {
+      throw new Error('The upscaling model must return a float32 RGB image.');
+    }
+    return { data: output.data as Float32Array, width: outWidth, height: outHeight };
+  };
+  return { run, release: () => session.release() };
+};
+
+// The model passes whose combined factor, averaged down by `shrink` in the last pass,
+// is exactly `scale`. Each tile of that pass has to shrink to whole pixels.
+const planFor = (factor: number, scale: UpscaleFactor) => {
+  for (let passes = 1; passes <= MAX_PASSES && factor >= 2; passes++) {
+    const shrink = factor ** passes / scale;
+    if (Number.isInteger(shrink) && factor % shrink === 0) return { passes, shrink };
+  }
+  throw new Error(`The model enlarges by ${factor}x, which cannot give an exact ${scale}x result.`);
+};
+
+const crop = ({ data, width, height }: Planes, x0: number, y0: number, w: number, h: number): Planes => {
+  const out = new Float32Array(3 * w * h);
+  for (let c = 0; c < 3; c++) {
+    for (let y = 0; y < h; y++) {
+      const from = c * width * height + (y0 + y) * width + x0;
+      out.set(data.subarray(from, from + w), c * w * h + y * w);
+    }
+  }
+  return { data: out, width: w, height: h };
+};
+
+const boxDownscale = ({ data, width, height }: Planes, factor: number): Planes => {
+  const w = width / factor;
+  const h = height / factor;
+  const out = new Float32Array(3 * w * h);
+  for (let c = 0; c < 3; c++) {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        out[c * w * h + Math.floor(y / factor) * w + Math.floor(x / factor)] += data[c * width * height + y * width + x] / (factor * factor);
+      }
+    }
+  }
+  return { data: out, width: w, height: h };
+};
+
+const tileCount = (width: number, height: number) => Math.ceil(width / MODEL_TILE_SIZE) * Math.ceil(height / MODEL_TILE_SIZE);
+
+type TileWriter = (tile: Planes, x: number, y: number) => void;
+
+// Places tiles into planes of the enlarged image, the input of the next pass.
+const intoPlanes = (target: Planes): TileWriter => (tile, x, y) => {
+  for (let c = 0; c < 3; c++) {
+    for (let row = 0; row < tile.height; row++) {
+      const from = (c * tile.height + row) * tile.width;
+      target.data.set(tile.data.subarray(from, from + tile.width), c * target.width * target.height + (y + row) * target.width + x);
+    }
+  }
+};
+
+// Places tiles straight into the RGBA result.
+const intoPixels = (out: Uint8ClampedArray, outWidth: number): TileWriter => (tile, x, y) => {
+  const size = tile.width * tile.height;
+  for (let row = 0; row < tile.height; row++) {
+    for (let col = 0; col < tile.width; col++) {
+      const o = ((y + row) * outWidth + x + col) * 4;
+      const i = row * tile.width + col;
+      for (let c = 0; c < 3; c++) out[o + c] = tile.data[c * size + i] * 255;
+    }
+  }
+};
+
+// One pass of the model over the whole image, tile by tile. Each enlarged tile is
+// averaged down by `shrink` as soon as it comes back, so the model's full-size
+// output never exists at once.
+const enlarge = async (run: TileModel, source: Planes, factor: number, shrink: number, write: TileWriter, onTile: () => void) => {
+  const { width, height } = source;
+  for (let y0 = 0; y0 < height; y0 += MODEL_TILE_SIZE) {
+    for (let x0 = 0; x0 < width; x0 += MODEL_TILE_SIZE) {
+      const x1 = Math.min(width, x0 + MODEL_TILE_SIZE);
+      const y1 = Math.min(height, y0 + MODEL_TILE_SIZE);
+      const ix0 = Math.max(0, x0 - TILE_MARGIN);
+      const iy0 = Math.max(0, y0 - TILE_MARGIN);
+      const iw = Math.min(width, x1 + TILE_MARGIN) - ix0;
+      const ih = Math.min(height, y1 + TILE_MARGIN) - iy0;
+      const result = await run(crop(source, ix0, iy0, iw, ih).data, iw, ih);
+      if (result.width !== iw * factor || result.height !== ih * factor) {
+        throw new Error('The upscaling model returned a tile of an unexpected size.');
+      }
+      const tile = crop(result, (x0 - ix0) * factor, (y0 - iy0) * factor, (x1 - x0) * factor, (y1 - y0) * factor);
+      write(shrink > 1 ? boxDownscale(tile, shrink) : tile, x0 * factor / shrink, y0 * factor / shrink);
+      onTile();
+    }
+  }
+};
+
+/**
+ * Returns the RGBA image upscaled to exactly `width * scale` by `height * scale` pixels
+ * by the model. The model only sees color; transparency is resampled with Lanczos.
+ * `onProgress` receives the finished fraction after each tile. Throws before any work
+ * when the result or a pass in between would be larger than browsers can draw.
+ */
+export const upscaleWithModel = async (
+  run: TileModel,
+  src: Uint8ClampedArray,
+  width: number,
+  height: number,
+  scale: UpscaleFactor,
+  onProgress?: (fraction: number) => void,
+): Promise<Uint8ClampedArray> => {
+  // A small blank tile reveals the model's factor.
+  const probe = await run(new Float32Array(3 * 16 * 16), 16, 16);
+  const factor = probe.width / 16;
+  const { passes, shrink } = planFor(factor, scale);
+  const largest = Math.max(scale, factor ** (passes - 1));
+  if (width * largest * height * largest > MAX_CANVAS_PIXELS) {
+    throw new Error(`Upscaling ${scale}x with this model needs a ${width * largest}×${height * largest} image, which is larger than browsers can draw.`);
+  }
+
+  let planes: Planes = { data: new Float32Array(3 * width * height), width, height };
+  for (let i = 0; i < width * height; i++) {
+    for (let c = 0; c < 3; c++) planes.data[c * width * height + i] = src[i * 4 + c] / 255;
+  }
+
+  let total = 0;
+  for (let pass = 0; pass < passes; pass++) total += tileCount(width * factor ** pass, height * factor ** pass);
+  let done = 0;
+  const onTile = () => onProgress?.(++done / total);
+  for (let pass = 1; pass < passes; pass++) {
+    const next: Planes = { data: new Float32Array(3 * planes.width * factor * planes.height * factor), width: planes.width * factor, height: planes.height * factor };
+    await enlarge(run, planes, factor, 1, intoPlanes(next), onTile);
+    planes = next;
+  }
+
+  const outWidth = width * scale;
+  const out = new Uint8ClampedArray(outWidth * height * scale * 4);
+  await enlarge(run, planes, factor, shrink, intoPixels(out, outWidth), onTile);
+
+  let opaque = true;
+  for (let i = 3; i < src.length && opaque; i += 4) opaque = src[i] === 255;
+  if (opaque) {
+    for (let i = 3; i < out.length; i += 4) out[i] = 255;
+  } else {
+    const alpha = upscaleLanczos(src, width, height, scale);
+    for (let i = 3; i < out.length; i += 4) out[i] = alpha[i];
+  }
+  return out;
+};
@@ -0,0 +1,108 @@
+import type { ExpandPadding, ExpandRequest } from '../types';
+import type { ImageInput } from './providers/types';
+import { aspectRatiosMap } from '../constants';
+import { AiError } from './aiErrors';
+import { expandPoster } from './geminiService';
+import { loadImage, toDataUrl, createCanvas, canvasToBase64 } from './canvasUtils';
+
+// Expansions: the app lays out the padded canvas itself and sends it with a mask of
+// the empty area. The result is checked against the canvas and the original is pasted
+// back over it, so the final size and the original's position are exact and its pixels
+// are unchanged.
+
+const FILL_COLOR = '#808080';
+const RESULT_RATIO_TOLERANCE = 0.02;
+export const MAX_EXPAND_PIXELS = 4096;
+
+const NO_PADDING: ExpandPadding = { top: 0, right: 0, bottom: 0, left: 0 };
+
+const split = (total: number) => [Math.floor(total / 2), Math.ceil(total / 2)];
+
+/** The pixels to add on each side of a `width` × `height` image. */
+export const resolvePadding = (width: number, height: number, request: ExpandRequest): ExpandPadding => {
+  switch (request.mode) {
+    case 'direction': {
+      const x = Math.round(width * request.size / 100);
+      const y = Math.round(height * request.size / 100);
+      if (request.direction === 'all') {
+        const [left, right] = split(x);
+        const [top, bottom] = split(y);
+        return { top, right, bottom, left };
+      }
+      const horizontal = request.direction === 'left' || request.direction === 'right';
+      return { ...NO_PADDING, [request.direction]: horizontal ? x : y };
+    }
+    case 'pixels': {
+      const clamp = (value: number) => Math.min(MAX_EXPAND_PIXELS, Math.max(0, Math.round(value) || 0));
+      const { top, right, bottom, left } = request.padding;
+      return { top: clamp(top), right: clamp(right), bottom: clamp(bottom), left: clamp(left) };
+    }
+    case 'aspectRatio': {
+      const ratio = aspectRatiosMap[request.aspectRatio];
+      if (width / height < ratio) {
+        const [left, right] = split(Math.max(0, Math.round(height * ratio) - width));
+        return { ...NO_PADDING, left, right };
+      }
+      const [top, bottom] = split(Math.max(0, Math.round(width / ratio) - height));
+      return { ...NO_PADDING, top, bottom };
+    }
+  }
+};
+
+export const isEmptyPadding = ({ top, right, bottom, left }: ExpandPadding) => top + right + bottom + left === 0;
+
+export const describeExpandRequest = (request: ExpandRequest): string => {
+  switch (request.mode) {
+    case 'direction': return `Expanded image (${request.direction} ${request.size}%)`;
+    case 'aspectRatio': return `Expanded image to ${request.aspectRatio}`;
+    case 'pixels': {
+      const sides = (Object.entries(request.padding) as [keyof ExpandPadding, number][])
+        .filter(([, pixels]) => pixels > 0)
+        .map(([side, pixels]) => `${side} ${pixels}px`);
+      return `Expanded image (${sides.join(', ')})`;
+    }
+  }
+};
+
+const toPng = (canvas: HTMLCanvasElement): ImageInput => ({ base64: canvasToBase64(canvas, 'image/png'), mimeType: 'image/png' });
+
+/**
+ * Outpaints the image by the given padding. The returned canvas is exactly the padded
+ * size with the original pixels at their offset. Throws an 'invalid-response' error
+ * when the model's image does not have the shape of the canvas it was given.
+ */
+export const outpaintImage = async (src: string, padding: ExpandPadding, signal?: AbortSignal): Promise<HTMLCanvasElement> => {
+  const original = await loadImage(src);
+  const { top, right, bottom, left } = padding;
+  const width = original.naturalWidth + left + right;
+  const height = original.naturalHeight + top + bottom;
+
+  const padded = createCanvas(width, height);
+  padded.ctx.fillStyle = FILL_COLOR;
+  padded.ctx.fillRect(0, 0, width, height);
+  padded.ctx.drawImage(original, left, top);
+
+  const mask = createCanvas(width, height);
+  mask.ctx.fillStyle = '#ffffff';
+  mask.ctx.fillRect(0, 0, width, height);
+  mask.ctx.fillStyle = '#000000';
+  mask.ctx.fillRect(left, top, original.naturalWidth, original.naturalHeight);
+
+  const resultBase64 = await expandPoster(toPng(padded.canvas), toPng(mask.canvas), { width, height }, signal);
+  const result = await loadImage(toDataUrl(resultBase64, 'image/jpeg'));
+  const expectedRatio = width / height;
+  const ratio = result.naturalWidth / result.naturalHeight;
+  if (Math.abs(ratio - expectedRatio) / expectedRatio > RESULT_RATIO_TOLERANCE) {
+    throw new AiError(
+      'invalid-response',
+      `The model returned a ${result.naturalWidth}×${result.naturalHeight} image for a ${width}×${height} canvas.`,
+      { expected: `${width}×${height}`, returned: `${result.naturalWidth}×${result.naturalHeight}` },
+    );
+  }
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(result, 0, 0, width, height);
+  ctx.drawImage(original, left, top);
+  return canvas;
+};
@@ -0,0 +1,80 @@
+import type { ExportMetadata } from './imageMetadata';
+import { buildXmpPacket, SOFTWARE_NAME } from './imageMetadata';
+
+// A minimal PDF 1.4 writer producing a single page that holds one JPEG image at
+// its physical print size, optionally with an Info dictionary and an XMP metadata stream.
+
+const POINTS_PER_INCH = 72;
+
+const encoder = new TextEncoder();
+
+// PDF text strings as UTF-16BE hex, so prompts in any script survive.
+const pdfText = (value: string) => {
+  let hex = 'FEFF';
+  for (let i = 0; i < value.length; i++) {
+    hex += value.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+};
+
+const pdfDate = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `(D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z)`;
+};
+
+export const createImagePdf = (
+  jpeg: Uint8Array,
+  widthPx: number,
+  heightPx: number,
+  dpi: number,
+  metadata: ExportMetadata | null,
+): Blob => {
+  const pageWidth = (widthPx / dpi) * POINTS_PER_INCH;
+  const pageHeight = (heightPx / dpi) * POINTS_PER_INCH;
+  const content = `q ${pageWidth.toFixed(2)} 0 0 ${pageHeight.toFixed(2)} 0 0 cm /Im0 Do Q`;
+  const xmp = encoder.encode(metadata ? buildXmpPacket(metadata) : '');
+  const info = metadata
+    ? `<< /Title ${pdfText(metadata.title)} /Subject ${pdfText(metadata.concept)} /Keywords ${pdfText(metadata.lineage.map(l => l.operation).join(', '))} /Creator ${pdfText(SOFTWARE_NAME)} /Producer ${pdfText(SOFTWARE_NAME)} /CreationDate ${pdfDate(new Date())} >>`
+    : `<< /Producer ${pdfText(SOFTWARE_NAME)} >>`;
+
+  const objects: (string | [string, Uint8Array])[] = [
+    `<< /Type /Catalog /Pages 2 0 R${metadata ? ' /Metadata 6 0 R' : ''} >>`,
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth.toFixed(2)} ${pageHeight.toFixed(2)}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`,
+    [`<< /Type /XObject /Subtype /Image /Width ${widthPx} /Height ${heightPx} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>`, jpeg],
+    [`<< /Length ${content.length} >>`, encoder.encode(content)],
+    [`<< /Type /Metadata /Subtype /XML /Length ${xmp.length} >>`, xmp],
+    info,
+  ];
+
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+
+  // The binary comment marks the file as binary for transfer tools.
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(length);
+    write(`${index + 1} 0 obj\n`);
+    if (typeof object === 'string') {
+      write(`${object}\n`);
+    } else {
+      write(`${object[0]}\nstream\n`);
+      write(object[1]);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 7 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
@@ -0,0 +1,20 @@
+import type { FilterPreset } from '../types';
+import { openDb, promisify, FILTER_PRESETS } from './db';
+
+// Saved filter presets are shared by all projects. Built-in looks are not stored.
+
+export const listPresets = async (): Promise<FilterPreset[]> => {
+  const db = await openDb();
+  const presets = await promisify(db.transaction(FILTER_PRESETS).objectStore(FILTER_PRESETS).getAll() as IDBRequest<FilterPreset[]>);
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePreset = async (preset: FilterPreset): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(FILTER_PRESETS, 'readwrite').objectStore(FILTER_PRESETS).put(preset));
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(FILTER_PRESETS, 'readwrite').objectStore(FILTER_PRESETS).delete(id));
+};
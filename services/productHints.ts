@@ -0,0 +1,68 @@
+import type { AspectRatio, PlacementBox, Product, ProductHints } from '../types';
+import { aspectRatiosMap } from '../constants';
+import { createCanvas, canvasToBase64 } from './canvasUtils';
+
+// Placement hints tell generation where each product goes and how prominent it is.
+// Boxes are either a cell of a coarse grid or drawn freely on the layout canvas.
+
+export const DEFAULT_PRODUCT_HINTS: ProductHints = {
+  prominence: 'secondary',
+  placement: null,
+  size: 'medium',
+  caption: '',
+};
+
+export const PLACEMENT_GRID_SIZE = 3;
+
+export const getProductHints = (product: Product): ProductHints => product.hints ?? DEFAULT_PRODUCT_HINTS;
+
+// True when any product deviates from the defaults, i.e. the prompt should spell out the layout.
+export const hasCustomHints = (hints: ProductHints[]) =>
+  hints.some(h => h.prominence === 'hero' || h.placement || h.size !== 'medium' || h.caption.trim());
+
+export const gridCellBox = (column: number, row: number): PlacementBox => ({
+  x: column / PLACEMENT_GRID_SIZE,
+  y: row / PLACEMENT_GRID_SIZE,
+  width: 1 / PLACEMENT_GRID_SIZE,
+  height: 1 / PLACEMENT_GRID_SIZE,
+});
+
+// Clamps a box dragged between two points to the poster.
+export const boxFromPoints = (ax: number, ay: number, bx: number, by: number): PlacementBox => {
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+  const [x0, x1] = [clamp(Math.min(ax, bx)), clamp(Math.max(ax, bx))];
+  const [y0, y1] = [clamp(Math.min(ay, by)), clamp(Math.max(ay, by))];
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+};
+
+const GUIDE_LONG_EDGE = 512;
+
+/**
+ * Draws the placement boxes as a numbered sketch on white, for models that follow
+ * a layout image better than words. Returns null when no product has a box.
+ */
+export const renderLayoutGuide = (hints: ProductHints[], aspectRatio: AspectRatio): { base64: string; mimeType: string } | null => {
+  if (!hints.some(h => h.placement)) return null;
+  const ratio = aspectRatiosMap[aspectRatio];
+  const { canvas, ctx } = createCanvas(
+    ratio >= 1 ? GUIDE_LONG_EDGE : GUIDE_LONG_EDGE * ratio,
+    ratio >= 1 ? GUIDE_LONG_EDGE / ratio : GUIDE_LONG_EDGE,
+  );
+  const { width, height } = canvas;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.lineWidth = 4;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  hints.forEach((h, index) => {
+    if (!h.placement) return;
+    const { x, y, width: w, height: hh } = h.placement;
+    ctx.strokeStyle = h.prominence === 'hero' ? '#d00000' : '#000000';
+    ctx.strokeRect(x * width, y * height, w * width, hh * height);
+    ctx.fillStyle = ctx.strokeStyle;
+    ctx.font = `bold ${Math.round(Math.min(w * width, hh * height) / 3)}px sans-serif`;
+    ctx.fillText(String(index + 1), (x + w / 2) * width, (y + hh / 2) * height);
+  });
+  return { base64: canvasToBase64(canvas, 'image/png'), mimeType: 'image/png' };
+};
@@ -0,0 +1,241 @@
+import type { AspectRatio, Layer, Poster, Product, ProductHints } from '../types';
+import { openDb, promisify, transactionDone, PROJECTS, IMAGES } from './db';
+
+// Projects are persisted in IndexedDB. Project records only hold metadata and
+// references into the `images` store, which keeps every image as a Blob. Loaded
+// images are handed back to the UI as object URLs rather than base64 data URLs.
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProjectSnapshot {
+  products: Product[];
+  posters: Poster[];
+  activePosterId: string | null;
+  aspectRatio: AspectRatio;
+  concept: string;
+  posterText: string;
+}
+
+interface StoredProduct {
+  id: string;
+  originalMimeType: string;
+  hasProcessed: boolean;
+  hints?: ProductHints;
+}
+
+// Image layers of a composition are stored like posters, so their `src` is left empty in the record.
+type StoredPoster = Omit<Poster, 'src'>;
+
+interface StoredProject extends ProjectSummary {
+  products: StoredProduct[];
+  posters: StoredPoster[];
+  activePosterId: string | null;
+  aspectRatio: AspectRatio;
+  concept: string;
+  posterText: string;
+}
+
+const imageKey = (projectId: string, ...path: string[]) => [projectId, ...path].join('/');
+
+const projectImageRange = (projectId: string) => IDBKeyRange.bound(`${projectId}/`, `${projectId}/\uffff`);
+
+// Remembers which source was last written under each image key, so unchanged
+// images are not re-read and re-written on every save.
+const savedSources = new Map<string, string>();
+
+// Object URLs handed out for the currently loaded project, revoked on the next load.
+let handedOutUrls: string[] = [];
+
+const toObjectUrl = (blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  handedOutUrls.push(url);
+  return url;
+};
+
+const toBlob = async (src: string) => (await fetch(src)).blob();
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const projects = await promisify(db.transaction(PROJECTS).objectStore(PROJECTS).getAll() as IDBRequest<StoredProject[]>);
+  return projects
+    .map(({ id, name, createdAt, updatedAt }) => ({ id, name, createdAt, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const createProject = async (name: string, aspectRatio: AspectRatio): Promise<ProjectSummary> => {
+  const now = Date.now();
+  const project: StoredProject = {
+    id: `project-${now}-${Math.random().toString(36).slice(2, 7)}`,
+    name,
+    createdAt: now,
+    updatedAt: now,
+    products: [],
+    posters: [],
+    activePosterId: null,
+    aspectRatio,
+    concept: '',
+    posterText: '',
+  };
+  const db = await openDb();
+  await promisify(db.transaction(PROJECTS, 'readwrite').objectStore(PROJECTS).put(project));
+  return { id: project.id, name, createdAt: now, updatedAt: now };
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  const store = tx.objectStore(PROJECTS);
+  const project = await promisify(store.get(id) as IDBRequest<StoredProject | undefined>);
+  if (project) {
+    store.put({ ...project, name, updatedAt: Date.now() });
+  }
+  await transactionDone(tx);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, IMAGES], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(IMAGES).delete(projectImageRange(id));
+  await transactionDone(tx);
+};
+
+export const loadProject = async (id: string): Promise<ProjectSnapshot | null> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, IMAGES]);
+  const project = await promisify(tx.objectStore(PROJECTS).get(id) as IDBRequest<StoredProject | undefined>);
+  if (!project) return null;
+
+  const images = tx.objectStore(IMAGES);
+  const getImage = (key: string) => promisify(images.get(key) as IDBRequest<Blob | undefined>);
+
+  handedOutUrls.forEach(url => URL.revokeObjectURL(url));
+  handedOutUrls = [];
+  savedSources.clear();
+
+  const products: Product[] = [];
+  for (const stored of project.products) {
+    const originalKey = imageKey(id, 'product', stored.id, 'original');
+    const processedKey = imageKey(id, 'product', stored.id, 'processed');
+    const original = await getImage(originalKey);
+    if (!original) continue;
+    const processed = stored.hasProcessed ? await getImage(processedKey) : undefined;
+
+    const product: Product = {
+      id: stored.id,
+      original: toObjectUrl(original),
+      originalMimeType: stored.originalMimeType,
+      processed: processed ? toObjectUrl(processed) : null,
+      isProcessing: false,
+      hints: stored.hints,
+    };
+    savedSources.set(originalKey, product.original);
+    if (product.processed) savedSources.set(processedKey, product.processed);
+    products.push(product);
+  }
+
+  const posters: Poster[] = [];
+  for (const stored of project.posters) {
+    const key = imageKey(id, 'poster', stored.id);
+    const blob = await getImage(key);
+    if (!blob) continue;
+    const poster: Poster = { ...stored, src: toObjectUrl(blob) };
+    savedSources.set(key, poster.src);
+
+    if (stored.composition) {
+      const layers: Layer[] = [];
+      for (const layer of stored.composition.layers) {
+        if (layer.type === 'text') {
+          layers.push(layer);
+          continue;
+        }
+        const layerKey = imageKey(id, 'poster', stored.id, 'layer', layer.id);
+        const layerBlob = await getImage(layerKey);
+        if (!layerBlob) continue;
+        const src = toObjectUrl(layerBlob);
+        savedSources.set(layerKey, src);
+        layers.push({ ...layer, src });
+      }
+      poster.composition = { ...stored.composition, layers };
+    }
+    posters.push(poster);
+  }
+
+  return {
+    products,
+    posters,
+    activePosterId: project.activePosterId,
+    aspectRatio: project.aspectRatio,
+    concept: project.concept,
+    posterText: project.posterText,
+  };
+};
+
+export const saveProject = async (id: string, snapshot: ProjectSnapshot): Promise<void> => {
+  // Products still waiting on background removal are saved without their processed image.
+  const images = new Map<string, string>();
+  for (const product of snapshot.products) {
+    images.set(imageKey(id, 'product', product.id, 'original'), product.original);
+    if (product.processed) images.set(imageKey(id, 'product', product.id, 'processed'), product.processed);
+  }
+  for (const poster of snapshot.posters) {
+    images.set(imageKey(id, 'poster', poster.id), poster.src);
+    for (const layer of poster.composition?.layers ?? []) {
+      if (layer.type === 'image') images.set(imageKey(id, 'poster', poster.id, 'layer', layer.id), layer.src);
+    }
+  }
+
+  // Blobs have to be read before the transaction starts, since it would auto-commit while awaiting fetch.
+  const changed: [string, Blob][] = [];
+  for (const [key, src] of images) {
+    if (savedSources.get(key) !== src) {
+      changed.push([key, await toBlob(src)]);
+    }
+  }
+
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, IMAGES], 'readwrite');
+  const projects = tx.objectStore(PROJECTS);
+  const imageStore = tx.objectStore(IMAGES);
+
+  const existing = await promisify(projects.get(id) as IDBRequest<StoredProject | undefined>);
+  if (!existing) {
+    tx.abort();
+    return;
+  }
+
+  const storedKeys = await promisify(imageStore.getAllKeys(projectImageRange(id)));
+  for (const key of storedKeys) {
+    if (!images.has(key as string)) imageStore.delete(key);
+  }
+  for (const [key, blob] of changed) {
+    imageStore.put(blob, key);
+  }
+
+  projects.put({
+    ...existing,
+    updatedAt: Date.now(),
+    products: snapshot.products.map(p => ({ id: p.id, originalMimeType: p.originalMimeType, hasProcessed: Boolean(p.processed), hints: p.hints })),
+    posters: snapshot.posters.map(({ src, ...poster }) => ({
+      ...poster,
+      composition: poster.composition && {
+        ...poster.composition,
+        layers: poster.composition.layers.map(layer => (layer.type === 'image' ? { ...layer, src: '' } : layer)),
+      },
+    })),
+    activePosterId: snapshot.activePosterId,
+    aspectRatio: snapshot.aspectRatio,
+    concept: snapshot.concept,
+    posterText: snapshot.posterText,
+  });
+
+  await transactionDone(tx);
+  for (const [key] of changed) {
+    savedSources.set(key, images.get(key)!);
+  }
+};
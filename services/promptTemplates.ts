@@ -0,0 +1,56 @@
+import type { PromptTemplate, PromptTemplateTarget } from '../types';
+import type { PackFormat } from './jsonPack';
+import { readPack, writePack } from './jsonPack';
+
+// Prompt templates with {{variable}} placeholders, the built-in poster styles and
+// the JSON format template packs are shared in.
+
+const VARIABLE = /\{\{\s*([a-zA-Z][\w-]*)\s*\}\}/g;
+
+/** The variable names used in a template, in order of first appearance. */
+export const extractVariables = (text: string): string[] =>
+  [...new Set(Array.from(text.matchAll(VARIABLE), match => match[1]))];
+
+/** Replaces every placeholder with its value; variables without a value become empty. */
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(VARIABLE, (_, name: string) => values[name]?.trim() ?? '');
+
+export const newTemplateId = () => `template-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const builtIn = (id: string, name: string, target: PromptTemplateTarget, text: string): PromptTemplate =>
+  ({ id: `builtin-${id}`, name, target, text, builtIn: true });
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  builtIn('seasonal-sale', 'Seasonal sale', 'concept',
+    'A vibrant {{season}} sale poster for {{product}}, festive seasonal decorations, bold and energetic, with room for the offer "{{offer}}"'),
+  builtIn('minimal-studio', 'Minimal studio', 'concept',
+    '{{product}} on a clean pastel studio backdrop, soft diffused lighting, gentle shadows, minimalist premium look'),
+  builtIn('lifestyle', 'Lifestyle scene', 'concept',
+    '{{product}} in a natural {{setting}} lifestyle scene, warm daylight, candid and inviting atmosphere'),
+  builtIn('luxury', 'Luxury dark', 'concept',
+    '{{product}} on dark marble with gold accents, dramatic rim lighting, elegant luxury advertising style'),
+  builtIn('neon', 'Neon night', 'concept',
+    '{{product}} in a neon-lit night city scene, glowing pink and cyan reflections, cyberpunk mood'),
+  builtIn('launch', 'Product launch', 'concept',
+    'A bold launch poster introducing {{product}}: "{{headline}}", dynamic composition, spotlight on the product'),
+  builtIn('refine-background', 'Change background', 'refine',
+    'Change the background to {{background}} while keeping the products unchanged'),
+  builtIn('refine-lighting', 'Adjust lighting', 'refine',
+    'Make the lighting {{mood}}, keeping the composition the same'),
+  builtIn('refine-season', 'Seasonal touch', 'refine',
+    'Add subtle {{season}} decorations around the products'),
+];
+
+const TEMPLATE_PACK: PackFormat = { format: 'ai-edit-prompt-templates', version: 1, entries: 'templates', label: 'prompt template' };
+
+/** Serializes templates as a shareable pack; ids are not included. */
+export const exportTemplatePack = (templates: PromptTemplate[]): string =>
+  writePack(TEMPLATE_PACK, templates.map(({ name, target, text }) => ({ name, target, text })));
+
+/** Reads a template pack, giving every template a new id. Throws on anything that is not a valid pack. */
+export const parseTemplatePack = (json: string): PromptTemplate[] =>
+  readPack(TEMPLATE_PACK, json).flatMap(({ name, target, text }): PromptTemplate[] =>
+    typeof name === 'string' && typeof text === 'string'
+      ? [{ id: newTemplateId(), name, target: target === 'refine' ? 'refine' : 'concept', text }]
+      : [],
+  );
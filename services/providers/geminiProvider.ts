@@ -0,0 +1,328 @@
+import { GoogleGenAI, Modality, Type } from "@google/genai";
+import type { GenerateContentResponse } from "@google/genai";
+import type { CreativeBrief, PlacementBox, ProductSize, ReferenceRole } from "../../types";
+import type { BrandKitInput, ImageInput, ImageProvider, ProductInput, ReferenceInput } from "./types";
+import { DEFAULT_PRODUCT_HINTS, hasCustomHints } from "../productHints";
+import { AiError } from "../aiErrors";
+import { isRecord } from "../jsonPack";
+import { systemPrompt } from "../systemPrompts";
+
+const MODEL = 'gemini-2.5-flash-image';
+const TEXT_MODEL = 'gemini-2.5-flash';
+
+let client: GoogleGenAI | null = null;
+
+// The client is created on first use so that the app can still start (e.g. with
+// the mock provider) when no API key is configured.
+const getClient = (): GoogleGenAI => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    throw new Error("API_KEY environment variable is not set");
+  }
+  if (!client) {
+    client = new GoogleGenAI({ apiKey });
+  }
+  return client;
+};
+
+const getImagePart = (base64Data: string, mimeType: string) => ({
+  inlineData: { data: base64Data, mimeType },
+});
+
+type Part = { text: string } | ReturnType<typeof getImagePart>;
+
+const SAFETY_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'RECITATION'];
+
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new AiError('safety', response.promptFeedback?.blockReasonMessage || 'The prompt was blocked.', { finishReason: blockReason });
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_REASONS.includes(finishReason)) {
+    throw new AiError('safety', 'The response was blocked.', { finishReason });
+  }
+};
+
+// Sends the parts to the image model and returns the first inline image. Blocked
+// prompts and answers without an image are reported as typed errors.
+const generateImage = async (parts: Part[], signal?: AbortSignal): Promise<string> => {
+  const response = await getClient().models.generateContent({
+    model: MODEL,
+    contents: { parts },
+    config: {
+      responseModalities: [Modality.IMAGE, Modality.TEXT],
+      abortSignal: signal,
+    },
+  });
+
+  const candidate = response.candidates?.[0];
+  for (const part of candidate?.content?.parts || []) {
+    if (part.inlineData?.data) {
+      return part.inlineData.data;
+    }
+  }
+
+  throwIfBlocked(response);
+  const finishReason = candidate?.finishReason;
+  const details: Record<string, string> = {};
+  if (finishReason) details.finishReason = finishReason;
+  const modelText = response.text?.trim();
+  if (modelText) details.modelText = modelText.slice(0, 300);
+  throw new AiError('no-image', 'The model returned no image.', details);
+};
+
+// Sends the parts to the text model and returns its answer. With a schema the
+// answer is JSON, which is parsed here.
+const generateText = async (parts: Part[], responseSchema: object | undefined, signal?: AbortSignal): Promise<unknown> => {
+  const response = await getClient().models.generateContent({
+    model: TEXT_MODEL,
+    contents: { parts },
+    config: {
+      ...(responseSchema ? { responseMimeType: 'application/json', responseSchema } : {}),
+      abortSignal: signal,
+    },
+  });
+
+  throwIfBlocked(response);
+  const text = response.text?.trim();
+  if (!text) throw new AiError('invalid-response', 'The model returned no text.');
+  if (!responseSchema) return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new AiError('invalid-response', 'The model did not return valid JSON.', { modelText: text.slice(0, 300) });
+  }
+};
+
+const BRIEFS_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      scene: { type: Type.STRING },
+      mood: { type: Type.STRING },
+      palette: { type: Type.ARRAY, items: { type: Type.STRING } },
+      headline: { type: Type.STRING },
+    },
+    required: ['scene', 'mood', 'palette', 'headline'],
+  },
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Keeps the briefs that have a scene; anything malformed is dropped rather than shown.
+const toBriefs = (value: unknown): CreativeBrief[] => {
+  const items: unknown[] = Array.isArray(value) ? value : [];
+  const briefs = items.filter(isRecord).flatMap(({ scene, mood, palette, headline }): CreativeBrief[] =>
+    typeof scene === 'string' && scene.trim()
+      ? [{
+          scene: scene.trim(),
+          mood: typeof mood === 'string' ? mood.trim() : '',
+          palette: Array.isArray(palette) ? palette.filter((c: unknown): c is string => typeof c === 'string' && HEX_COLOR.test(c)) : [],
+          headline: typeof headline === 'string' ? headline.trim() : '',
+        }]
+      : [],
+  );
+  if (briefs.length === 0) {
+    throw new AiError('invalid-response', 'The model returned no usable concepts.', { modelText: JSON.stringify(value).slice(0, 300) });
+  }
+  return briefs;
+};
+
+// Brand guidelines appended to generation and refinement prompts.
+const brandInstruction = (brandKit: BrandKitInput | null): string => {
+  if (!brandKit) return '';
+  const lines = [`Follow the brand guidelines for "${brandKit.name}".`];
+  if (brandKit.colors.length > 0) {
+    lines.push(`Build the color scheme around the brand palette: ${brandKit.colors.map(c => `${c.name} (${c.color})`).join(', ')}.`);
+  }
+  if (brandKit.fonts.length > 0) {
+    lines.push(`Any lettering should match the brand typography: ${brandKit.fonts.join(', ')}.`);
+  }
+  if (brandKit.tone.trim()) {
+    lines.push(`The overall mood should reflect the brand's tone of voice: ${brandKit.tone.trim()}`);
+  }
+  if (brandKit.logos.length > 0) {
+    lines.push(`The last ${brandKit.logos.length === 1 ? 'image is the brand logo' : `${brandKit.logos.length} images are brand logos`}. Place the logo once, unaltered and legible, in a corner of the poster.`);
+  }
+  return lines.join('\n');
+};
+
+const SIZE_INSTRUCTIONS: Record<ProductSize, string> = {
+  small: 'Show it small, as a minor element.',
+  medium: '',
+  large: 'Show it large, filling much of its area.',
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const describeBox = ({ x, y, width, height }: PlacementBox): string => {
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  const horizontal = cx < 1 / 3 ? 'left' : cx > 2 / 3 ? 'right' : 'center';
+  const vertical = cy < 1 / 3 ? 'top' : cy > 2 / 3 ? 'bottom' : 'middle';
+  const area = vertical === 'middle' && horizontal === 'center' ? 'the center' : `the ${vertical} ${horizontal}`;
+  return `Place it in ${area} of the poster, within ${percent(x)} to ${percent(x + width)} of the width and ${percent(y)} to ${percent(y + height)} of the height.`;
+};
+
+// Spells out prominence, placement, size and caption per product when any of them was set.
+const productInstruction = (products: ProductInput[], hasLayoutGuide: boolean): string => {
+  if (products.length === 0) {
+    return "Create only the background scene: do not depict any product, and leave clear open space in the lower half where products will be placed later.";
+  }
+  const hints = products.map(p => p.hints ?? DEFAULT_PRODUCT_HINTS);
+  const lines = ["Integrate the following product(s) seamlessly and naturally into the design. Ensure they are the focus."];
+  if (!hasCustomHints(hints)) return lines[0];
+
+  lines.push('Product N is the N-th product image. Follow these per-product instructions:');
+  hints.forEach((h, index) => {
+    const parts = [
+      h.prominence === 'hero'
+        ? 'This is the hero product: make it the main focal point, more prominent than the others.'
+        : products.length > 1 && hints.some(o => o.prominence === 'hero') ? 'This is a supporting product.' : '',
+      h.placement ? describeBox(h.placement) : '',
+      SIZE_INSTRUCTIONS[h.size],
+      h.caption.trim() ? `Label it with the caption "${h.caption.trim()}".` : '',
+    ].filter(Boolean);
+    if (parts.length > 0) lines.push(`Product ${index + 1}: ${parts.join(' ')}`);
+  });
+  if (hasLayoutGuide) {
+    lines.push('The image right after the product images is a layout sketch: each numbered box marks where that product goes. Follow the layout, but do not draw the boxes or numbers.');
+  }
+  return lines.join('\n');
+};
+
+const REFERENCE_ASPECTS: Record<ReferenceRole, string> = {
+  style: 'its artistic style and rendering',
+  composition: 'its composition and layout',
+  color: 'its color palette',
+  lighting: 'its lighting and atmosphere',
+  typography: 'the style of its lettering and typography',
+};
+
+const referenceStrength = (strength: number) =>
+  strength >= 67 ? 'Closely follow' : strength >= 34 ? 'Draw on' : 'Loosely take inspiration from';
+
+// Describes each reference image by its role, in the order the images are sent.
+// `precedingImages` names the images sent before the references, if any.
+const referenceInstruction = (references: ReferenceInput[], precedingImages: string | null): string => {
+  if (references.length === 0) return '';
+  const lines = [
+    `${precedingImages ? `After the ${precedingImages} come` : 'The first'} ${references.length} reference image(s). Use each one only for the aspect given, and do not copy its subject matter:`,
+  ];
+  references.forEach((reference, index) => {
+    lines.push(`Reference ${index + 1}: ${referenceStrength(reference.strength)} ${REFERENCE_ASPECTS[reference.role]}.`);
+  });
+  return lines.join('\n');
+};
+
+const brandLogoParts = (brandKit: BrandKitInput | null) =>
+  (brandKit?.logos || []).map(logo => getImagePart(logo.base64, logo.mimeType));
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+
+  isAvailable: () => Boolean(process.env.API_KEY),
+
+  removeBackground: (image, signal) => generateImage([
+    getImagePart(image.base64, image.mimeType),
+    { text: systemPrompt('removeBackground') },
+  ], signal),
+
+  generate: async ({ products, concept, aspectRatio, layoutGuide, references, posterText, brandKit }, signal) => {
+    const hasCaptions = products.some(p => p.hints?.caption.trim());
+    let textInstruction = hasCaptions
+      ? "Do not add any text, words, or letters to the poster other than the product captions."
+      : "Do not add any text, words, or letters to the poster. The output should be purely visual.";
+    if (posterText.trim()) {
+      textInstruction = `Elegantly incorporate the following text into the design: "${posterText}".`;
+    }
+
+    const prompt = systemPrompt('generate', {
+      concept,
+      aspectRatio,
+      productInstruction: productInstruction(products, Boolean(layoutGuide)),
+      textInstruction,
+      referenceInstruction: referenceInstruction(
+        references,
+        products.length === 0 ? null : layoutGuide ? 'product images and the layout sketch' : 'product image(s)',
+      ),
+      brandInstruction: brandInstruction(brandKit),
+    });
+
+    const parts: Part[] = [
+      { text: prompt },
+      ...products.map(p => getImagePart(p.base64, p.mimeType)),
+    ];
+    if (layoutGuide) {
+      parts.push(getImagePart(layoutGuide.base64, layoutGuide.mimeType));
+    }
+    parts.push(...references.map(r => getImagePart(r.base64, r.mimeType)));
+    parts.push(...brandLogoParts(brandKit));
+
+    return generateImage(parts, signal);
+  },
+
+  refine: async (poster, refinementPrompt, brandKit, _variation, signal) => {
+    const prompt = systemPrompt('refine', { instruction: refinementPrompt, brandInstruction: brandInstruction(brandKit) });
+
+    const parts: Part[] = [
+      { text: prompt },
+      getImagePart(poster.base64, poster.mimeType),
+      ...brandLogoParts(brandKit),
+    ];
+
+    return generateImage(parts, signal);
+  },
+
+  inpaint: async (poster, mask, inpaintPrompt, brandKit, _variation, signal) => {
+    const prompt = systemPrompt('inpaint', { instruction: inpaintPrompt, brandInstruction: brandInstruction(brandKit) });
+
+    const parts: Part[] = [
+      { text: prompt },
+      getImagePart(poster.base64, poster.mimeType),
+      getImagePart(mask.base64, mask.mimeType),
+      ...brandLogoParts(brandKit),
+    ];
+
+    return generateImage(parts, signal);
+  },
+
+  expand: (canvas, mask, { width, height }, signal) =>
+    generateImage([
+      { text: systemPrompt('expand', { width: String(width), height: String(height) }) },
+      getImagePart(canvas.base64, canvas.mimeType),
+      getImagePart(mask.base64, mask.mimeType),
+    ], signal),
+
+  // The text model only sees the product photos, so the brand logos are left out.
+  suggestConcepts: async (products, count, brandKit, signal) => {
+    const prompt = systemPrompt('suggestConcepts', {
+      count: String(count),
+      brandInstruction: brandInstruction(brandKit && { ...brandKit, logos: [] }),
+    });
+
+    const parts: Part[] = [
+      { text: prompt },
+      ...products.map(p => getImagePart(p.base64, p.mimeType)),
+    ];
+
+    return toBriefs(await generateText(parts, BRIEFS_SCHEMA, signal)).slice(0, count);
+  },
+
+  enhanceConcept: async (concept, products, brandKit, signal) => {
+    const prompt = systemPrompt('enhanceConcept', {
+      concept,
+      brandInstruction: brandInstruction(brandKit && { ...brandKit, logos: [] }),
+    });
+
+    const parts: Part[] = [
+      { text: prompt },
+      ...products.map(p => getImagePart(p.base64, p.mimeType)),
+    ];
+
+    return String(await generateText(parts, undefined, signal)).replace(/^"|"$/g, '');
+  },
+};
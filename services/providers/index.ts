@@ -0,0 +1,22 @@
+import type { ImageProvider, ImageProviderId } from './types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+export type { ImageProvider, ImageProviderId, ImageInput, GenerateRequest, BrandKitInput, ProductInput, ReferenceInput } from './types';
+
+export const imageProviders: Record<ImageProviderId, ImageProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// Prefer the real model when a key is configured, otherwise fall back to the offline mock.
+export const getDefaultProviderId = (): ImageProviderId =>
+  geminiProvider.isAvailable() ? 'gemini' : 'mock';
+
+let activeProvider: ImageProvider = imageProviders[getDefaultProviderId()];
+
+export const getActiveProvider = (): ImageProvider => activeProvider;
+
+export const setActiveProvider = (id: ImageProviderId) => {
+  activeProvider = imageProviders[id];
+};
@@ -0,0 +1,178 @@
+import type { AspectRatio, CreativeBrief, ProductSize } from "../../types";
+import type { ImageInput, ImageProvider } from "./types";
+import { loadImage, toDataUrl, createCanvas, canvasToBase64 } from "../canvasUtils";
+import { removeBackgroundLocally } from "../segmentation";
+import { DEFAULT_PRODUCT_HINTS } from "../productHints";
+
+// A fully local provider that never touches the network. Its output is a pure
+// function of its inputs, which makes it suitable for offline development and tests.
+
+const LONG_EDGE = 1024;
+
+const ASPECT_SIZES: Record<AspectRatio, [number, number]> = {
+  '9:16': [9, 16],
+  '1:1': [1, 1],
+  '16:9': [16, 9],
+  '3:4': [3, 4],
+  '4:3': [4, 3],
+};
+
+// FNV-1a, used to derive stable colors from prompts.
+const hash = (value: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const hueFor = (value: string) => hash(value) % 360;
+
+const loadInput = (image: ImageInput) => loadImage(toDataUrl(image.base64, image.mimeType));
+
+const SIZE_FACTORS: Record<ProductSize, number> = { small: 0.5, medium: 0.8, large: 1 };
+
+// Same color key as the local fallback of the real providers.
+const removeBackground: ImageProvider['removeBackground'] = removeBackgroundLocally;
+
+const generate: ImageProvider['generate'] = async ({ products, concept, aspectRatio, posterText, brandKit }) => {
+  const [rw, rh] = ASPECT_SIZES[aspectRatio];
+  const scale = LONG_EDGE / Math.max(rw, rh);
+  const { canvas, ctx } = createCanvas(rw * scale, rh * scale);
+  const { width, height } = canvas;
+
+  // Brand colors take precedence over the colors derived from the concept.
+  const hue = hueFor(concept);
+  const [from, to] = brandKit && brandKit.colors.length > 0
+    ? [brandKit.colors[0].color, brandKit.colors[brandKit.colors.length > 1 ? 1 : 0].color]
+    : [`hsl(${hue}, 70%, 55%)`, `hsl(${(hue + 60) % 360}, 70%, 25%)`];
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, from);
+  gradient.addColorStop(1, to);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // Products go into their placement boxes, or side by side in the lower two thirds.
+  const images = await Promise.all(products.map(loadInput));
+  const slotWidth = width / Math.max(1, images.length);
+  images.forEach((img, index) => {
+    const hints = products[index].hints ?? DEFAULT_PRODUCT_HINTS;
+    const box = hints.placement
+      ? { x: hints.placement.x * width, y: hints.placement.y * height, w: hints.placement.width * width, h: hints.placement.height * height }
+      : { x: slotWidth * index, y: height * 0.4, w: slotWidth, h: height * 0.55 };
+    const factor = SIZE_FACTORS[hints.size] * (hints.prominence === 'hero' && !hints.placement ? 1.2 : 1);
+    const fit = Math.min((box.w * factor) / img.naturalWidth, (box.h * factor) / img.naturalHeight);
+    const w = img.naturalWidth * fit;
+    const h = img.naturalHeight * fit;
+    const left = box.x + (box.w - w) / 2;
+    const top = box.y + (box.h - h) / 2;
+    ctx.drawImage(img, left, top, w, h);
+    if (hints.caption.trim()) {
+      ctx.fillStyle = '#ffffff';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+      ctx.font = `${Math.round(width / 32)}px sans-serif`;
+      ctx.fillText(hints.caption.trim(), left + w / 2, Math.min(top + h + 4, height - width / 30), box.w);
+    }
+  });
+
+  const [logo] = await Promise.all((brandKit?.logos || []).slice(0, 1).map(loadInput));
+  if (logo) {
+    const fit = (width * 0.15) / logo.naturalWidth;
+    ctx.drawImage(logo, width * 0.03, height * 0.03, logo.naturalWidth * fit, logo.naturalHeight * fit);
+  }
+
+  if (posterText.trim()) {
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `bold ${Math.round(width / 12)}px sans-serif`;
+    ctx.fillText(posterText, width / 2, height * 0.2, width * 0.9);
+  }
+
+  return canvasToBase64(canvas);
+};
+
+const refine: ImageProvider['refine'] = async (poster, prompt, _brandKit, variation) => {
+  const img = await loadInput(poster);
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  ctx.globalCompositeOperation = 'color';
+  ctx.globalAlpha = 0.25;
+  ctx.fillStyle = `hsl(${hueFor(`${prompt}#${variation}`)}, 80%, 50%)`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvasToBase64(canvas);
+};
+
+// The app composites the result through the mask, so the whole-image tint is enough.
+const inpaint: ImageProvider['inpaint'] = (poster, _mask, prompt, brandKit, variation) => refine(poster, prompt, brandKit, variation);
+
+// Fills the whole canvas with a heavily blurred, dimmed copy of itself. The app pastes
+// the original back over its own area, so only the margins show.
+const expand: ImageProvider['expand'] = async (padded, _mask, { width, height }) => {
+  const img = await loadInput(padded);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.filter = `blur(${Math.round(Math.max(width, height) / 40)}px)`;
+  ctx.drawImage(img, 0, 0, width, height);
+  ctx.filter = 'none';
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+  ctx.fillRect(0, 0, width, height);
+  return canvasToBase64(canvas);
+};
+
+const MOCK_SCENES = [
+  ['on a sunlit marble countertop with soft morning shadows', 'fresh and calm'],
+  ['floating above a pastel gradient with scattered confetti', 'playful and bright'],
+  ['on a dark slate pedestal under a single dramatic spotlight', 'bold and premium'],
+  ['in a lush garden setting surrounded by leaves and flowers', 'natural and relaxed'],
+  ['on a neon-lit city street at night with reflections on wet asphalt', 'energetic and modern'],
+];
+
+const MOCK_HEADLINES = ['Made for Your Moment', 'Feel the Difference', 'Your New Favorite', 'Simply Better', 'Shine Every Day'];
+
+const hslToHex = (h: number, s: number, l: number): string => {
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const value = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+};
+
+// Picks from canned scenes, seeded by the product images so that other products give other briefs.
+const suggestConcepts: ImageProvider['suggestConcepts'] = async (products, count, brandKit) => {
+  const seed = hash(products.map(p => p.base64.slice(0, 256)).join('|'));
+  return Array.from({ length: count }, (_, i): CreativeBrief => {
+    const [scene, mood] = MOCK_SCENES[(seed + i) % MOCK_SCENES.length];
+    const hue = (seed + i * 97) % 360;
+    return {
+      scene: `The product ${scene}`,
+      mood,
+      palette: brandKit && brandKit.colors.length > 0
+        ? brandKit.colors.map(c => c.color)
+        : [hslToHex(hue, 0.7, 0.55), hslToHex((hue + 30) % 360, 0.6, 0.75), hslToHex((hue + 180) % 360, 0.5, 0.3)],
+      headline: MOCK_HEADLINES[(seed + i) % MOCK_HEADLINES.length],
+    };
+  });
+};
+
+const enhanceConcept: ImageProvider['enhanceConcept'] = async (concept, products) => {
+  const [, mood] = MOCK_SCENES[hash(concept) % MOCK_SCENES.length];
+  const subject = products.length === 1 ? 'the product' : 'the products';
+  return `${concept.trim().replace(/\.$/, '')}, with ${subject} as the clear focal point. Soft studio lighting, a shallow depth of field and a ${mood} mood, in a clean composition with room for a headline.`;
+};
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+  isAvailable: () => true,
+  removeBackground,
+  generate,
+  refine,
+  inpaint,
+  expand,
+  suggestConcepts,
+  enhanceConcept,
+};
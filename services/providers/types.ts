@@ -0,0 +1,56 @@
+import type { AspectRatio, BrandColor, CreativeBrief, ProductHints, ReferenceRole } from '../../types';
+
+export type ImageProviderId = 'gemini' | 'mock';
+
+export interface ImageInput {
+  base64: string;
+  mimeType: string;
+}
+
+export interface BrandKitInput {
+  name: string;
+  colors: BrandColor[];
+  fonts: string[];
+  tone: string;
+  logos: ImageInput[];
+}
+
+export interface ProductInput extends ImageInput {
+  hints?: ProductHints;
+}
+
+export interface ReferenceInput extends ImageInput {
+  role: ReferenceRole;
+  strength: number; // 0-100
+}
+
+export interface GenerateRequest {
+  products: ProductInput[]; // empty for a product-free background scene
+  concept: string;
+  aspectRatio: AspectRatio;
+  layoutGuide: ImageInput | null; // numbered placement boxes for the products
+  references: ReferenceInput[];
+  posterText: string;
+  brandKit: BrandKitInput | null;
+}
+
+/**
+ * An image model backend. Every image method resolves to the raw base64 payload
+ * of the resulting image (no data URL header). `signal` aborts the underlying request.
+ */
+export interface ImageProvider {
+  id: ImageProviderId;
+  label: string;
+  isAvailable: () => boolean;
+  removeBackground: (image: ImageInput, signal?: AbortSignal) => Promise<string>;
+  generate: (request: GenerateRequest, signal?: AbortSignal) => Promise<string>;
+  // One call per variation; `variation` tells the calls for one request apart.
+  refine: (poster: ImageInput, prompt: string, brandKit: BrandKitInput | null, variation: number, signal?: AbortSignal) => Promise<string>;
+  // `mask` is white where the poster may change and black elsewhere.
+  inpaint: (poster: ImageInput, mask: ImageInput, prompt: string, brandKit: BrandKitInput | null, variation: number, signal?: AbortSignal) => Promise<string>;
+  // `canvas` is the poster already padded to `size`; `mask` is white over the empty area to fill.
+  expand: (canvas: ImageInput, mask: ImageInput, size: { width: number; height: number }, signal?: AbortSignal) => Promise<string>;
+  // Text helpers for writing the poster concept.
+  suggestConcepts: (products: ImageInput[], count: number, brandKit: BrandKitInput | null, signal?: AbortSignal) => Promise<CreativeBrief[]>;
+  enhanceConcept: (concept: string, products: ImageInput[], brandKit: BrandKitInput | null, signal?: AbortSignal) => Promise<string>;
+}
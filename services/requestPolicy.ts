@@ -0,0 +1,109 @@
+// Timeouts, retries and cancellation for model calls. Every attempt gets its own
+// timeout; rate limits and transient failures are retried with exponential backoff.
+
+export interface RequestPolicy {
+  timeoutMs: number; // per attempt
+  maxRetries: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = { timeoutMs: 120_000, maxRetries: 3 };
+
+const BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 30_000;
+
+let activePolicy: RequestPolicy = DEFAULT_REQUEST_POLICY;
+
+export const setRequestPolicy = (policy: RequestPolicy) => {
+  activePolicy = policy;
+};
+
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('The request was cancelled.');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`The request timed out after ${Math.round(timeoutMs / 1000)} seconds.`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/** True for errors caused by the caller aborting, which should not be reported as failures. */
+export const isCancelled = (error: unknown): boolean =>
+  error instanceof RequestCancelledError || (error instanceof Error && error.name === 'AbortError');
+
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+const TRANSIENT_MESSAGE = /RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|rate limit|overloaded|failed to fetch|fetch failed|network/i;
+
+/** Rate limits, server errors, timeouts and network failures are worth another attempt. */
+export const isTransientError = (error: unknown): boolean => {
+  if (error instanceof RequestTimeoutError) return true;
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return TRANSIENT_STATUSES.includes(status);
+  return error instanceof Error && TRANSIENT_MESSAGE.test(error.message);
+};
+
+const backoffDelay = (attempt: number) =>
+  Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs one attempt with its own abort signal, which fires on timeout or when the
+ * caller aborts. The attempt is abandoned at that point even if the provider
+ * does not honor the signal.
+ */
+const runAttempt = <T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      controller.abort();
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      finish();
+      controller.abort();
+      reject(new RequestTimeoutError(timeoutMs));
+    }, timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    run(controller.signal).then(
+      result => { finish(); resolve(result); },
+      error => { finish(); reject(controller.signal.aborted ? new RequestCancelledError() : error); },
+    );
+  });
+};
+
+/** Runs a model call under the active policy. Rejects with `RequestCancelledError` once `signal` aborts. */
+export const withRequestPolicy = async <T>(run: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  const { timeoutMs, maxRetries } = activePolicy;
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new RequestCancelledError();
+    try {
+      return await runAttempt(run, timeoutMs, signal);
+    } catch (error) {
+      if (isCancelled(error) || attempt >= maxRetries || !isTransientError(error)) throw error;
+      console.warn(`Model request failed (attempt ${attempt + 1} of ${maxRetries + 1}), retrying:`, error);
+      await sleep(backoffDelay(attempt), signal);
+    }
+  }
+};
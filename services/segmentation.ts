@@ -0,0 +1,200 @@
+import type { ImageInput } from './providers/types';
+import { loadImage, toDataUrl, createCanvas, canvasToBase64 } from './canvasUtils';
+
+// In-browser background removal for product shots on a plain backdrop, and checks
+// for cutouts returned by a model: whether they really carry an alpha channel, or
+// just have a transparency checkerboard painted into the pixels.
+
+type Rgb = [number, number, number];
+
+// Below this share of see-through pixels an image is treated as fully opaque.
+const MIN_TRANSPARENT_SHARE = 0.01;
+
+// Sum of the per-channel differences under which a pixel matches a background color.
+const KEY_TOLERANCE = 48;
+
+const readPixels = async (image: ImageInput) => {
+  const img = await loadImage(toDataUrl(image.base64, image.mimeType));
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  return { canvas, ctx, data: ctx.getImageData(0, 0, canvas.width, canvas.height) };
+};
+
+const distance = (px: Uint8ClampedArray, offset: number, color: Rgb) =>
+  Math.abs(px[offset] - color[0]) + Math.abs(px[offset + 1] - color[1]) + Math.abs(px[offset + 2] - color[2]);
+
+const transparentShare = ({ data }: ImageData) => {
+  let transparent = 0;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 250) transparent++;
+  }
+  return transparent / (data.length / 4);
+};
+
+const borderOffsets = (width: number, height: number) => {
+  const offsets: number[] = [];
+  for (let x = 0; x < width; x++) {
+    offsets.push(x, (height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    offsets.push(y * width, y * width + width - 1);
+  }
+  return offsets;
+};
+
+/**
+ * The most common colors along the image border, which a product shot keeps free of
+ * the product. Colors are bucketed coarsely so noise and JPEG artifacts collapse together.
+ */
+const borderColors = ({ data, width, height }: ImageData, maxColors: number) => {
+  const buckets = new Map<number, { count: number; sum: Rgb }>();
+  const offsets = borderOffsets(width, height);
+  for (const pixel of offsets) {
+    const i = pixel * 4;
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, sum: [0, 0, 0] };
+    bucket.count++;
+    bucket.sum[0] += data[i];
+    bucket.sum[1] += data[i + 1];
+    bucket.sum[2] += data[i + 2];
+    buckets.set(key, bucket);
+  }
+
+  const dominant = [...buckets.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, maxColors)
+    .filter(bucket => bucket.count >= offsets.length * 0.1);
+  return {
+    colors: dominant.map(({ count, sum }) => sum.map(channel => channel / count) as Rgb),
+    coverage: dominant.reduce((total, bucket) => total + bucket.count, 0) / offsets.length,
+  };
+};
+
+/**
+ * Finds the two light grays of a transparency checkerboard baked into the pixels.
+ * Besides covering most of the border, the colors have to alternate in runs of a
+ * regular length along the top edge.
+ */
+const detectCheckerboard = (image: ImageData): Rgb[] | null => {
+  const { colors, coverage } = borderColors(image, 2);
+  if (colors.length < 2 || coverage < 0.6) return null;
+  const isLightGray = ([r, g, b]: Rgb) => Math.max(r, g, b) - Math.min(r, g, b) < 16 && Math.min(r, g, b) > 150;
+  if (!colors.every(isLightGray) || Math.abs(colors[0][0] - colors[1][0]) < 8) return null;
+
+  const runs: number[] = [];
+  let current = -1;
+  for (let x = 0; x < image.width; x++) {
+    const offset = x * 4;
+    const nearest = distance(image.data, offset, colors[0]) <= distance(image.data, offset, colors[1]) ? 0 : 1;
+    if (nearest === current) {
+      runs[runs.length - 1]++;
+    } else {
+      runs.push(1);
+      current = nearest;
+    }
+  }
+  // The first and last runs can be cut off by the image edge.
+  const inner = runs.slice(1, -1).sort((a, b) => a - b);
+  if (inner.length < 4) return null;
+  const median = inner[Math.floor(inner.length / 2)];
+  const regular = inner.filter(run => Math.abs(run - median) <= 2).length / inner.length;
+  return median >= 4 && median <= 64 && regular >= 0.7 ? colors : null;
+};
+
+/**
+ * Clears every pixel connected to the border that matches one of the background
+ * colors, then softens the boundary: pixels next to the cleared area get an alpha
+ * proportional to how far their color is from the background, and the alpha along
+ * the edge is smoothed once to hide the stair steps of the flood fill.
+ */
+const keyOutBackground = (image: ImageData, colors: Rgb[], tolerance = KEY_TOLERANCE) => {
+  const { data, width, height } = image;
+  const isBackground = (pixel: number) => colors.some(color => distance(data, pixel * 4, color) <= tolerance);
+  const background = new Uint8Array(width * height);
+  const stack: number[] = [];
+  for (const pixel of borderOffsets(width, height)) {
+    if (!background[pixel] && isBackground(pixel)) {
+      background[pixel] = 1;
+      stack.push(pixel);
+    }
+  }
+  while (stack.length > 0) {
+    const pixel = stack.pop()!;
+    const x = pixel % width;
+    const neighbours = [
+      x > 0 ? pixel - 1 : -1,
+      x < width - 1 ? pixel + 1 : -1,
+      pixel - width,
+      pixel + width,
+    ];
+    for (const next of neighbours) {
+      if (next >= 0 && next < background.length && !background[next] && isBackground(next)) {
+        background[next] = 1;
+        stack.push(next);
+      }
+    }
+  }
+
+  const edge: number[] = [];
+  for (let pixel = 0; pixel < background.length; pixel++) {
+    if (background[pixel]) {
+      data[pixel * 4 + 3] = 0;
+      continue;
+    }
+    const x = pixel % width;
+    const touchesBackground =
+      (x > 0 && background[pixel - 1]) || (x < width - 1 && background[pixel + 1]) ||
+      (pixel >= width && background[pixel - width]) || (pixel < background.length - width && background[pixel + width]);
+    if (touchesBackground) {
+      const nearest = Math.min(...colors.map(color => distance(data, pixel * 4, color)));
+      data[pixel * 4 + 3] = Math.round(255 * Math.min(1, Math.max(0, (nearest - tolerance) / tolerance)));
+      edge.push(pixel);
+    }
+  }
+
+  const alpha = (x: number, y: number) => data[(Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))) * 4 + 3];
+  const smoothed = edge.map(pixel => {
+    const x = pixel % width;
+    const y = Math.floor(pixel / width);
+    let sum = 0;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) sum += alpha(x + dx, y + dy);
+    }
+    return Math.round(sum / 9);
+  });
+  edge.forEach((pixel, index) => { data[pixel * 4 + 3] = smoothed[index]; });
+};
+
+/**
+ * Removes a plain or two-tone backdrop locally by color keying from the border.
+ * Resolves to the raw base64 payload of a PNG, like the providers.
+ */
+export const removeBackgroundLocally = async (image: ImageInput): Promise<string> => {
+  const { canvas, ctx, data } = await readPixels(image);
+  const { colors } = borderColors(data, 2);
+  if (colors.length === 0) {
+    throw new Error('The image has no uniform background to remove.');
+  }
+  keyOutBackground(data, colors);
+  if (transparentShare(data) < MIN_TRANSPARENT_SHARE) {
+    throw new Error('No background could be separated from the product.');
+  }
+  ctx.putImageData(data, 0, 0);
+  return canvasToBase64(canvas, 'image/png');
+};
+
+/**
+ * Checks a cutout returned by a model. Resolves to the payload unchanged when it has
+ * real transparency, to a repaired PNG when a checkerboard was painted into it, or to
+ * null when the image is opaque all the same.
+ */
+export const ensureTransparency = async (image: ImageInput): Promise<string | null> => {
+  const { canvas, ctx, data } = await readPixels(image);
+  if (transparentShare(data) >= MIN_TRANSPARENT_SHARE) return image.base64;
+
+  const checkerboard = detectCheckerboard(data);
+  if (!checkerboard) return null;
+  keyOutBackground(data, checkerboard);
+  ctx.putImageData(data, 0, 0);
+  return canvasToBase64(canvas, 'image/png');
+};
@@ -0,0 +1,82 @@
+import { fillTemplate } from './promptTemplates';
+
+// The prompt scaffolding sent to the model around the user's own text. Each
+// prompt is a template; the user can override it, and the override persists.
+
+export type SystemPromptId = 'generate' | 'refine' | 'inpaint' | 'expand' | 'removeBackground' | 'suggestConcepts' | 'enhanceConcept';
+
+export interface SystemPromptDefinition {
+  label: string;
+  variables: string[]; // filled in by the provider
+  text: string;
+}
+
+export const SYSTEM_PROMPTS: Record<SystemPromptId, SystemPromptDefinition> = {
+  generate: {
+    label: 'Generate poster',
+    variables: ['concept', 'aspectRatio', 'productInstruction', 'textInstruction', 'referenceInstruction', 'brandInstruction'],
+    text: `Create an attractive, catchy poster based on the concept: "{{concept}}".
+The final image MUST be a high-resolution image targeting 2048x2048 pixels, and its dimensions MUST strictly conform to a {{aspectRatio}} aspect ratio.
+{{productInstruction}}
+{{textInstruction}}
+{{referenceInstruction}}
+{{brandInstruction}}
+The final output should be a single, high-quality, complete poster image. Do not include any text placeholders like '[Your Text Here]'.`,
+  },
+  refine: {
+    label: 'Refine poster',
+    variables: ['instruction', 'brandInstruction'],
+    text: `Refine the provided poster image based on this instruction: "{{instruction}}".
+The output must be a new version of the image incorporating the change. Maintain the original aspect ratio.
+{{brandInstruction}}`,
+  },
+  inpaint: {
+    label: 'Edit selected area',
+    variables: ['instruction', 'brandInstruction'],
+    text: `Edit only the region of the first image that is white in the second image (the mask), based on this instruction: "{{instruction}}".
+Keep everything outside the masked region exactly as it is, and blend the edit naturally into its surroundings. Maintain the original aspect ratio.
+{{brandInstruction}}`,
+  },
+  expand: {
+    label: 'Expand',
+    variables: ['width', 'height'],
+    text: `The first image is a {{width}}×{{height}} canvas holding a poster with empty gray margins. The second image is a mask of the same size that is white over those margins.
+Fill the white area of the mask by seamlessly extending the existing scene (outpainting), matching its style, lighting and perspective. Keep everything in the black area exactly as it is.
+The output must be the complete {{width}}×{{height}} image, with the original content in exactly the same place.`,
+  },
+  removeBackground: {
+    label: 'Remove background',
+    variables: [],
+    text: 'Isolate the main product in this image and place it on a transparent background. The output must be a single PNG image with transparency. Do not add any shadows, reflections, or other elements.',
+  },
+  suggestConcepts: {
+    label: 'Suggest concepts',
+    variables: ['count', 'brandInstruction'],
+    text: `You are a creative director. Look at the product image(s) and propose {{count}} distinct poster concepts for advertising them.
+For each concept give the scene (one or two sentences on the setting and composition), the mood (a few words), a palette of 3 to 5 hex colors and a catchy headline of at most 8 words.
+{{brandInstruction}}`,
+  },
+  enhanceConcept: {
+    label: 'Enhance concept',
+    variables: ['concept', 'brandInstruction'],
+    text: `Rewrite this poster concept into a detailed prompt for an image model: "{{concept}}".
+Describe the setting, composition, lighting, mood and color palette in 2 to 4 sentences, keeping the product(s) in the image(s) as the focus.
+Answer with the rewritten concept only, without quotes or commentary.
+{{brandInstruction}}`,
+  },
+};
+
+export type SystemPromptOverrides = Partial<Record<SystemPromptId, string>>;
+
+let overrides: SystemPromptOverrides = {};
+
+export const setSystemPromptOverrides = (next: SystemPromptOverrides) => {
+  overrides = next;
+};
+
+/** The prompt to send, with its variables filled in. Lines left empty by unused variables are dropped. */
+export const systemPrompt = (id: SystemPromptId, values: Record<string, string> = {}): string =>
+  fillTemplate(overrides[id] ?? SYSTEM_PROMPTS[id].text, values)
+    .split('\n')
+    .filter(line => line.trim())
+    .join('\n');
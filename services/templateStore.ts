@@ -0,0 +1,20 @@
+import type { PromptTemplate } from '../types';
+import { openDb, promisify, PROMPT_TEMPLATES } from './db';
+
+// Saved prompt templates are shared by all projects. Built-in templates are not stored.
+
+export const listTemplates = async (): Promise<PromptTemplate[]> => {
+  const db = await openDb();
+  const templates = await promisify(db.transaction(PROMPT_TEMPLATES).objectStore(PROMPT_TEMPLATES).getAll() as IDBRequest<PromptTemplate[]>);
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveTemplate = async (template: PromptTemplate): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(PROMPT_TEMPLATES, 'readwrite').objectStore(PROMPT_TEMPLATES).put(template));
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(PROMPT_TEMPLATES, 'readwrite').objectStore(PROMPT_TEMPLATES).delete(id));
+};
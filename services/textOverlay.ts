@@ -0,0 +1,81 @@
+import type { TextOverlay } from '../types';
+import { createCanvas } from './canvasUtils';
+
+export const OVERLAY_FONTS: { label: string; value: string }[] = [
+  { label: 'Sans', value: 'Helvetica, Arial, sans-serif' },
+  { label: 'Serif', value: 'Georgia, "Times New Roman", serif' },
+  { label: 'Display', value: 'Impact, "Arial Black", sans-serif' },
+  { label: 'Mono', value: '"Courier New", monospace' },
+  { label: 'Script', value: '"Brush Script MT", cursive' },
+];
+
+export const LINE_HEIGHT = 1.2;
+
+// Shadow geometry in fractions of the font size, shared by the preview and the export.
+export const SHADOW = { color: 'rgba(0, 0, 0, 0.6)', offsetY: 0.05, blur: 0.15 };
+
+export const createTextOverlay = (text: string, changes: Partial<TextOverlay> = {}): TextOverlay => ({
+  id: `text-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  text,
+  fontFamily: OVERLAY_FONTS[0].value,
+  fontWeight: 'bold',
+  fontSize: 0.08,
+  color: '#ffffff',
+  align: 'center',
+  shadow: true,
+  x: 0.5,
+  y: 0.15,
+  rotation: 0,
+  ...changes,
+});
+
+const fontFor = (overlay: TextOverlay, fontSize: number) => `${overlay.fontWeight} ${fontSize}px ${overlay.fontFamily}`;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Size in pixels of the unrotated text block when the poster is `width` pixels wide.
+export const measureTextOverlay = (overlay: TextOverlay, width: number) => {
+  measureContext ??= createCanvas(1, 1).ctx;
+  const ctx = measureContext;
+  const fontSize = overlay.fontSize * width;
+  const lines = overlay.text.split('\n');
+  ctx.font = fontFor(overlay, fontSize);
+  return {
+    width: Math.max(...lines.map(line => ctx.measureText(line).width)),
+    height: lines.length * fontSize * LINE_HEIGHT,
+  };
+};
+
+/**
+ * Rasterizes text overlays onto a canvas of the given size. Mirrors the DOM layout
+ * used for the live preview: each overlay is a block of lines centered on (x, y),
+ * aligned within the width of its longest line, then rotated around its center.
+ */
+export const drawTextOverlays = (ctx: CanvasRenderingContext2D, overlays: TextOverlay[], width: number, height: number) => {
+  for (const overlay of overlays) {
+    const fontSize = overlay.fontSize * width;
+    const lines = overlay.text.split('\n');
+    const lineHeight = fontSize * LINE_HEIGHT;
+
+    ctx.save();
+    ctx.translate(overlay.x * width, overlay.y * height);
+    ctx.rotate((overlay.rotation * Math.PI) / 180);
+    ctx.font = fontFor(overlay, fontSize);
+    ctx.fillStyle = overlay.color;
+    ctx.textAlign = overlay.align;
+    ctx.textBaseline = 'middle';
+    if (overlay.shadow) {
+      ctx.shadowColor = SHADOW.color;
+      ctx.shadowOffsetY = fontSize * SHADOW.offsetY;
+      ctx.shadowBlur = fontSize * SHADOW.blur;
+    }
+
+    const blockWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+    const anchorX = overlay.align === 'left' ? -blockWidth / 2 : overlay.align === 'right' ? blockWidth / 2 : 0;
+    lines.forEach((line, index) => {
+      const y = (index - (lines.length - 1) / 2) * lineHeight;
+      ctx.fillText(line, anchorX, y);
+    });
+    ctx.restore();
+  }
+};
@@ -0,0 +1,114 @@
+// Lanczos-3 upscaling by a whole factor. Every output pixel depends only on the
+// source, so the image is processed in independent output tiles: memory for the
+// intermediate pass stays small and progress can be reported per tile. Colors are
+// resampled premultiplied by alpha, so transparent edges do not bleed dark fringes.
+
+export type UpscaleFactor = 2 | 4;
+
+export const UPSCALE_TILE_SIZE = 256;
+
+const LOBES = 3;
+const TAPS = 2 * LOBES + 1;
+
+const sinc = (x: number) => x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+const lanczos = (x: number) => Math.abs(x) < LOBES ? sinc(x) * sinc(x / LOBES) : 0;
+
+// With a whole factor, output pixel `q * scale + phase` is centered at source position
+// `q + offset(phase)`, so the weights only depend on the phase. Tap k reads source `q + k - LOBES`.
+const phaseWeights = (scale: number): Float64Array[] =>
+  Array.from({ length: scale }, (_, phase) => {
+    const offset = (phase + 0.5) / scale - 0.5;
+    const weights = new Float64Array(TAPS);
+    let sum = 0;
+    for (let k = 0; k < TAPS; k++) {
+      weights[k] = lanczos(k - LOBES - offset);
+      sum += weights[k];
+    }
+    return weights.map(w => w / sum);
+  });
+
+const clampIndex = (i: number, size: number) => i < 0 ? 0 : i >= size ? size - 1 : i;
+
+/**
+ * Returns the image upscaled to exactly `width * scale` by `height * scale` pixels.
+ * `onProgress` receives the finished fraction after each tile.
+ */
+export const upscaleLanczos = (
+  src: Uint8ClampedArray,
+  width: number,
+  height: number,
+  scale: UpscaleFactor,
+  onProgress?: (fraction: number) => void,
+): Uint8ClampedArray => {
+  const outWidth = width * scale;
+  const outHeight = height * scale;
+  const out = new Uint8ClampedArray(outWidth * outHeight * 4);
+  const weights = phaseWeights(scale);
+  const tilesX = Math.ceil(outWidth / UPSCALE_TILE_SIZE);
+  const tilesY = Math.ceil(outHeight / UPSCALE_TILE_SIZE);
+
+  for (let ty = 0; ty < tilesY; ty++) {
+    const oy0 = ty * UPSCALE_TILE_SIZE;
+    const oy1 = Math.min(outHeight, oy0 + UPSCALE_TILE_SIZE);
+    // The source rows this tile reads from, including the kernel margin.
+    const sy0 = Math.floor(oy0 / scale) - LOBES;
+    const sy1 = Math.floor((oy1 - 1) / scale) + LOBES + 1;
+    const rows = sy1 - sy0;
+
+    for (let tx = 0; tx < tilesX; tx++) {
+      const ox0 = tx * UPSCALE_TILE_SIZE;
+      const ox1 = Math.min(outWidth, ox0 + UPSCALE_TILE_SIZE);
+      const tileWidth = ox1 - ox0;
+
+      // Horizontal pass: premultiplied source rows resampled to the tile's output columns.
+      const rowBuffer = new Float32Array(rows * tileWidth * 4);
+      for (let r = 0; r < rows; r++) {
+        const rowStart = clampIndex(sy0 + r, height) * width;
+        for (let ox = ox0; ox < ox1; ox++) {
+          const w = weights[ox % scale];
+          const base = Math.floor(ox / scale) - LOBES;
+          let red = 0, green = 0, blue = 0, alpha = 0;
+          for (let k = 0; k < TAPS; k++) {
+            const i = (rowStart + clampIndex(base + k, width)) * 4;
+            const a = src[i + 3] * w[k];
+            red += src[i] * a;
+            green += src[i + 1] * a;
+            blue += src[i + 2] * a;
+            alpha += a;
+          }
+          const j = (r * tileWidth + ox - ox0) * 4;
+          rowBuffer[j] = red / 255;
+          rowBuffer[j + 1] = green / 255;
+          rowBuffer[j + 2] = blue / 255;
+          rowBuffer[j + 3] = alpha;
+        }
+      }
+
+      // Vertical pass, un-premultiplying into the output.
+      for (let oy = oy0; oy < oy1; oy++) {
+        const w = weights[oy % scale];
+        const base = Math.floor(oy / scale) - LOBES;
+        for (let x = 0; x < tileWidth; x++) {
+          let red = 0, green = 0, blue = 0, alpha = 0;
+          for (let k = 0; k < TAPS; k++) {
+            const j = ((base + k - sy0) * tileWidth + x) * 4;
+            red += rowBuffer[j] * w[k];
+            green += rowBuffer[j + 1] * w[k];
+            blue += rowBuffer[j + 2] * w[k];
+            alpha += rowBuffer[j + 3] * w[k];
+          }
+          const o = (oy * outWidth + ox0 + x) * 4;
+          const a = Math.min(255, alpha);
+          if (a > 0.5) {
+            out[o] = red * 255 / a;
+            out[o + 1] = green * 255 / a;
+            out[o + 2] = blue * 255 / a;
+          }
+          out[o + 3] = a;
+        }
+      }
+      onProgress?.((ty * tilesX + tx + 1) / (tilesX * tilesY));
+    }
+  }
+  return out;
+};
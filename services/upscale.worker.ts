@@ -0,0 +1,28 @@
+import { upscaleLanczos } from './upscale';
+import type { UpscaleFactor } from './upscale';
+import { loadTileModel, upscaleWithModel } from './modelUpscale';
+
+// Upscales one image per worker, posting progress after every tile. Pixels are transferred
+// both ways; the model, when given, is loaded here so inference stays off the main thread.
+
+interface UpscaleRequest {
+  width: number;
+  height: number;
+  buffer: ArrayBuffer;
+  scale: UpscaleFactor;
+  model?: ArrayBuffer;
+}
+
+self.onmessage = async (e: MessageEvent<UpscaleRequest>) => {
+  const { width, height, buffer, scale, model } = e.data;
+  const onProgress = (progress: number) => self.postMessage({ progress });
+  try {
+    const src = new Uint8ClampedArray(buffer);
+    const result = model
+      ? await upscaleWithModel((await loadTileModel(model)).run, src, width, height, scale, onProgress)
+      : upscaleLanczos(src, width, height, scale, onProgress);
+    self.postMessage({ buffer: result.buffer }, { transfer: [result.buffer] });
+  } catch (error) {
+    self.postMessage({ error: error instanceof Error ? error.message : String(error) });
+  }
+};
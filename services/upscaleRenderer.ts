@@ -0,0 +1,92 @@
+import { upscaleLanczos } from './upscale';
+import type { UpscaleFactor } from './upscale';
+import { loadTileModel, upscaleWithModel } from './modelUpscale';
+import { loadImage, createCanvas, MAX_CANVAS_PIXELS } from './canvasUtils';
+
+// Runs the local upscaler in its own worker, one per job so a cancelled job can be
+// stopped outright. Falls back to the main thread where module workers are unavailable.
+// With an ONNX model the image goes through the model instead of Lanczos.
+
+type UpscaleMessage = { progress?: number; buffer?: ArrayBuffer; error?: string };
+
+interface UpscaleOptions {
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+  model?: ArrayBuffer; // an ESRGAN-style ONNX model file
+}
+
+const runInWorker = (imageData: ImageData, scale: UpscaleFactor, { onProgress, signal, model }: UpscaleOptions): Promise<ArrayBuffer> | null => {
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./upscale.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('Upscale worker unavailable, upscaling on the main thread:', error);
+    return null;
+  }
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', handleAbort);
+    worker.onmessage = (e: MessageEvent<UpscaleMessage>) => {
+      if (e.data.progress !== undefined) {
+        onProgress?.(e.data.progress);
+        return;
+      }
+      finish();
+      if (e.data.buffer) resolve(e.data.buffer);
+      else reject(new Error(e.data.error || 'Upscaling failed.'));
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(`Upscaling failed: ${e.message}`));
+    };
+    const buffer = imageData.data.slice().buffer;
+    worker.postMessage({ width: imageData.width, height: imageData.height, buffer, scale, model }, [buffer]);
+  });
+};
+
+const upscaleOnMainThread = async ({ data, width, height }: ImageData, scale: UpscaleFactor, { onProgress, model }: UpscaleOptions) => {
+  if (!model) return upscaleLanczos(data, width, height, scale, onProgress);
+  const { run, release } = await loadTileModel(model);
+  try {
+    return await upscaleWithModel(run, data, width, height, scale, onProgress);
+  } finally {
+    await release();
+  }
+};
+
+/** Whether the image can be enlarged by `scale` without outgrowing what browsers can draw. */
+export const canUpscale = (width: number, height: number, scale: UpscaleFactor) =>
+  width * scale * height * scale <= MAX_CANVAS_PIXELS;
+
+/**
+ * Returns a canvas exactly `scale` times the size of `source`, resampled with Lanczos.
+ * Throws when that canvas would be larger than browsers can draw.
+ */
+export const upscaleCanvas = async (source: HTMLCanvasElement, scale: UpscaleFactor, options: UpscaleOptions = {}): Promise<HTMLCanvasElement> => {
+  options.signal?.throwIfAborted();
+  if (!canUpscale(source.width, source.height, scale)) {
+    throw new Error(`Upscaling ${scale}x would make a ${source.width * scale}×${source.height * scale} image, which is larger than browsers can draw. Try a smaller factor.`);
+  }
+  const imageData = source.getContext('2d')!.getImageData(0, 0, source.width, source.height);
+  const pending = runInWorker(imageData, scale, options);
+  const pixels = pending
+    ? new Uint8ClampedArray(await pending)
+    : await upscaleOnMainThread(imageData, scale, options);
+  const { canvas, ctx } = createCanvas(source.width * scale, source.height * scale);
+  ctx.putImageData(new ImageData(pixels, canvas.width, canvas.height), 0, 0);
+  return canvas;
+};
+
+export const upscaleImage = async (src: string, scale: UpscaleFactor, options: UpscaleOptions = {}): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(src);
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  return upscaleCanvas(canvas, scale, options);
+};
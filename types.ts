@@ -8,20 +8,256 @@ export type ExpandDirection = 'all' | 'top' | 'bottom' | 'left' | 'right';
 
 export type ExpandSize = 25 | 50 | 100;
 
+// New canvas area in pixels on each side of the original image.
+export interface ExpandPadding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// How far to expand: a percentage of the image on one or all sides, exact pixels
+// per side, or just enough to reach an aspect ratio (split evenly between both sides).
+export type ExpandRequest =
+  | { mode: 'direction'; direction: ExpandDirection; size: ExpandSize }
+  | { mode: 'pixels'; padding: ExpandPadding }
+  | { mode: 'aspectRatio'; aspectRatio: AspectRatio };
+
 export interface Product {
   id: string;
-  original: string; // base64
+  original: string; // data URL or object URL
   originalMimeType: string;
-  processed: string | null; // base64 of background-removed image
+  processed: string | null; // background-removed image, data URL or object URL
   isProcessing: boolean;
+  error?: ErrorReport; // why the last background removal failed; not persisted
+  hints?: ProductHints; // defaults apply when unset
+}
+
+export type ProductProminence = 'hero' | 'secondary';
+
+export type ProductSize = 'small' | 'medium' | 'large';
+
+// A rectangle relative to the poster: the top-left corner and size are fractions of its width and height.
+export interface PlacementBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// How a product should appear in generated posters.
+export interface ProductHints {
+  prominence: ProductProminence;
+  placement: PlacementBox | null; // null leaves the placement to the model
+  size: ProductSize;
+  caption: string;
 }
 
+// What a reference image should contribute to a generated poster.
+export type ReferenceRole = 'style' | 'composition' | 'color' | 'lighting' | 'typography';
+
+// An inspiration image attached to a generation; not persisted.
+export interface ReferenceImage {
+  id: string;
+  file: File;
+  preview: string; // object URL
+  role: ReferenceRole;
+  strength: number; // 0-100, how closely the poster should follow the reference
+}
+
+export type ErrorKind = 'quota' | 'safety' | 'no-image' | 'invalid-response' | 'invalid-input' | 'network' | 'auth' | 'timeout' | 'unknown';
+
+// A failed job as shown to the user. `diagnostics` is the text copied for bug reports.
+export interface ErrorReport {
+  kind: ErrorKind;
+  title: string;
+  explanation: string;
+  action: string;
+  diagnostics: string;
+}
+
+export type AspectCorrectionMode = 'crop' | 'outpaint' | 'off';
+
+// 'auto' asks the model first and falls back to local segmentation.
+export type BackgroundRemovalMode = 'auto' | 'ai' | 'local';
+
+// Result of checking a generated image against the requested format.
+export interface SpecCheck {
+  requestedAspectRatio: AspectRatio;
+  originalWidth: number;
+  originalHeight: number;
+  width: number;
+  height: number;
+  correction: 'crop' | 'outpaint' | null;
+  offSpec: boolean; // the model's output did not match the requested aspect ratio
+  lowResolution: boolean;
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+// Editable text drawn over a poster. Positions and sizes are relative to the
+// poster so they survive resizing; the text is only rasterized on export.
+export interface TextOverlay {
+  id: string;
+  text: string;
+  fontFamily: string;
+  fontWeight: 'normal' | 'bold';
+  fontSize: number; // fraction of the poster width
+  color: string;
+  align: TextAlign;
+  shadow: boolean;
+  x: number; // center, 0 to 1 of the poster width
+  y: number; // center, 0 to 1 of the poster height
+  rotation: number; // degrees
+}
+
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten' | 'soft-light' | 'difference';
+
+interface LayerBase {
+  id: string;
+  name: string;
+  visible: boolean;
+  opacity: number; // 0 to 1
+  blendMode: BlendMode;
+}
+
+// A bitmap layer placed by its center. Geometry is relative to the composition,
+// like text overlays, so it is independent of the rendered size.
+export interface ImageLayer extends LayerBase {
+  type: 'image';
+  role: 'background' | 'product';
+  src: string;
+  productId: string | null;
+  x: number; // center, 0 to 1 of the composition width
+  y: number; // center, 0 to 1 of the composition height
+  width: number; // fraction of the composition width
+  aspect: number; // natural height / natural width of the image
+}
+
+export interface TextLayer extends LayerBase {
+  type: 'text';
+  overlay: TextOverlay; // shares its id with the layer
+}
+
+export type Layer = ImageLayer | TextLayer;
+
+export interface Composition {
+  width: number; // pixel size of the background
+  height: number;
+  layers: Layer[]; // bottom to top
+}
+
+export type PosterOperation = 'generate' | 'refine' | 'inpaint' | 'filter' | 'crop' | 'upscale' | 'expand';
+
 export interface Poster {
   id: string;
-  src: string; // base64
+  src: string; // data URL or object URL
   prompt: string;
+  operation: PosterOperation;
+  parentId: string | null; // the poster this version was derived from
+  createdAt: number;
+  specCheck?: SpecCheck; // only set on generated posters
+  overlays?: TextOverlay[];
+  composition?: Composition; // layered posters; `src` is then the flattened image layers
+  filters?: ImageFilters; // 'filter' posters: the filters applied to the parent, kept for re-editing
+}
+
+// A slot in the variation picker; failed slots can be re-rolled.
+export interface RefinementVariation {
+  id: string;
+  status: 'pending' | 'done' | 'failed';
+  poster: Poster | null;
+  error: ErrorReport | null;
+}
+
+// [input, output] pairs from 0 to 1, sorted by input and always including both ends.
+export type CurvePoint = [number, number];
+
+export type AdjustmentType = 'exposure' | 'whiteBalance' | 'toneRange' | 'vibrance' | 'curves' | 'levels' | 'vignette' | 'sharpen' | 'blur' | 'lut';
+
+interface AdjustmentBase {
+  id: string;
+  enabled: boolean;
+}
+
+export interface ExposureAdjustment extends AdjustmentBase {
+  type: 'exposure';
+  stops: number; // -3 to 3
+}
+
+export interface WhiteBalanceAdjustment extends AdjustmentBase {
+  type: 'whiteBalance';
+  temperature: number; // -100 (cooler) to 100 (warmer)
+  tint: number; // -100 (greener) to 100 (more magenta)
+}
+
+export interface ToneRangeAdjustment extends AdjustmentBase {
+  type: 'toneRange';
+  highlights: number; // -100 to 100
+  shadows: number; // -100 to 100
+}
+
+export interface VibranceAdjustment extends AdjustmentBase {
+  type: 'vibrance';
+  amount: number; // -100 to 100
+}
+
+export interface CurvesAdjustment extends AdjustmentBase {
+  type: 'curves';
+  rgb: CurvePoint[];
+  red: CurvePoint[];
+  green: CurvePoint[];
+  blue: CurvePoint[];
 }
 
+export interface LevelsAdjustment extends AdjustmentBase {
+  type: 'levels';
+  inputBlack: number; // 0 to 255
+  inputWhite: number;
+  gamma: number; // 0.1 to 3
+  outputBlack: number;
+  outputWhite: number;
+}
+
+export interface VignetteAdjustment extends AdjustmentBase {
+  type: 'vignette';
+  amount: number; // -100 (lighter edges) to 100 (darker edges)
+  size: number; // 0 to 100, the untouched center
+}
+
+// Spatial radii are relative to the long edge, so previews at a smaller size match the export.
+export interface SharpenAdjustment extends AdjustmentBase {
+  type: 'sharpen';
+  amount: number; // 0 to 100
+  radius: number; // 0 to 100
+}
+
+export interface BlurAdjustment extends AdjustmentBase {
+  type: 'blur';
+  radius: number; // 0 to 100
+}
+
+// A 3D color lookup table imported from a .cube file.
+export interface LutAdjustment extends AdjustmentBase {
+  type: 'lut';
+  name: string;
+  size: number; // entries per axis
+  data: number[]; // size^3 RGB triples from 0 to 1, red varying fastest
+  intensity: number; // 0 to 100
+}
+
+export type Adjustment =
+  | ExposureAdjustment
+  | WhiteBalanceAdjustment
+  | ToneRangeAdjustment
+  | VibranceAdjustment
+  | CurvesAdjustment
+  | LevelsAdjustment
+  | VignetteAdjustment
+  | SharpenAdjustment
+  | BlurAdjustment
+  | LutAdjustment;
+
 export interface ImageFilters {
   brightness: number;
   contrast: number;
@@ -30,4 +266,77 @@ export interface ImageFilters {
     color: string;
     amount: number; // 0 to 1
   } | null;
-}
\ No newline at end of file
+  adjustments: Adjustment[]; // applied in order, before the sliders above
+}
+
+// A named set of filters. Built-in presets make up the looks gallery.
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: ImageFilters;
+  builtIn?: boolean;
+}
+
+export type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface Campaign {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface BatchJob {
+  id: string;
+  campaignId: string;
+  concept: string;
+  aspectRatio: AspectRatio;
+  productIds: string[];
+  posterText: string;
+  status: BatchJobStatus;
+  attempts: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  result: string | null; // data URL of the generated poster
+  specCheck: SpecCheck | null;
+  error: ErrorReport | null;
+}
+
+// A poster idea suggested by the text model for the current products.
+export interface CreativeBrief {
+  scene: string;
+  mood: string;
+  palette: string[]; // hex colors
+  headline: string;
+}
+
+// Where a prompt template can be used: the poster concept or the refine box.
+export type PromptTemplateTarget = 'concept' | 'refine';
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  target: PromptTemplateTarget;
+  text: string; // may contain {{variable}} placeholders
+  builtIn?: boolean;
+}
+
+export interface BrandColor {
+  name: string;
+  color: string; // hex
+}
+
+export interface BrandLogo {
+  id: string;
+  name: string;
+  src: string; // object URL
+  mimeType: string;
+}
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  colors: BrandColor[];
+  logos: BrandLogo[];
+  fonts: string[];
+  tone: string;
+}